@@ -0,0 +1,383 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, ExternalLink, Loader2, RefreshCw, RotateCcw, Rocket, XCircle } from "lucide-react"
+
+type RolloutSyncStatus = "QUEUED" | "RUNNING" | "PENDING" | "BRANCH_PUSHED" | "APPLIED" | "CLOSED" | "UP_TO_DATE" | "FAILED"
+
+interface RolloutSummary {
+  id: string
+  status: "RUNNING" | "COMPLETED" | "CANCELLED"
+  projectsCount: number
+  triggeredBy: string | null
+  createdAt: string
+  completedAt: string | null
+}
+
+interface RolloutSync {
+  id: string
+  status: RolloutSyncStatus
+  project: {
+    id: string
+    name: string
+    githubRepo: string | null
+    owner: string | null
+  }
+  pullRequestUrl: string | null
+  filesCount: number
+  conflictsCount: number
+  error: string | null
+  updatedAt: string
+}
+
+interface RolloutDetails extends Omit<RolloutSummary, "projectsCount"> {
+  syncs: RolloutSync[]
+}
+
+interface TemplateInfo {
+  id: string
+  name: string
+  icon: string
+  githubUrl: string
+  projectsCount: number
+}
+
+const STATUS_LABELS: Record<RolloutSyncStatus, { label: string; className: string }> = {
+  QUEUED: { label: "Pendiente", className: "bg-gray-100 text-gray-700" },
+  RUNNING: { label: "Sincronizando", className: "bg-blue-100 text-blue-700" },
+  PENDING: { label: "PR abierto", className: "bg-yellow-100 text-yellow-700" },
+  BRANCH_PUSHED: { label: "Branch sin PR", className: "bg-yellow-100 text-yellow-700" },
+  APPLIED: { label: "Merged", className: "bg-green-100 text-green-700" },
+  CLOSED: { label: "PR cerrado", className: "bg-gray-100 text-gray-700" },
+  UP_TO_DATE: { label: "Al día", className: "bg-blue-100 text-blue-700" },
+  FAILED: { label: "Falló", className: "bg-red-100 text-red-700" }
+}
+
+const ROLLOUT_STATUS_LABELS: Record<RolloutSummary["status"], string> = {
+  RUNNING: "En curso",
+  COMPLETED: "Completado",
+  CANCELLED: "Cancelado"
+}
+
+// Polling interval while a rollout is running
+const POLL_INTERVAL_MS = 5000
+
+export default function TemplateRolloutsPage({ params }: { params: Promise<{ id: string }> }) {
+  const [templateId, setTemplateId] = useState<string | null>(null)
+  const [template, setTemplate] = useState<TemplateInfo | null>(null)
+  const [rollouts, setRollouts] = useState<RolloutSummary[]>([])
+  const [selected, setSelected] = useState<RolloutDetails | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [starting, setStarting] = useState(false)
+  const [refreshing, setRefreshing] = useState(false)
+  const [retrying, setRetrying] = useState<string | null>(null)
+  const [cancelling, setCancelling] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    params.then(({ id }) => setTemplateId(id))
+  }, [params])
+
+  const fetchRollout = useCallback(async (rolloutId: string, refresh = false) => {
+    try {
+      const response = await fetch(
+        `/api/admin/templates/${templateId}/rollouts/${rolloutId}${refresh ? "?refresh=true" : ""}`
+      )
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to fetch rollout")
+
+      setSelected(data)
+      // Keep the summary list in sync with the selected rollout
+      setRollouts(current => current.map(rollout =>
+        rollout.id === data.id
+          ? { ...rollout, status: data.status, completedAt: data.completedAt }
+          : rollout
+      ))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to fetch rollout")
+    }
+  }, [templateId])
+
+  const fetchRollouts = useCallback(async (selectId?: string) => {
+    try {
+      const response = await fetch(`/api/admin/templates/${templateId}/rollouts`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to fetch rollouts")
+
+      setTemplate(data.template)
+      setRollouts(data.rollouts)
+      const rolloutId = selectId || data.rollouts[0]?.id
+      if (rolloutId) {
+        await fetchRollout(rolloutId)
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to fetch rollouts")
+    } finally {
+      setLoading(false)
+    }
+  }, [templateId, fetchRollout])
+
+  useEffect(() => {
+    if (templateId) {
+      fetchRollouts()
+    }
+  }, [templateId, fetchRollouts])
+
+  // Follow the running rollout until every project is processed
+  useEffect(() => {
+    if (selected?.status !== "RUNNING") return
+    const interval = setInterval(() => {
+      fetchRollout(selected.id)
+    }, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [selected?.id, selected?.status, fetchRollout])
+
+  const handleStartRollout = async () => {
+    if (!template) return
+    if (!confirm(`¿Sincronizar los ${template.projectsCount} proyectos creados desde ${template.name}? Se abrirá un pull request en cada repositorio.`)) {
+      return
+    }
+
+    try {
+      setStarting(true)
+      setError(null)
+      const response = await fetch(`/api/admin/templates/${templateId}/rollouts`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to start rollout")
+
+      await fetchRollouts(data.id)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to start rollout")
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const handleRefresh = async () => {
+    if (!selected) return
+    setRefreshing(true)
+    await fetchRollout(selected.id, true)
+    setRefreshing(false)
+  }
+
+  const handleRetry = async (syncId?: string) => {
+    if (!selected) return
+
+    try {
+      setRetrying(syncId || "all")
+      setError(null)
+      const response = await fetch(`/api/admin/templates/${templateId}/rollouts/${selected.id}/retry`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ syncId })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to retry rollout")
+
+      await fetchRollout(selected.id)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to retry rollout")
+    } finally {
+      setRetrying(null)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!selected) return
+    if (!confirm("¿Cancelar el rollout? Los proyectos que aún no se sincronizaron quedarán como fallidos y se podrán reintentar.")) {
+      return
+    }
+
+    try {
+      setCancelling(true)
+      setError(null)
+      const response = await fetch(`/api/admin/templates/${templateId}/rollouts/${selected.id}/cancel`, {
+        method: "POST"
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to cancel rollout")
+
+      await fetchRollout(selected.id)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to cancel rollout")
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+      </div>
+    )
+  }
+
+  const counts = selected?.syncs.reduce<Partial<Record<RolloutSyncStatus, number>>>((acc, sync) => {
+    acc[sync.status] = (acc[sync.status] || 0) + 1
+    return acc
+  }, {}) || {}
+  const running = rollouts.some(rollout => rollout.status === "RUNNING")
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/admin/templates">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold">
+                Rollout {template && `· ${template.icon} ${template.name}`}
+              </h1>
+              {template && (
+                <p className="text-sm text-gray-500">
+                  {template.projectsCount} proyectos creados desde este template
+                </p>
+              )}
+            </div>
+          </div>
+          <Button onClick={handleStartRollout} disabled={starting || running || !template?.projectsCount}>
+            {starting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Rocket className="h-4 w-4 mr-2" />}
+            Sincronizar todos los proyectos
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+            {error}
+          </div>
+        )}
+
+        {rollouts.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Este template no tiene rollouts aún</p>
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-4 gap-6">
+            <div className="bg-white rounded-lg shadow divide-y">
+              {rollouts.map(rollout => (
+                <button
+                  key={rollout.id}
+                  onClick={() => fetchRollout(rollout.id)}
+                  className={`w-full text-left px-4 py-3 text-sm hover:bg-gray-50 ${selected?.id === rollout.id ? "bg-blue-50" : ""}`}
+                >
+                  <div className="font-medium">{new Date(rollout.createdAt).toLocaleString()}</div>
+                  <div className="text-xs text-gray-500">
+                    {rollout.projectsCount} proyectos · {ROLLOUT_STATUS_LABELS[rollout.status]}
+                    {rollout.triggeredBy && ` · ${rollout.triggeredBy}`}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="lg:col-span-3 bg-white rounded-lg shadow">
+                <div className="px-4 py-3 border-b flex items-center justify-between">
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    {selected.status === "RUNNING" && <Loader2 className="h-4 w-4 animate-spin text-blue-600" />}
+                    {(Object.keys(STATUS_LABELS) as RolloutSyncStatus[])
+                      .filter(status => counts[status])
+                      .map(status => (
+                        <span key={status} className={`px-2 py-0.5 rounded ${STATUS_LABELS[status].className}`}>
+                          {STATUS_LABELS[status].label}: {counts[status]}
+                        </span>
+                      ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={handleRefresh} disabled={refreshing}>
+                      <RefreshCw className={`h-4 w-4 mr-1 ${refreshing ? "animate-spin" : ""}`} />
+                      Actualizar PRs
+                    </Button>
+                    {selected.status === "RUNNING" && (
+                      <Button size="sm" variant="outline" onClick={handleCancel} disabled={cancelling}>
+                        {cancelling ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <XCircle className="h-4 w-4 mr-1" />}
+                        Cancelar
+                      </Button>
+                    )}
+                    {counts.FAILED && (
+                      <Button size="sm" variant="outline" onClick={() => handleRetry()} disabled={retrying !== null}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Reintentar fallidos
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-500 bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 font-medium">Proyecto</th>
+                      <th className="px-4 py-2 font-medium">Owner</th>
+                      <th className="px-4 py-2 font-medium">Estado</th>
+                      <th className="px-4 py-2 font-medium">Detalle</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.syncs.map(sync => (
+                      <tr key={sync.id} className="border-t align-top">
+                        <td className="px-4 py-2">
+                          <Link href={`/projects/${sync.project.id}`} className="font-medium hover:underline">
+                            {sync.project.name}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">{sync.project.owner}</td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-0.5 rounded text-xs ${STATUS_LABELS[sync.status].className}`}>
+                            {STATUS_LABELS[sync.status].label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">
+                          {sync.status === "FAILED" && <span className="text-red-600">{sync.error}</span>}
+                          {sync.pullRequestUrl && (
+                            <a
+                              href={sync.pullRequestUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                            >
+                              Pull request <ExternalLink className="h-3 w-3" />
+                            </a>
+                          )}
+                          {sync.filesCount > 0 && ` · ${sync.filesCount} archivos`}
+                          {sync.conflictsCount > 0 && ` · ${sync.conflictsCount} conflictos`}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {sync.status === "FAILED" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleRetry(sync.id)}
+                              disabled={retrying !== null}
+                            >
+                              {retrying === sync.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                    {selected.syncs.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                          No había proyectos para sincronizar
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
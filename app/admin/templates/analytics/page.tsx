@@ -0,0 +1,288 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { AlertCircle, ArrowLeft, Loader2 } from "lucide-react"
+
+interface PullRequestStats {
+  merged: number
+  closed: number
+  pending: number
+  mergeRate: number | null
+}
+
+interface TemplateUsage {
+  id: string
+  name: string
+  icon: string
+  activeProjects: number
+  totalProjects: number
+  createdLast30Days: number
+  pullRequests: PullRequestStats
+}
+
+interface ProjectFreshness {
+  id: string
+  name: string
+  owner: string | null
+  templateSha: string | null
+  behindBy: number | null
+  lastSyncAt: string | null
+}
+
+interface TemplateAnalytics extends TemplateUsage {
+  branch: string
+  latestSha: string | null
+  latestError?: string
+  freshness: {
+    upToDate: number
+    behind: number
+    unknown: number
+    averageBehind: number | null
+  }
+  projects: ProjectFreshness[]
+  trend: { month: string; count: number }[]
+}
+
+const formatRate = (rate: number | null) => rate === null ? "—" : `${Math.round(rate * 100)}%`
+
+export default function TemplateAnalyticsPage() {
+  const [templates, setTemplates] = useState<TemplateUsage[]>([])
+  const [selected, setSelected] = useState<TemplateAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingDetails, setLoadingDetails] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTemplate = useCallback(async (id: string) => {
+    try {
+      setLoadingDetails(id)
+      setError(null)
+      const response = await fetch(`/api/admin/templates/${id}/analytics`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to fetch template analytics")
+
+      setSelected(data)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to fetch template analytics")
+    } finally {
+      setLoadingDetails(null)
+    }
+  }, [])
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/templates/analytics")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to fetch template analytics")
+
+      setTemplates(data.templates)
+      if (data.templates[0]) {
+        await fetchTemplate(data.templates[0].id)
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to fetch template analytics")
+    } finally {
+      setLoading(false)
+    }
+  }, [fetchTemplate])
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [fetchTemplates])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+      </div>
+    )
+  }
+
+  const maxTrend = Math.max(1, ...(selected?.trend.map(point => point.count) || []))
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Link href="/admin/templates">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">Analíticas de templates</h1>
+            <p className="text-sm text-gray-500">
+              Adopción, actualización y sincronización de los proyectos creados desde cada template
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+            {error}
+          </div>
+        )}
+
+        {templates.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No hay templates activos</p>
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-3 gap-6">
+            <div className="bg-white rounded-lg shadow overflow-hidden self-start">
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Template</th>
+                    <th className="px-4 py-2 font-medium text-right" title="Proyectos activos">Activos</th>
+                    <th className="px-4 py-2 font-medium text-right" title="Creados en los últimos 30 días">30 días</th>
+                    <th className="px-4 py-2 font-medium text-right" title="PRs de sincronización mergeados">Merge</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {templates.map(template => (
+                    <tr
+                      key={template.id}
+                      onClick={() => fetchTemplate(template.id)}
+                      className={`border-t cursor-pointer hover:bg-gray-50 ${selected?.id === template.id ? "bg-blue-50" : ""}`}
+                    >
+                      <td className="px-4 py-2 font-medium">
+                        <span className="mr-2">{template.icon}</span>
+                        {template.name}
+                        {loadingDetails === template.id && <Loader2 className="inline h-3 w-3 ml-2 animate-spin" />}
+                      </td>
+                      <td className="px-4 py-2 text-right">{template.activeProjects}</td>
+                      <td className="px-4 py-2 text-right">{template.createdLast30Days}</td>
+                      <td className="px-4 py-2 text-right">{formatRate(template.pullRequests.mergeRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {selected && (
+              <div className="lg:col-span-2 space-y-6">
+                <div className="grid sm:grid-cols-4 gap-4">
+                  <div className="bg-white rounded-lg shadow p-4">
+                    <div className="text-xs text-gray-500">Proyectos activos</div>
+                    <div className="text-2xl font-bold">{selected.activeProjects}</div>
+                    <div className="text-xs text-gray-500">{selected.totalProjects} creados en total</div>
+                  </div>
+                  <div className="bg-white rounded-lg shadow p-4">
+                    <div className="text-xs text-gray-500">En el último commit</div>
+                    <div className="text-2xl font-bold text-green-600">{selected.freshness.upToDate}</div>
+                    <div className="text-xs text-gray-500 font-mono">
+                      {selected.branch}{selected.latestSha && ` @ ${selected.latestSha.substring(0, 7)}`}
+                    </div>
+                  </div>
+                  <div className="bg-white rounded-lg shadow p-4">
+                    <div className="text-xs text-gray-500">Desactualizados</div>
+                    <div className="text-2xl font-bold text-yellow-600">{selected.freshness.behind}</div>
+                    <div className="text-xs text-gray-500">
+                      {selected.freshness.averageBehind !== null
+                        ? `${selected.freshness.averageBehind} commits atrás en promedio`
+                        : "Ninguno atrasado"}
+                      {selected.freshness.unknown > 0 && ` · ${selected.freshness.unknown} sin determinar`}
+                    </div>
+                  </div>
+                  <div className="bg-white rounded-lg shadow p-4">
+                    <div className="text-xs text-gray-500">PRs de sincronización mergeados</div>
+                    <div className="text-2xl font-bold">{formatRate(selected.pullRequests.mergeRate)}</div>
+                    <div className="text-xs text-gray-500">
+                      {selected.pullRequests.merged} merged · {selected.pullRequests.closed} cerrados · {selected.pullRequests.pending} abiertos
+                    </div>
+                  </div>
+                </div>
+
+                {selected.latestError && (
+                  <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded flex items-start gap-2 text-sm">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      No se pudo leer el historial del template en GitHub, no es posible calcular qué proyectos están al día: {selected.latestError}
+                    </span>
+                  </div>
+                )}
+
+                <div className="bg-white rounded-lg shadow p-4">
+                  <h2 className="font-semibold mb-4">Proyectos creados por mes</h2>
+                  <div className="flex items-end gap-2 h-32">
+                    {selected.trend.map(point => (
+                      <div key={point.month} className="flex-1 flex flex-col items-center justify-end h-full">
+                        <span className="text-xs text-gray-600 mb-1">{point.count || ""}</span>
+                        <div
+                          className="w-full bg-blue-500 rounded-t"
+                          style={{ height: `${(point.count / maxTrend) * 100}%` }}
+                          title={`${point.month}: ${point.count}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-2 mt-1">
+                    {selected.trend.map(point => (
+                      <span key={point.month} className="flex-1 text-center text-[10px] text-gray-500">
+                        {point.month.substring(2)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-lg shadow overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-500 bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 font-medium">Proyecto</th>
+                        <th className="px-4 py-2 font-medium">Owner</th>
+                        <th className="px-4 py-2 font-medium">Commit del template</th>
+                        <th className="px-4 py-2 font-medium">Estado</th>
+                        <th className="px-4 py-2 font-medium">Última sincronización</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selected.projects.map(project => (
+                        <tr key={project.id} className="border-t">
+                          <td className="px-4 py-2">
+                            <Link href={`/projects/${project.id}`} className="font-medium hover:underline">
+                              {project.name}
+                            </Link>
+                          </td>
+                          <td className="px-4 py-2 text-gray-600">{project.owner}</td>
+                          <td className="px-4 py-2 font-mono text-xs text-gray-600">
+                            {project.templateSha?.substring(0, 7) || "—"}
+                          </td>
+                          <td className="px-4 py-2">
+                            {project.behindBy === null ? (
+                              <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">Sin determinar</span>
+                            ) : project.behindBy === 0 ? (
+                              <span className="px-2 py-0.5 rounded text-xs bg-green-100 text-green-700">Al día</span>
+                            ) : (
+                              <span className="px-2 py-0.5 rounded text-xs bg-yellow-100 text-yellow-700">
+                                {project.behindBy} commits atrás
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-gray-600">
+                            {project.lastSyncAt ? new Date(project.lastSyncAt).toLocaleDateString() : "Nunca"}
+                          </td>
+                        </tr>
+                      ))}
+                      {selected.projects.length === 0 && (
+                        <tr>
+                          <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                            No hay proyectos activos creados desde este template
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,444 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { TemplateValidationIssues } from "@/components/template-validation-issues"
+import { ArrowLeft, CheckCircle, Download, ExternalLink, Loader2, Lock, Plus, RefreshCw, Trash2, XCircle } from "lucide-react"
+
+type DiscoveredStatus = "NEW" | "IMPORTED" | "DISMISSED" | "REMOVED"
+
+interface ValidationIssue {
+  severity: "error" | "warning"
+  code: string
+  message: string
+  file?: string
+  field?: string
+}
+
+interface DiscoveredRepository {
+  id: string
+  owner: string
+  repo: string
+  githubUrl: string
+  description: string | null
+  isPrivate: boolean
+  status: DiscoveredStatus
+  validation: {
+    valid: boolean
+    name?: string
+    errors: ValidationIssue[]
+    warnings: ValidationIssue[]
+  } | null
+  githubTemplate: { id: string; name: string; isActive: boolean } | null
+  firstSeenAt: string
+  removedAt: string | null
+}
+
+interface TemplateSource {
+  id: string
+  organization: string
+  topic: string
+  hasToken: boolean
+  isActive: boolean
+  lastScannedAt: string | null
+  lastScanError: string | null
+  repositories: DiscoveredRepository[]
+}
+
+const STATUS_LABELS: Record<DiscoveredStatus, { label: string; className: string }> = {
+  NEW: { label: "Nuevo", className: "bg-blue-100 text-blue-700" },
+  IMPORTED: { label: "Importado", className: "bg-green-100 text-green-700" },
+  DISMISSED: { label: "Descartado", className: "bg-gray-100 text-gray-700" },
+  REMOVED: { label: "Eliminado", className: "bg-red-100 text-red-700" }
+}
+
+export default function DiscoverTemplatesPage() {
+  const [sources, setSources] = useState<TemplateSource[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [newSource, setNewSource] = useState({ organization: "", topic: "idp-template", githubToken: "" })
+  const [adding, setAdding] = useState(false)
+  const [scanning, setScanning] = useState<string | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [importing, setImporting] = useState(false)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [showDismissed, setShowDismissed] = useState(false)
+
+  useEffect(() => {
+    fetchSources()
+  }, [])
+
+  const fetchSources = async () => {
+    try {
+      const response = await fetch("/api/admin/template-sources")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to fetch template sources")
+      setSources(data)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to fetch template sources")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAddSource = async () => {
+    try {
+      setAdding(true)
+      setError(null)
+      const response = await fetch("/api/admin/template-sources", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          organization: newSource.organization,
+          topic: newSource.topic || undefined,
+          githubToken: newSource.githubToken || undefined
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to add organization")
+
+      setNewSource({ organization: "", topic: "idp-template", githubToken: "" })
+      setMessage(`Escaneando ${data.organization}... actualiza en unos segundos para ver los repositorios`)
+      await fetchSources()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to add organization")
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const handleScan = async (source: TemplateSource) => {
+    try {
+      setScanning(source.id)
+      setError(null)
+      const response = await fetch(`/api/admin/template-sources/${source.id}/scan`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to scan organization")
+
+      setMessage(`${source.organization}: ${data.found} repositorios, ${data.added} nuevos, ${data.removed} eliminados`)
+      await fetchSources()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to scan organization")
+    } finally {
+      setScanning(null)
+    }
+  }
+
+  const handleToggleActive = async (source: TemplateSource) => {
+    try {
+      const response = await fetch(`/api/admin/template-sources/${source.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !source.isActive })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to update organization")
+
+      setSources(sources.map(s => s.id === source.id ? { ...s, isActive: data.isActive } : s))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update organization")
+    }
+  }
+
+  const handleDeleteSource = async (source: TemplateSource) => {
+    if (!confirm(`¿Dejar de escanear ${source.organization}? Los templates importados se mantienen.`)) return
+
+    try {
+      const response = await fetch(`/api/admin/template-sources/${source.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Failed to delete organization")
+      }
+      setSources(sources.filter(s => s.id !== source.id))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to delete organization")
+    }
+  }
+
+  const handleDismiss = async (repository: DiscoveredRepository) => {
+    const status = repository.status === "DISMISSED" ? "NEW" : "DISMISSED"
+    try {
+      const response = await fetch(`/api/admin/discovered-templates/${repository.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to update repository")
+
+      setSelected(current => {
+        const next = new Set(current)
+        next.delete(repository.id)
+        return next
+      })
+      await fetchSources()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update repository")
+    }
+  }
+
+  const handleImport = async () => {
+    try {
+      setImporting(true)
+      setError(null)
+      const response = await fetch("/api/admin/discovered-templates/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: Array.from(selected) })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to import templates")
+
+      setMessage(
+        `${data.imported.length} template(s) importados` +
+        (data.skipped.length > 0
+          ? `. Omitidos: ${data.skipped.map((s: { reason: string }) => s.reason).join(", ")}`
+          : "")
+      )
+      setSelected(new Set())
+      await fetchSources()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to import templates")
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/admin/templates">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold">Descubrir Templates</h1>
+              <p className="text-sm text-gray-500">Repositorios de tus organizaciones marcados con un topic</p>
+            </div>
+          </div>
+          <Button onClick={handleImport} disabled={selected.size === 0 || importing}>
+            {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Importar seleccionados ({selected.size})
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded">
+            {message}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow p-4">
+          <h2 className="font-semibold mb-3">Agregar organización</h2>
+          <div className="grid md:grid-cols-4 gap-3">
+            <input
+              type="text"
+              value={newSource.organization}
+              onChange={(e) => setNewSource({ ...newSource, organization: e.target.value })}
+              placeholder="mi-empresa"
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <input
+              type="text"
+              value={newSource.topic}
+              onChange={(e) => setNewSource({ ...newSource, topic: e.target.value })}
+              placeholder="idp-template"
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <input
+              type="password"
+              value={newSource.githubToken}
+              onChange={(e) => setNewSource({ ...newSource, githubToken: e.target.value })}
+              placeholder="GitHub Token (repos privados)"
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <Button onClick={handleAddSource} disabled={adding || !newSource.organization}>
+              {adding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Agregar y escanear
+            </Button>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showDismissed}
+            onChange={(e) => setShowDismissed(e.target.checked)}
+            className="h-4 w-4"
+          />
+          Mostrar repositorios descartados
+        </label>
+
+        {sources.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Aún no hay organizaciones configuradas</p>
+          </div>
+        ) : sources.map(source => {
+          const repositories = source.repositories.filter(r => showDismissed || r.status !== "DISMISSED")
+          return (
+            <div key={source.id} className="bg-white rounded-lg shadow">
+              <div className="px-4 py-3 border-b flex items-center justify-between">
+                <div>
+                  <h3 className="font-semibold flex items-center gap-2">
+                    {source.organization}
+                    <span className="text-xs font-normal bg-gray-100 px-2 py-0.5 rounded">topic: {source.topic}</span>
+                    {source.hasToken && <Lock className="h-3 w-3 text-gray-400" />}
+                  </h3>
+                  <p className="text-xs text-gray-500">
+                    {source.lastScannedAt
+                      ? `Último escaneo: ${new Date(source.lastScannedAt).toLocaleString()}`
+                      : "Escaneo pendiente"}
+                    {source.lastScanError && <span className="text-red-600"> · Error: {source.lastScanError}</span>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-1 text-xs text-gray-600 mr-2">
+                    <input
+                      type="checkbox"
+                      checked={source.isActive}
+                      onChange={() => handleToggleActive(source)}
+                      className="h-3 w-3"
+                    />
+                    Escaneo periódico
+                  </label>
+                  <Button size="sm" variant="outline" onClick={() => handleScan(source)} disabled={scanning !== null}>
+                    <RefreshCw className={`h-4 w-4 mr-1 ${scanning === source.id ? "animate-spin" : ""}`} />
+                    Escanear
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDeleteSource(source)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 w-8"></th>
+                    <th className="px-4 py-2 font-medium">Repositorio</th>
+                    <th className="px-4 py-2 font-medium">Estado</th>
+                    <th className="px-4 py-2 font-medium">Validación</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {repositories.map(repository => {
+                    const selectable = repository.status === "NEW" && !!repository.validation?.valid
+                    return (
+                      <tr key={repository.id} className="border-t align-top">
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(repository.id)}
+                            onChange={() => toggleSelected(repository.id)}
+                            disabled={!selectable}
+                            className="h-4 w-4"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <a
+                            href={repository.githubUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-medium inline-flex items-center gap-1 hover:underline"
+                          >
+                            {repository.validation?.name || repository.repo}
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                          {repository.isPrivate && <Lock className="inline h-3 w-3 ml-1 text-gray-400" />}
+                          <p className="text-xs text-gray-500">
+                            {repository.owner}/{repository.repo}
+                            {repository.description && ` · ${repository.description}`}
+                          </p>
+                        </td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-0.5 rounded text-xs ${STATUS_LABELS[repository.status].className}`}>
+                            {STATUS_LABELS[repository.status].label}
+                          </span>
+                          {repository.status === "REMOVED" && repository.removedAt && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              desde {new Date(repository.removedAt).toLocaleDateString()}
+                              {repository.githubTemplate?.isActive && " · el template sigue activo"}
+                            </p>
+                          )}
+                          {repository.status === "IMPORTED" && repository.githubTemplate && (
+                            <p className="text-xs text-gray-500 mt-1">{repository.githubTemplate.name}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          {repository.validation && (
+                            <button
+                              onClick={() => setExpanded(expanded === repository.id ? null : repository.id)}
+                              className="inline-flex items-center gap-1 text-xs hover:underline"
+                            >
+                              {repository.validation.valid
+                                ? <CheckCircle className="h-4 w-4 text-green-600" />
+                                : <XCircle className="h-4 w-4 text-red-600" />}
+                              {repository.validation.errors.length} errores, {repository.validation.warnings.length} avisos
+                            </button>
+                          )}
+                          {expanded === repository.id && repository.validation && (
+                            <TemplateValidationIssues
+                              errors={repository.validation.errors}
+                              warnings={repository.validation.warnings}
+                            />
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {(repository.status === "NEW" || repository.status === "DISMISSED") && (
+                            <Button size="sm" variant="ghost" onClick={() => handleDismiss(repository)}>
+                              {repository.status === "DISMISSED" ? "Restaurar" : "Descartar"}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                  {repositories.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                        No se encontraron repositorios con el topic {source.topic}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )
+        })}
+      </main>
+    </div>
+  )
+}
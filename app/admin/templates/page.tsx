@@ -2,16 +2,22 @@
 
 import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, Plus, Edit, Trash2, Github, Save, X, Loader2, CheckCircle, XCircle, AlertCircle, Lock } from "lucide-react"
+import { ArrowLeft, Plus, Edit, Trash2, Github, Save, X, Loader2, CheckCircle, XCircle, AlertCircle, Lock, Rocket, Search, BarChart3, Tags } from "lucide-react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
+import { PathRulesEditor } from "@/components/path-rules-editor"
+import { TemplateValidationIssues } from "@/components/template-validation-issues"
+import { ManagedTemplateCategory, TemplateCategoriesManager } from "@/components/template-categories-manager"
+import { TemplateCategoryInfo } from "@/lib/templates/template-categories"
+import { normalizePathPatterns } from "@/lib/templates/path-rules"
 
 interface GitHubTemplate {
   id: string
   templateId: string
   name: string
   description: string
-  category: string
+  categoryId: string | null
+  category: TemplateCategoryInfo | null
   icon: string
   githubUrl: string
   githubToken?: string
@@ -21,6 +27,12 @@ interface GitHubTemplate {
   branch: string
   features: string[]
   includeBranches: boolean
+  branchPatterns: string[]
+  tagPatterns: string[]
+  ignorePaths: string[]
+  ownedPaths: string[]
+  isAddon: boolean
+  addonPrecedence: number
   isPrivate: boolean
   isActive: boolean
   createdAt: string
@@ -35,6 +47,8 @@ interface GitHubTemplate {
 export default function AdminTemplatesPage() {
   const router = useRouter()
   const [templates, setTemplates] = useState<GitHubTemplate[]>([])
+  const [categories, setCategories] = useState<ManagedTemplateCategory[]>([])
+  const [showCategories, setShowCategories] = useState(false)
   const [loading, setLoading] = useState(true)
   const [isAdding, setIsAdding] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
@@ -43,15 +57,17 @@ export default function AdminTemplatesPage() {
   
   const [newTemplate, setNewTemplate] = useState({
     templateId: "",
-    name: "",
-    description: "",
-    category: "infrastructure",
-    icon: "📦",
     githubUrl: "",
     githubToken: "",
     branch: "main",
-    features: [""],
+    categoryId: "", // Vacío: la categoría del manifest
     includeBranches: true,
+    branchPatterns: "",
+    tagPatterns: "",
+    ignorePaths: "",
+    ownedPaths: "",
+    isAddon: false,
+    addonPrecedence: 0,
     isPrivate: false
   })
   
@@ -68,15 +84,17 @@ export default function AdminTemplatesPage() {
   })
 
   const [editingTemplate, setEditingTemplate] = useState<Partial<GitHubTemplate> | null>(null)
+  const [editingPatterns, setEditingPatterns] = useState({ branchPatterns: "", tagPatterns: "", ignorePaths: "", ownedPaths: "" })
 
   // Load templates on component mount
   useEffect(() => {
     loadTemplates()
+    loadCategories()
   }, [])
 
-  const loadTemplates = async () => {
+  const loadTemplates = async (showSpinner = true) => {
     try {
-      setLoading(true)
+      if (showSpinner) setLoading(true)
       const response = await fetch("/api/admin/templates")
       
       if (!response.ok) {
@@ -97,6 +115,18 @@ export default function AdminTemplatesPage() {
     }
   }
 
+  const loadCategories = async () => {
+    try {
+      const response = await fetch("/api/admin/template-categories")
+      if (!response.ok) throw new Error("Failed to load categories")
+
+      setCategories(await response.json())
+    } catch (error) {
+      console.error("Error loading categories:", error)
+      setError("Error loading categories")
+    }
+  }
+
   const validateGitHubRepo = async () => {
     if (!newTemplate.githubUrl) {
       setValidationState({
@@ -116,7 +146,9 @@ export default function AdminTemplatesPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           githubUrl: newTemplate.githubUrl,
-          githubToken: newTemplate.githubToken
+          githubToken: newTemplate.githubToken,
+          branch: newTemplate.branch,
+          isAddon: newTemplate.isAddon
         })
       })
       
@@ -130,13 +162,11 @@ export default function AdminTemplatesPage() {
           details: data
         })
         
-        // Auto-fill some fields if they're empty
+        // Auto-fill the template ID if it's empty
         if (!newTemplate.templateId) {
           setNewTemplate(prev => ({
             ...prev,
-            templateId: data.parsedUrl.repo,
-            name: prev.name || data.repository.name,
-            description: prev.description || data.repository.description || ""
+            templateId: data.parsedUrl.repo
           }))
         }
       } else {
@@ -144,7 +174,7 @@ export default function AdminTemplatesPage() {
           loading: false,
           valid: false,
           error: data.error || "Invalid repository",
-          details: data.details
+          details: data.errors ? data : null
         })
       }
     } catch (error: any) {
@@ -171,15 +201,17 @@ export default function AdminTemplatesPage() {
       setSaving(true)
       setError(null)
       
-      const templateData = {
-        ...newTemplate,
-        features: newTemplate.features.filter(f => f.trim() !== "")
-      }
-      
       const response = await fetch("/api/admin/templates", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(templateData)
+        body: JSON.stringify({
+          ...newTemplate,
+          categoryId: newTemplate.categoryId || undefined,
+          branchPatterns: parsePatterns(newTemplate.branchPatterns),
+          tagPatterns: parsePatterns(newTemplate.tagPatterns),
+          ignorePaths: normalizePathPatterns(newTemplate.ignorePaths),
+          ownedPaths: normalizePathPatterns(newTemplate.ownedPaths)
+        })
       })
       
       if (!response.ok) {
@@ -189,19 +221,23 @@ export default function AdminTemplatesPage() {
       
       const created = await response.json()
       setTemplates([created, ...templates])
+      // The manifest may have introduced a new category
+      loadCategories()
       
       // Reset form
       setNewTemplate({
         templateId: "",
-        name: "",
-        description: "",
-        category: "infrastructure",
-        icon: "📦",
         githubUrl: "",
         githubToken: "",
         branch: "main",
-        features: [""],
+        categoryId: "",
         includeBranches: true,
+        branchPatterns: "",
+        tagPatterns: "",
+        ignorePaths: "",
+        ownedPaths: "",
+        isAddon: false,
+        addonPrecedence: 0,
         isPrivate: false
       })
       setValidationState({
@@ -227,7 +263,11 @@ export default function AdminTemplatesPage() {
       
       const updateData = {
         ...editingTemplate,
-        features: editingTemplate.features?.filter(f => f.trim() !== "")
+        features: editingTemplate.features?.filter(f => f.trim() !== ""),
+        branchPatterns: parsePatterns(editingPatterns.branchPatterns),
+        tagPatterns: parsePatterns(editingPatterns.tagPatterns),
+        ignorePaths: normalizePathPatterns(editingPatterns.ignorePaths),
+        ownedPaths: normalizePathPatterns(editingPatterns.ownedPaths)
       }
       
       const response = await fetch(`/api/admin/templates/${editingId}`, {
@@ -243,6 +283,7 @@ export default function AdminTemplatesPage() {
       
       const updated = await response.json()
       setTemplates(templates.map(t => t.id === editingId ? updated : t))
+      loadCategories()
       setEditingId(null)
       setEditingTemplate(null)
     } catch (error: any) {
@@ -271,12 +312,7 @@ export default function AdminTemplatesPage() {
   }
 
   const addFeature = () => {
-    if (isAdding) {
-      setNewTemplate({
-        ...newTemplate,
-        features: [...newTemplate.features, ""]
-      })
-    } else if (editingTemplate) {
+    if (editingTemplate) {
       setEditingTemplate({
         ...editingTemplate,
         features: [...(editingTemplate.features || []), ""]
@@ -285,11 +321,7 @@ export default function AdminTemplatesPage() {
   }
 
   const updateFeature = (index: number, value: string) => {
-    if (isAdding) {
-      const features = [...newTemplate.features]
-      features[index] = value
-      setNewTemplate({ ...newTemplate, features })
-    } else if (editingTemplate) {
+    if (editingTemplate) {
       const features = [...(editingTemplate.features || [])]
       features[index] = value
       setEditingTemplate({ ...editingTemplate, features })
@@ -297,10 +329,7 @@ export default function AdminTemplatesPage() {
   }
 
   const removeFeature = (index: number) => {
-    if (isAdding) {
-      const features = newTemplate.features.filter((_, i) => i !== index)
-      setNewTemplate({ ...newTemplate, features })
-    } else if (editingTemplate) {
+    if (editingTemplate) {
       const features = (editingTemplate.features || []).filter((_, i) => i !== index)
       setEditingTemplate({ ...editingTemplate, features })
     }
@@ -326,10 +355,28 @@ export default function AdminTemplatesPage() {
             </Link>
             <h1 className="text-2xl font-bold">Administrar Templates de GitHub</h1>
           </div>
-          <Button onClick={() => setIsAdding(true)} disabled={isAdding}>
-            <Plus className="h-4 w-4 mr-2" />
-            Agregar Template
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowCategories(!showCategories)}>
+              <Tags className="h-4 w-4 mr-2" />
+              Categorías
+            </Button>
+            <Link href="/admin/templates/analytics">
+              <Button variant="outline">
+                <BarChart3 className="h-4 w-4 mr-2" />
+                Analíticas
+              </Button>
+            </Link>
+            <Link href="/admin/templates/discover">
+              <Button variant="outline">
+                <Search className="h-4 w-4 mr-2" />
+                Descubrir en organizaciones
+              </Button>
+            </Link>
+            <Button onClick={() => setIsAdding(true)} disabled={isAdding}>
+              <Plus className="h-4 w-4 mr-2" />
+              Agregar Template
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -340,6 +387,18 @@ export default function AdminTemplatesPage() {
           </div>
         )}
 
+        {showCategories && (
+          <TemplateCategoriesManager
+            categories={categories}
+            onChange={async () => {
+              setError(null)
+              // Renaming or deleting a category changes the templates that show it
+              await Promise.all([loadCategories(), loadTemplates(false)])
+            }}
+            onError={setError}
+          />
+        )}
+
         {/* Formulario para agregar template */}
         {isAdding && (
           <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
@@ -361,17 +420,38 @@ export default function AdminTemplatesPage() {
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Nombre *
+                  Branch
                 </label>
                 <input
                   type="text"
-                  value={newTemplate.name}
-                  onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
-                  placeholder="Terraform VPC Module"
+                  value={newTemplate.branch}
+                  onChange={(e) => {
+                    setNewTemplate({ ...newTemplate, branch: e.target.value })
+                    setValidationState({ loading: false, valid: null, error: null, details: null })
+                  }}
+                  placeholder="main"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md"
                 />
               </div>
               
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Categoría
+                </label>
+                <select
+                  value={newTemplate.categoryId}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, categoryId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">La de .template.json</option>
+                  {categories.map(category => (
+                    <option key={category.id} value={category.id}>
+                      {category.icon} {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   URL del Repositorio *
@@ -407,6 +487,12 @@ export default function AdminTemplatesPage() {
                 {validationState.error && (
                   <p className="mt-1 text-sm text-red-600">{validationState.error}</p>
                 )}
+                {validationState.details && (
+                  <TemplateValidationIssues
+                    errors={validationState.details.errors}
+                    warnings={validationState.details.warnings}
+                  />
+                )}
                 {validationState.valid === true && validationState.details && (
                   <div className="mt-2 p-2 bg-green-50 border border-green-200 rounded text-sm">
                     <p className="font-medium text-green-800">
@@ -420,6 +506,34 @@ export default function AdminTemplatesPage() {
                       <span>{validationState.details.repository.defaultBranch} branch</span>
                       <span>{validationState.details.owner.type}</span>
                     </div>
+                    {validationState.details.manifest ? (
+                      <div className="mt-2 pt-2 border-t border-green-200">
+                        <p className="text-green-800">
+                          <span className="mr-1">{validationState.details.manifest.icon || "📦"}</span>
+                          <span className="font-medium">{validationState.details.manifest.name}</span>
+                          {validationState.details.manifest.category && (
+                            <span className="ml-2 text-xs bg-green-100 px-2 py-0.5 rounded">
+                              {validationState.details.manifest.category}
+                            </span>
+                          )}
+                        </p>
+                        {validationState.details.manifest.description && (
+                          <p className="text-green-700">{validationState.details.manifest.description}</p>
+                        )}
+                        {validationState.details.manifest.features?.length > 0 && (
+                          <ul className="text-xs text-green-700 list-disc list-inside mt-1">
+                            {validationState.details.manifest.features.map((feature: string, i: number) => (
+                              <li key={i}>{feature}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="mt-2 text-xs text-yellow-700 flex items-center gap-1">
+                        <AlertCircle className="h-3 w-3" />
+                        No se encontró .template.json; se usarán el nombre y la descripción del repositorio
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
@@ -454,60 +568,6 @@ export default function AdminTemplatesPage() {
                 </p>
               </div>
               
-              <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Descripción
-                </label>
-                <textarea
-                  value={newTemplate.description}
-                  onChange={(e) => setNewTemplate({ ...newTemplate, description: e.target.value })}
-                  rows={2}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                />
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Categoría
-                </label>
-                <select
-                  value={newTemplate.category}
-                  onChange={(e) => setNewTemplate({ ...newTemplate, category: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                >
-                  <option value="infrastructure">Infrastructure</option>
-                  <option value="backend">Backend</option>
-                  <option value="frontend">Frontend</option>
-                  <option value="serverless">Serverless</option>
-                </select>
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Icono
-                </label>
-                <input
-                  type="text"
-                  value={newTemplate.icon}
-                  onChange={(e) => setNewTemplate({ ...newTemplate, icon: e.target.value })}
-                  placeholder="🚀"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                />
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Branch
-                </label>
-                <input
-                  type="text"
-                  value={newTemplate.branch}
-                  onChange={(e) => setNewTemplate({ ...newTemplate, branch: e.target.value })}
-                  placeholder="main"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                />
-              </div>
-              
               <div className="flex items-center gap-4">
                 <div className="flex items-center gap-2">
                   <input
@@ -534,39 +594,93 @@ export default function AdminTemplatesPage() {
                     Repositorio privado
                   </label>
                 </div>
+                
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="isAddon"
+                    checked={newTemplate.isAddon}
+                    onChange={(e) => {
+                      setNewTemplate({ ...newTemplate, isAddon: e.target.checked })
+                      // Add-ons skip the workflow and Terraform checks
+                      setValidationState({ loading: false, valid: null, error: null, details: null })
+                    }}
+                    className="rounded"
+                  />
+                  <label htmlFor="isAddon" className="text-sm text-gray-700">
+                    Es un add-on
+                  </label>
+                </div>
+                
+                {newTemplate.isAddon && (
+                  <div className="flex items-center gap-2">
+                    <label htmlFor="addonPrecedence" className="text-sm text-gray-700">
+                      Precedencia
+                    </label>
+                    <input
+                      type="number"
+                      id="addonPrecedence"
+                      value={newTemplate.addonPrecedence}
+                      onChange={(e) => setNewTemplate({ ...newTemplate, addonPrecedence: Number(e.target.value) || 0 })}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                )}
               </div>
+              {newTemplate.isAddon && (
+                <p className="text-xs text-gray-500">
+                  Los add-ons se aplican sobre un template base. Con la misma ruta en varias capas gana el de mayor precedencia
+                </p>
+              )}
               
-              <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Características
-                </label>
-                {newTemplate.features.map((feature, index) => (
-                  <div key={index} className="flex gap-2 mb-2">
+              {newTemplate.includeBranches && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Branches a incluir
+                    </label>
                     <input
                       type="text"
-                      value={feature}
-                      onChange={(e) => updateFeature(index, e.target.value)}
-                      placeholder="Característica del template"
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                      value={newTemplate.branchPatterns}
+                      onChange={(e) => setNewTemplate({ ...newTemplate, branchPatterns: e.target.value })}
+                      placeholder="develop, release/*"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
                     />
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => removeFeature(index)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <p className="mt-1 text-xs text-gray-500">Patrones glob separados por coma. Vacío = todos</p>
                   </div>
-                ))}
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={addFeature}
-                >
-                  <Plus className="h-4 w-4 mr-1" />
-                  Agregar característica
-                </Button>
+                  
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Tags a incluir
+                    </label>
+                    <input
+                      type="text"
+                      value={newTemplate.tagPatterns}
+                      onChange={(e) => setNewTemplate({ ...newTemplate, tagPatterns: e.target.value })}
+                      placeholder="v1.*"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">Patrones glob separados por coma. Vacío = ninguno, * = todos</p>
+                  </div>
+                </>
+              )}
+              
+              <div className="md:col-span-2">
+                <PathRulesEditor
+                  value={{ ignorePaths: newTemplate.ignorePaths, ownedPaths: newTemplate.ownedPaths }}
+                  onChange={(rules) => setNewTemplate({ ...newTemplate, ...rules })}
+                  source={{
+                    githubUrl: newTemplate.githubUrl || undefined,
+                    githubToken: newTemplate.githubToken || undefined,
+                    branch: newTemplate.branch || undefined
+                  }}
+                />
               </div>
+              
+              <p className="md:col-span-2 text-xs text-gray-500">
+                El nombre, la descripción, la categoría, el icono y las características se leen del
+                archivo <code>.template.json</code> del repositorio.
+              </p>
             </div>
             
             <div className="flex gap-4 mt-6">
@@ -611,14 +725,16 @@ export default function AdminTemplatesPage() {
                         Categoría
                       </label>
                       <select
-                        value={editingTemplate?.category || ""}
-                        onChange={(e) => setEditingTemplate({ ...editingTemplate, category: e.target.value })}
+                        value={editingTemplate?.categoryId || ""}
+                        onChange={(e) => setEditingTemplate({ ...editingTemplate, categoryId: e.target.value || null })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md"
                       >
-                        <option value="infrastructure">Infrastructure</option>
-                        <option value="backend">Backend</option>
-                        <option value="frontend">Frontend</option>
-                        <option value="serverless">Serverless</option>
+                        <option value="">Sin categoría</option>
+                        {categories.map(category => (
+                          <option key={category.id} value={category.id}>
+                            {category.icon} {category.name}
+                          </option>
+                        ))}
                       </select>
                     </div>
                     
@@ -664,6 +780,90 @@ export default function AdminTemplatesPage() {
                         Agregar característica
                       </Button>
                     </div>
+                    
+                    <div className="md:col-span-2 flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id={`includeBranches-${template.id}`}
+                        checked={editingTemplate?.includeBranches ?? false}
+                        onChange={(e) => setEditingTemplate({ ...editingTemplate, includeBranches: e.target.checked })}
+                        className="rounded"
+                      />
+                      <label htmlFor={`includeBranches-${template.id}`} className="text-sm text-gray-700">
+                        Copiar branches y tags del template
+                      </label>
+                    </div>
+                    
+                    <div className="md:col-span-2 flex items-center gap-4">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          id={`isAddon-${template.id}`}
+                          checked={editingTemplate?.isAddon ?? false}
+                          onChange={(e) => setEditingTemplate({ ...editingTemplate, isAddon: e.target.checked })}
+                          className="rounded"
+                        />
+                        <label htmlFor={`isAddon-${template.id}`} className="text-sm text-gray-700">
+                          Es un add-on
+                        </label>
+                      </div>
+                      {editingTemplate?.isAddon && (
+                        <div className="flex items-center gap-2">
+                          <label htmlFor={`addonPrecedence-${template.id}`} className="text-sm text-gray-700">
+                            Precedencia
+                          </label>
+                          <input
+                            type="number"
+                            id={`addonPrecedence-${template.id}`}
+                            value={editingTemplate?.addonPrecedence ?? 0}
+                            onChange={(e) => setEditingTemplate({ ...editingTemplate, addonPrecedence: Number(e.target.value) || 0 })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </div>
+                      )}
+                    </div>
+                    
+                    {editingTemplate?.includeBranches && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Branches a incluir
+                          </label>
+                          <input
+                            type="text"
+                            value={editingPatterns.branchPatterns}
+                            onChange={(e) => setEditingPatterns({ ...editingPatterns, branchPatterns: e.target.value })}
+                            placeholder="develop, release/*"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                          />
+                        </div>
+                        
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Tags a incluir
+                          </label>
+                          <input
+                            type="text"
+                            value={editingPatterns.tagPatterns}
+                            onChange={(e) => setEditingPatterns({ ...editingPatterns, tagPatterns: e.target.value })}
+                            placeholder="v1.*"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                          />
+                        </div>
+                        
+                        <p className="md:col-span-2 text-xs text-gray-500">
+                          Patrones glob separados por coma. Branches: vacío = todos. Tags: vacío = ninguno, * = todos
+                        </p>
+                      </>
+                    )}
+                    
+                    <div className="md:col-span-2">
+                      <PathRulesEditor
+                        value={{ ignorePaths: editingPatterns.ignorePaths, ownedPaths: editingPatterns.ownedPaths }}
+                        onChange={(rules) => setEditingPatterns({ ...editingPatterns, ...rules })}
+                        source={{ id: template.id, branch: editingTemplate?.branch }}
+                      />
+                    </div>
                   </div>
                   
                   <div className="flex gap-4 mt-6">
@@ -694,14 +894,21 @@ export default function AdminTemplatesPage() {
                     <div className="flex items-center gap-3 mb-2">
                       <span className="text-2xl">{template.icon}</span>
                       <h3 className="text-lg font-semibold">{template.name}</h3>
-                      <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
-                        {template.category}
-                      </span>
+                      {template.category && (
+                        <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                          {template.category.icon} {template.category.name}
+                        </span>
+                      )}
                       {template.isPrivate && (
                         <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-1 rounded">
                           Private
                         </span>
                       )}
+                      {template.isAddon && (
+                        <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded">
+                          Add-on · precedencia {template.addonPrecedence}
+                        </span>
+                      )}
                     </div>
                     <p className="text-gray-600 mb-2">{template.description}</p>
                     <div className="flex items-center gap-2 text-sm text-gray-500">
@@ -712,10 +919,22 @@ export default function AdminTemplatesPage() {
                       {template.includeBranches && (
                         <>
                           <span>•</span>
-                          <span>Incluye todos los branches</span>
+                          <span>
+                            {template.branchPatterns?.length > 0
+                              ? `Branches: ${template.branchPatterns.join(", ")}`
+                              : "Incluye todos los branches"}
+                            {template.tagPatterns?.length > 0 && ` · Tags: ${template.tagPatterns.join(", ")}`}
+                          </span>
                         </>
                       )}
                     </div>
+                    {(template.ignorePaths?.length > 0 || template.ownedPaths?.length > 0) && (
+                      <div className="mt-1 text-sm text-gray-500">
+                        {template.ignorePaths?.length > 0 && `Ignorados: ${template.ignorePaths.join(", ")}`}
+                        {template.ignorePaths?.length > 0 && template.ownedPaths?.length > 0 && " · "}
+                        {template.ownedPaths?.length > 0 && `Propios del template: ${template.ownedPaths.join(", ")}`}
+                      </div>
+                    )}
                     {(template.owner || template.githubOrganization) && (
                       <div className="mt-1 flex items-center gap-2 text-sm text-gray-500">
                         <span>Owner: {template.owner}</span>
@@ -754,6 +973,11 @@ export default function AdminTemplatesPage() {
                     )}
                   </div>
                   <div className="flex gap-2">
+                    <Link href={`/admin/templates/${template.id}/rollouts`}>
+                      <Button size="sm" variant="outline" title="Sincronizar proyectos">
+                        <Rocket className="h-4 w-4" />
+                      </Button>
+                    </Link>
                     <Button 
                       size="sm" 
                       variant="outline"
@@ -762,14 +986,22 @@ export default function AdminTemplatesPage() {
                         setEditingTemplate({
                           name: template.name,
                           description: template.description,
-                          category: template.category,
+                          categoryId: template.categoryId,
                           icon: template.icon,
                           githubUrl: template.githubUrl,
                           branch: template.branch,
                           features: [...template.features],
                           includeBranches: template.includeBranches,
+                          isAddon: template.isAddon,
+                          addonPrecedence: template.addonPrecedence,
                           isPrivate: template.isPrivate
                         })
+                        setEditingPatterns({
+                          branchPatterns: (template.branchPatterns || []).join(", "),
+                          tagPatterns: (template.tagPatterns || []).join(", "),
+                          ignorePaths: (template.ignorePaths || []).join("\n"),
+                          ownedPaths: (template.ownedPaths || []).join("\n")
+                        })
                       }}
                     >
                       <Edit className="h-4 w-4" />
@@ -800,4 +1032,9 @@ export default function AdminTemplatesPage() {
       </main>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// "develop, release/*" -> ["develop", "release/*"]
+function parsePatterns(value: string): string[] {
+  return value.split(",").map(p => p.trim()).filter(Boolean)
+}
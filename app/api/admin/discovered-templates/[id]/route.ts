@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+
+const updateDiscoveredSchema = z.object({
+  status: z.enum(["NEW", "DISMISSED"]) // Hide a candidate or bring it back
+})
+
+// PATCH /api/admin/discovered-templates/[id] - Dismiss or restore a candidate repository
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id } = await params
+
+  try {
+    const body = await request.json()
+    const { status } = updateDiscoveredSchema.parse(body)
+
+    const { count } = await prisma.discoveredTemplate.updateMany({
+      where: { id, status: { in: ["NEW", "DISMISSED"] } },
+      data: { status }
+    })
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Only new or dismissed repositories can be changed" },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ id, status })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating discovered template:", error)
+    return NextResponse.json(
+      { error: "Error updating discovered template" },
+      { status: 500 }
+    )
+  }
+}
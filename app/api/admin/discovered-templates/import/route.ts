@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { z } from "zod"
+import { importDiscoveredTemplates } from "@/lib/templates/template-discovery"
+
+const importSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1)
+})
+
+// POST /api/admin/discovered-templates/import - Import the selected repositories as templates
+export async function POST(request: NextRequest) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  try {
+    const body = await request.json()
+    const { ids } = importSchema.parse(body)
+
+    const result = await importDiscoveredTemplates(Array.from(new Set(ids)), adminCheck.userId)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error importing discovered templates:", error)
+    return NextResponse.json(
+      { error: "Error importing templates" },
+      { status: 500 }
+    )
+  }
+}
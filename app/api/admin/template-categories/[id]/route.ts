@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+
+const updateCategorySchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  slug: z.string().trim().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Use lowercase letters, numbers and dashes").optional(),
+  icon: z.string().trim().optional(), // Empty string removes it
+  description: z.string().trim().optional()
+})
+
+// PATCH /api/admin/template-categories/[id] - Rename or describe a category
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id } = await params
+
+  try {
+    const body = await request.json()
+    const { name, slug, icon, description } = updateCategorySchema.parse(body)
+
+    if (slug) {
+      const existing = await prisma.templateCategory.findUnique({ where: { slug } })
+      if (existing && existing.id !== id) {
+        return NextResponse.json(
+          { error: `The category ${existing.name} already uses the slug ${slug}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const category = await prisma.templateCategory.update({
+      where: { id },
+      data: {
+        name,
+        slug,
+        ...(icon !== undefined && { icon: icon || null }),
+        ...(description !== undefined && { description: description || null })
+      },
+      include: {
+        _count: { select: { templates: { where: { isActive: true } } } }
+      }
+    })
+
+    const { _count, ...response } = category
+    return NextResponse.json({ ...response, templatesCount: _count.templates })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating template category:", error)
+    return NextResponse.json(
+      { error: "Error updating template category" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/template-categories/[id]?moveTo=<id> - Delete a category, merging its templates into another
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id } = await params
+
+  try {
+    const moveTo = request.nextUrl.searchParams.get("moveTo")
+
+    if (moveTo) {
+      const target = await prisma.templateCategory.findUnique({ where: { id: moveTo } })
+      if (!target || target.id === id) {
+        return NextResponse.json(
+          { error: "Target category not found" },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Without a target the foreign key leaves the templates uncategorized
+    const [moved] = await prisma.$transaction([
+      prisma.gitHubTemplate.updateMany({
+        where: { categoryId: id },
+        data: { categoryId: moveTo || null }
+      }),
+      prisma.templateCategory.delete({ where: { id } })
+    ])
+
+    return NextResponse.json({ success: true, templatesMoved: moved.count })
+  } catch (error) {
+    console.error("Error deleting template category:", error)
+    return NextResponse.json(
+      { error: "Error deleting template category" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+
+const reorderSchema = z.object({
+  ids: z.array(z.string()).min(1) // Category ids in their new gallery order
+})
+
+// POST /api/admin/template-categories/reorder - Set the gallery order of the categories
+export async function POST(request: NextRequest) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  try {
+    const body = await request.json()
+    const { ids } = reorderSchema.parse(body)
+
+    await prisma.$transaction(ids.map((id, index) =>
+      prisma.templateCategory.update({
+        where: { id },
+        data: { sortOrder: index }
+      })
+    ))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error reordering template categories:", error)
+    return NextResponse.json(
+      { error: "Error reordering template categories" },
+      { status: 500 }
+    )
+  }
+}
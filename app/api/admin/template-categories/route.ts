@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { categorySlug } from "@/lib/templates/template-categories"
+
+const templateCategorySchema = z.object({
+  name: z.string().trim().min(1),
+  slug: z.string().trim().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Use lowercase letters, numbers and dashes").optional(),
+  icon: z.string().trim().optional(),
+  description: z.string().trim().optional()
+})
+
+// GET /api/admin/template-categories - Categories in gallery order with their template counts
+export async function GET() {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  try {
+    const categories = await prisma.templateCategory.findMany({
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+      include: {
+        _count: { select: { templates: { where: { isActive: true } } } }
+      }
+    })
+
+    return NextResponse.json(categories.map(({ _count, ...category }) => ({
+      ...category,
+      templatesCount: _count.templates
+    })))
+  } catch (error) {
+    console.error("Error fetching template categories:", error)
+    return NextResponse.json(
+      { error: "Error fetching template categories" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/template-categories - Create a category at the end of the gallery
+export async function POST(request: NextRequest) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  try {
+    const body = await request.json()
+    const { name, icon, description, ...data } = templateCategorySchema.parse(body)
+    const slug = data.slug || categorySlug(name)
+
+    const existing = await prisma.templateCategory.findUnique({ where: { slug } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `The category ${existing.name} already uses the slug ${slug}` },
+        { status: 400 }
+      )
+    }
+
+    const last = await prisma.templateCategory.aggregate({ _max: { sortOrder: true } })
+    const category = await prisma.templateCategory.create({
+      data: {
+        slug,
+        name,
+        icon: icon || null,
+        description: description || null,
+        sortOrder: (last._max.sortOrder ?? -1) + 1
+      }
+    })
+
+    return NextResponse.json({ ...category, templatesCount: 0 }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error creating template category:", error)
+    return NextResponse.json(
+      { error: "Error creating template category" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { encrypt } from "@/lib/encryption"
+
+const updateSourceSchema = z.object({
+  isActive: z.boolean().optional(),
+  githubToken: z.string().optional() // Empty string removes the token
+})
+
+// PATCH /api/admin/template-sources/[id] - Pause the periodic scan or change the token
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id } = await params
+
+  try {
+    const body = await request.json()
+    const { isActive, githubToken } = updateSourceSchema.parse(body)
+
+    const { githubToken: token, ...source } = await prisma.templateSource.update({
+      where: { id },
+      data: {
+        isActive,
+        ...(githubToken !== undefined && { githubToken: githubToken ? encrypt(githubToken) : null })
+      }
+    })
+
+    return NextResponse.json({ ...source, hasToken: !!token })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating template source:", error)
+    return NextResponse.json(
+      { error: "Error updating template source" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/template-sources/[id] - Stop scanning an organization; imported templates are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id } = await params
+
+  try {
+    await prisma.templateSource.delete({ where: { id } })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting template source:", error)
+    return NextResponse.json(
+      { error: "Error deleting template source" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { scanTemplateSource } from "@/lib/templates/template-discovery"
+
+// POST /api/admin/template-sources/[id]/scan - Re-scan an organization now
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id } = await params
+
+  try {
+    const source = await prisma.templateSource.findUnique({ where: { id }, select: { id: true } })
+    if (!source) {
+      return NextResponse.json({ error: "Template source not found" }, { status: 404 })
+    }
+
+    const summary = await scanTemplateSource(id)
+    if (summary.error) {
+      return NextResponse.json({ error: `Scan failed: ${summary.error}`, summary }, { status: 502 })
+    }
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error("Error scanning template source:", error)
+    return NextResponse.json(
+      { error: "Error scanning template source" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse, after } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { encrypt } from "@/lib/encryption"
+import { scanTemplateSource } from "@/lib/templates/template-discovery"
+
+const templateSourceSchema = z.object({
+  organization: z.string().trim().min(1),
+  topic: z.string().trim().min(1).default("idp-template"),
+  githubToken: z.string().optional()
+})
+
+// GET /api/admin/template-sources - Organizations scanned and the repositories found
+export async function GET() {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  try {
+    const sources = await prisma.templateSource.findMany({
+      orderBy: { createdAt: "asc" },
+      include: {
+        repositories: {
+          orderBy: [{ status: "asc" }, { repo: "asc" }],
+          include: { githubTemplate: { select: { id: true, name: true, isActive: true } } }
+        }
+      }
+    })
+
+    // Don't return the encrypted token
+    return NextResponse.json(sources.map(({ githubToken, ...source }) => ({
+      ...source,
+      hasToken: !!githubToken
+    })))
+  } catch (error) {
+    console.error("Error fetching template sources:", error)
+    return NextResponse.json(
+      { error: "Error fetching template sources" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/template-sources - Add an organization and run its first scan
+export async function POST(request: NextRequest) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  try {
+    const body = await request.json()
+    const { organization, topic, githubToken } = templateSourceSchema.parse(body)
+
+    const existing = await prisma.templateSource.findUnique({
+      where: { organization_topic: { organization, topic } }
+    })
+    if (existing) {
+      return NextResponse.json(
+        { error: "This organization is already scanned for that topic" },
+        { status: 400 }
+      )
+    }
+
+    const { githubToken: token, ...source } = await prisma.templateSource.create({
+      data: {
+        organization,
+        topic,
+        githubToken: githubToken ? encrypt(githubToken) : null
+      }
+    })
+
+    // Validating every repository can take a while
+    after(() => scanTemplateSource(source.id))
+
+    return NextResponse.json({ ...source, hasToken: !!token }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error creating template source:", error)
+    return NextResponse.json(
+      { error: "Error creating template source" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { getTemplateAnalytics } from "@/lib/templates/template-analytics"
+
+// GET /api/admin/templates/[id]/analytics - Adoption and freshness of a template's projects
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id } = await params
+
+  try {
+    const analytics = await getTemplateAnalytics(id)
+    if (!analytics) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(analytics)
+  } catch (error) {
+    console.error("Error fetching template analytics:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch template analytics" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { cancelRollout } from "@/lib/templates/template-rollouts"
+
+// POST /api/admin/templates/[id]/rollouts/[rolloutId]/cancel - Stop a running rollout
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; rolloutId: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id, rolloutId } = await params
+
+  try {
+    const rollout = await prisma.templateRollout.findFirst({
+      where: { id: rolloutId, githubTemplateId: id }
+    })
+    if (!rollout) {
+      return NextResponse.json({ error: "Rollout not found" }, { status: 404 })
+    }
+
+    if (rollout.status !== "RUNNING") {
+      return NextResponse.json({ error: "Rollout is not running" }, { status: 400 })
+    }
+
+    await cancelRollout(rolloutId)
+
+    return NextResponse.json({ cancelled: true })
+  } catch (error) {
+    console.error("Error cancelling template rollout:", error)
+    return NextResponse.json(
+      { error: "Failed to cancel template rollout" },
+      { status: 500 }
+    )
+  }
+}
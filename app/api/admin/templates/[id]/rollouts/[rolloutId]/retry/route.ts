@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse, after } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { retryRolloutSyncs, runTemplateRollout } from "@/lib/templates/template-rollouts"
+
+const retrySchema = z.object({
+  syncId: z.string().optional() // Retry a single project; all failed ones when missing
+})
+
+// POST /api/admin/templates/[id]/rollouts/[rolloutId]/retry - Run failed syncs again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; rolloutId: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id, rolloutId } = await params
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { syncId } = retrySchema.parse(body)
+
+    const rollout = await prisma.templateRollout.findFirst({
+      where: { id: rolloutId, githubTemplateId: id }
+    })
+    if (!rollout) {
+      return NextResponse.json({ error: "Rollout not found" }, { status: 404 })
+    }
+
+    const retried = await retryRolloutSyncs(rolloutId, syncId)
+    if (retried === 0) {
+      return NextResponse.json({ error: "No failed syncs to retry" }, { status: 400 })
+    }
+
+    after(() => runTemplateRollout(rolloutId))
+
+    return NextResponse.json({ retried })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error retrying template rollout:", error)
+    return NextResponse.json(
+      { error: "Failed to retry template rollout" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { refreshRolloutPullRequests } from "@/lib/templates/template-rollouts"
+
+// GET /api/admin/templates/[id]/rollouts/[rolloutId] - Per-project state of a rollout
+// ?refresh=true checks the open pull requests on GitHub first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; rolloutId: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id, rolloutId } = await params
+
+  try {
+    const exists = await prisma.templateRollout.findFirst({
+      where: { id: rolloutId, githubTemplateId: id },
+      select: { id: true }
+    })
+    if (!exists) {
+      return NextResponse.json({ error: "Rollout not found" }, { status: 404 })
+    }
+
+    if (request.nextUrl.searchParams.get("refresh") === "true") {
+      await refreshRolloutPullRequests(rolloutId)
+    }
+
+    const rollout = await prisma.templateRollout.findUniqueOrThrow({
+      where: { id: rolloutId },
+      include: {
+        triggeredBy: { select: { name: true, email: true } },
+        syncs: {
+          include: {
+            project: {
+              select: {
+                id: true,
+                name: true,
+                githubRepo: true,
+                user: { select: { name: true, email: true } }
+              }
+            }
+          },
+          orderBy: { createdAt: "asc" }
+        }
+      }
+    })
+
+    return NextResponse.json({
+      id: rollout.id,
+      status: rollout.status,
+      triggeredBy: rollout.triggeredBy?.name || rollout.triggeredBy?.email || null,
+      createdAt: rollout.createdAt,
+      completedAt: rollout.completedAt,
+      syncs: rollout.syncs.map(sync => ({
+        id: sync.id,
+        status: sync.status,
+        project: {
+          id: sync.project.id,
+          name: sync.project.name,
+          githubRepo: sync.project.githubRepo,
+          owner: sync.project.user.name || sync.project.user.email
+        },
+        pullRequestUrl: sync.pullRequestUrl,
+        filesCount: sync.filesCount,
+        conflictsCount: sync.conflictsCount,
+        error: sync.error,
+        updatedAt: sync.updatedAt
+      }))
+    })
+  } catch (error) {
+    console.error("Error fetching template rollout:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch template rollout" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse, after } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { failStaleRollouts, runTemplateRollout, startTemplateRollout } from "@/lib/templates/template-rollouts"
+
+// Rollouts listed in the dashboard
+const ROLLOUTS_LIMIT = 10
+
+// GET /api/admin/templates/[id]/rollouts - Recent rollouts of a template
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id } = await params
+
+  try {
+    const template = await prisma.gitHubTemplate.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        name: true,
+        icon: true,
+        githubUrl: true,
+        _count: {
+          select: { projects: { where: { status: { not: "DELETED" }, githubRepo: { not: null } } } }
+        }
+      }
+    })
+
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    await failStaleRollouts(id)
+
+    const rollouts = await prisma.templateRollout.findMany({
+      where: { githubTemplateId: id },
+      include: {
+        triggeredBy: { select: { name: true, email: true } },
+        _count: { select: { syncs: true } }
+      },
+      orderBy: { createdAt: "desc" },
+      take: ROLLOUTS_LIMIT
+    })
+
+    return NextResponse.json({
+      template: {
+        id: template.id,
+        name: template.name,
+        icon: template.icon,
+        githubUrl: template.githubUrl,
+        projectsCount: template._count.projects
+      },
+      rollouts: rollouts.map(rollout => ({
+        id: rollout.id,
+        status: rollout.status,
+        projectsCount: rollout._count.syncs,
+        triggeredBy: rollout.triggeredBy?.name || rollout.triggeredBy?.email || null,
+        createdAt: rollout.createdAt,
+        completedAt: rollout.completedAt
+      }))
+    })
+  } catch (error) {
+    console.error("Error fetching template rollouts:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch template rollouts" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/templates/[id]/rollouts - Sync every project created from the template
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  const { id } = await params
+
+  try {
+    const template = await prisma.gitHubTemplate.findUnique({ where: { id } })
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    // An interrupted rollout must not block new ones
+    await failStaleRollouts(id)
+
+    const running = await prisma.templateRollout.findFirst({
+      where: { githubTemplateId: id, status: "RUNNING" }
+    })
+    if (running) {
+      return NextResponse.json(
+        { error: "A rollout of this template is already running", rolloutId: running.id },
+        { status: 409 }
+      )
+    }
+
+    const rollout = await startTemplateRollout(id, adminCheck.userId)
+
+    // Projects are synced one by one after the response is sent
+    after(() => runTemplateRollout(rollout.id))
+
+    return NextResponse.json(rollout, { status: 201 })
+  } catch (error) {
+    console.error("Error starting template rollout:", error)
+    return NextResponse.json(
+      { error: "Failed to start template rollout" },
+      { status: 500 }
+    )
+  }
+}
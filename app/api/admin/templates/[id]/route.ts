@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { requireAdmin } from "@/lib/auth-helpers"
 import { prisma } from "@/lib/prisma"
 import { z } from "zod"
-import { encrypt } from "@/lib/encryption"
+import { encrypt, safeDecrypt } from "@/lib/encryption"
 import { Octokit } from "@octokit/rest"
+import { fetchManifestTemplateFields, resolveTemplateCategoryId } from "@/lib/templates/github-templates"
+import { templateCategorySelect } from "@/lib/templates/template-categories"
 
 // Extract owner and repo from GitHub URL
 function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
@@ -28,13 +30,19 @@ function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
 const updateTemplateSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
-  category: z.string().optional(),
+  categoryId: z.string().nullable().optional(), // Managed category, null to uncategorize
   icon: z.string().optional(),
   githubUrl: z.string().url().optional(),
   githubToken: z.string().optional(),
   branch: z.string().optional(),
   features: z.array(z.string()).optional(),
   includeBranches: z.boolean().optional(),
+  branchPatterns: z.array(z.string().min(1)).optional(),
+  tagPatterns: z.array(z.string().min(1)).optional(),
+  ignorePaths: z.array(z.string().min(1)).optional(), // .templateignore rules
+  ownedPaths: z.array(z.string().min(1)).optional(),
+  isAddon: z.boolean().optional(), // Layered on top of a base template
+  addonPrecedence: z.number().int().optional(),
   isPrivate: z.boolean().optional(),
   isActive: z.boolean().optional()
 })
@@ -91,6 +99,10 @@ export async function PUT(
         updateData.owner = parsed.owner
         updateData.repoName = parsed.repo
         updateData.isPrivate = repoData.private
+        // Versions of a different repository are read on the next request
+        if (validatedData.githubUrl !== existing.githubUrl) {
+          updateData.versionsSyncedAt = null
+        }
         
         // Check if it's an organization
         try {
@@ -113,6 +125,31 @@ export async function PUT(
       }
     }
     
+    // Refresh display fields from the manifest when the template branch (or repo) changes
+    const branchChanged = validatedData.branch !== undefined && validatedData.branch !== existing.branch
+    const urlChanged = validatedData.githubUrl !== undefined && validatedData.githubUrl !== existing.githubUrl
+    if (branchChanged || urlChanged) {
+      const parsed = parseGitHubUrl(validatedData.githubUrl || existing.githubUrl)
+      if (parsed) {
+        try {
+          const manifestFields = await fetchManifestTemplateFields(
+            { owner: parsed.owner, repo: parsed.repo, branch: validatedData.branch || existing.branch },
+            validatedData.githubToken || (existing.githubToken ? safeDecrypt(existing.githubToken) : undefined)
+          )
+          if (manifestFields) {
+            const { category, ...displayFields } = manifestFields
+            Object.assign(updateData, displayFields)
+            // A category chosen in the same request wins over the manifest's
+            if (category && validatedData.categoryId === undefined) {
+              updateData.categoryId = await resolveTemplateCategoryId(category, { create: true })
+            }
+          }
+        } catch (error) {
+          console.error("Error refreshing template from manifest:", error)
+        }
+      }
+    }
+    
     // Encrypt token if provided
     if (validatedData.githubToken !== undefined) {
       updateData.githubToken = validatedData.githubToken ? encrypt(validatedData.githubToken) : null
@@ -122,6 +159,7 @@ export async function PUT(
       where: { id: params.id },
       data: updateData,
       include: {
+        category: { select: templateCategorySelect },
         creator: {
           select: {
             id: true,
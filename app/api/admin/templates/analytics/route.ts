@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { getTemplateUsageSummaries } from "@/lib/templates/template-analytics"
+
+// GET /api/admin/templates/analytics - Usage summary of every template
+export async function GET() {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  try {
+    const templates = await getTemplateUsageSummaries()
+    return NextResponse.json({ templates })
+  } catch (error) {
+    console.error("Error fetching template analytics:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch template analytics" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth-helpers"
+import { prisma } from "@/lib/prisma"
+import { safeDecrypt } from "@/lib/encryption"
+import { Octokit } from "@octokit/rest"
+import { z } from "zod"
+import { GitHubTemplateFetcher } from "@/lib/github/template-fetcher"
+import { buildPathRules, matchPathRules } from "@/lib/templates/path-rules"
+
+// Validation schema: an existing template (id) or a repository being added
+const previewRulesSchema = z.object({
+  id: z.string().optional(),
+  githubUrl: z.string().url().optional(),
+  githubToken: z.string().optional(),
+  branch: z.string().optional(),
+  ignorePaths: z.array(z.string()).default([]),
+  ownedPaths: z.array(z.string()).default([])
+})
+
+// POST /api/admin/templates/preview-rules - Which ignore/owned rule matches each template file
+export async function POST(request: NextRequest) {
+  const adminCheck = await requireAdmin()
+  if (adminCheck.error) return adminCheck.error
+
+  try {
+    const body = await request.json()
+    const data = previewRulesSchema.parse(body)
+
+    let githubUrl = data.githubUrl
+    let githubToken = data.githubToken
+    let branch = data.branch
+
+    if (data.id) {
+      const template = await prisma.gitHubTemplate.findUnique({ where: { id: data.id } })
+      if (!template) {
+        return NextResponse.json({ error: "Template not found" }, { status: 404 })
+      }
+      githubUrl = githubUrl || template.githubUrl
+      githubToken = githubToken || (template.githubToken ? safeDecrypt(template.githubToken) : undefined)
+      branch = branch || template.branch
+    }
+
+    const match = githubUrl?.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
+    if (!match) {
+      return NextResponse.json({ error: "Invalid GitHub URL format" }, { status: 400 })
+    }
+    const owner = match[1]
+    const repo = match[2].replace('.git', '')
+
+    const octokit = new Octokit({ auth: githubToken || process.env.GITHUB_TOKEN })
+    const ref = branch || (await octokit.repos.get({ owner, repo })).data.default_branch
+
+    const manifest = await new GitHubTemplateFetcher(githubToken).getManifest({ owner, repo, branch: ref })
+    const rules = { manifest, ignorePaths: data.ignorePaths, ownedPaths: data.ownedPaths }
+    const cloneRules = buildPathRules(rules)
+    const syncRules = buildPathRules({ ...rules, includeSyncDefaults: true })
+
+    const { data: tree } = await octokit.git.getTree({ owner, repo, tree_sha: ref, recursive: 'true' })
+    const files = tree.tree
+      .filter(item => item.type === 'blob' && item.path)
+      .map(item => ({
+        path: item.path!,
+        clone: matchPathRules(item.path!, cloneRules),
+        sync: matchPathRules(item.path!, syncRules)
+      }))
+
+    return NextResponse.json({
+      branch: ref,
+      manifestRules: {
+        ignore: manifest?.ignore || [],
+        ownedPaths: manifest?.ownedPaths || []
+      },
+      files,
+      truncated: tree.truncated
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error previewing template path rules:", error)
+    const { status, message } = error as { status?: number; message?: string }
+    return NextResponse.json(
+      { error: "Failed to preview path rules", details: message },
+      { status: status === 404 ? 404 : 500 }
+    )
+  }
+}
@@ -4,6 +4,9 @@ import { prisma } from "@/lib/prisma"
 import { z } from "zod"
 import { encrypt } from "@/lib/encryption"
 import { Octokit } from "@octokit/rest"
+import { fetchManifestTemplateFields, resolveTemplateCategoryId } from "@/lib/templates/github-templates"
+import { isInvalidManifestError } from "@/lib/github/template-fetcher"
+import { templateCategorySelect } from "@/lib/templates/template-categories"
 
 // Extract owner and repo from GitHub URL
 function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
@@ -27,15 +30,22 @@ function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
 // Validation schema for GitHub template
 const githubTemplateSchema = z.object({
   templateId: z.string().min(1),
-  name: z.string().min(1),
-  description: z.string(),
-  category: z.string(),
-  icon: z.string(),
+  // Display fields are read from .template.json; these are only fallbacks
+  name: z.string().optional(),
+  description: z.string().optional(),
+  categoryId: z.string().nullable().optional(), // Managed category; overrides the manifest's
+  icon: z.string().optional(),
   githubUrl: z.string().url(),
   githubToken: z.string().optional(),
   branch: z.string().default("main"),
-  features: z.array(z.string()),
+  features: z.array(z.string()).optional(),
   includeBranches: z.boolean().default(false),
+  branchPatterns: z.array(z.string().min(1)).default([]), // e.g. release/*, develop
+  tagPatterns: z.array(z.string().min(1)).default([]),
+  ignorePaths: z.array(z.string().min(1)).default([]), // .templateignore rules
+  ownedPaths: z.array(z.string().min(1)).default([]),
+  isAddon: z.boolean().default(false), // Layered on top of a base template
+  addonPrecedence: z.number().int().default(0),
   isPrivate: z.boolean().default(false)
 })
 
@@ -49,6 +59,7 @@ export async function GET(request: NextRequest) {
       where: { isActive: true },
       orderBy: { createdAt: "desc" },
       include: {
+        category: { select: templateCategorySelect },
         creator: {
           select: {
             id: true,
@@ -124,17 +135,41 @@ export async function POST(request: NextRequest) {
         // Ignore - organization check is optional
       }
 
+      // Read name, description, category, icon and features from the manifest;
+      // the form fields are used when it cannot be read
+      let manifestFields: Awaited<ReturnType<typeof fetchManifestTemplateFields>> = null
+      try {
+        manifestFields = await fetchManifestTemplateFields(
+          { owner: parsed.owner, repo: parsed.repo, branch: validatedData.branch },
+          validatedData.githubToken
+        )
+      } catch (manifestError) {
+        if (isInvalidManifestError(manifestError)) {
+          return NextResponse.json(
+            { error: "Invalid .template.json", details: manifestError.message },
+            { status: 400 }
+          )
+        }
+        console.error("Error reading template manifest, using the form fields:", manifestError)
+      }
+      
       // Prepare data for creation
       const templateData: any = {
         templateId: validatedData.templateId,
-        name: validatedData.name,
-        description: validatedData.description,
-        category: validatedData.category,
-        icon: validatedData.icon,
+        name: manifestFields?.name || validatedData.name || repoData.name,
+        description: manifestFields?.description ?? validatedData.description ?? repoData.description ?? "",
+        categoryId: validatedData.categoryId || await resolveTemplateCategoryId(manifestFields?.category, { create: true }),
+        icon: manifestFields?.icon || validatedData.icon || "📦",
         githubUrl: validatedData.githubUrl,
         branch: validatedData.branch,
-        features: validatedData.features,
+        features: manifestFields?.features ?? validatedData.features ?? [],
         includeBranches: validatedData.includeBranches,
+        branchPatterns: validatedData.branchPatterns,
+        tagPatterns: validatedData.tagPatterns,
+        ignorePaths: validatedData.ignorePaths,
+        ownedPaths: validatedData.ownedPaths,
+        isAddon: validatedData.isAddon,
+        addonPrecedence: validatedData.addonPrecedence,
         isPrivate: repoData.private, // Use actual repo privacy status
         owner: parsed.owner,
         repoName: parsed.repo,
@@ -150,6 +185,7 @@ export async function POST(request: NextRequest) {
       const template = await prisma.gitHubTemplate.create({
         data: templateData,
         include: {
+          category: { select: templateCategorySelect },
           creator: {
             select: {
               id: true,
@@ -2,11 +2,15 @@ import { NextRequest, NextResponse } from "next/server"
 import { requireAdmin } from "@/lib/auth-helpers"
 import { Octokit } from "@octokit/rest"
 import { z } from "zod"
+import { manifestTemplateFields } from "@/lib/templates/github-templates"
+import { validateTemplateRepository } from "@/lib/templates/template-validation"
 
 // Validation schema
 const validateGitHubSchema = z.object({
   githubUrl: z.string().url(),
-  githubToken: z.string().optional()
+  githubToken: z.string().optional(),
+  branch: z.string().optional(),
+  isAddon: z.boolean().optional()
 })
 
 // Extract owner and repo from GitHub URL
@@ -40,7 +44,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json()
-    const { githubUrl, githubToken } = validateGitHubSchema.parse(body)
+    const { githubUrl, githubToken, branch, isAddon } = validateGitHubSchema.parse(body)
     
     // Parse GitHub URL
     const parsed = parseGitHubUrl(githubUrl)
@@ -108,6 +112,20 @@ export async function POST(request: NextRequest) {
         branches = [defaultBranch]
       }
       
+      // Manifest schema, deploy workflows and Terraform layout
+      const ref = branch || defaultBranch
+      let validation
+      try {
+        validation = await validateTemplateRepository({ octokit, owner, repo, ref, isAddon })
+      } catch (error) {
+        if ((error as { status?: number }).status !== 404) throw error
+        return NextResponse.json({
+          valid: false,
+          error: "Branch not found",
+          details: `The repository has no branch named ${ref}`
+        })
+      }
+      
       // Check if we have write access (for cloning)
       let hasWriteAccess = false
       if (githubToken) {
@@ -125,7 +143,12 @@ export async function POST(request: NextRequest) {
       }
       
       return NextResponse.json({
-        valid: true,
+        valid: validation.valid,
+        ...(!validation.valid && {
+          error: `Template validation failed with ${validation.errors.length} error(s)`
+        }),
+        errors: validation.errors,
+        warnings: validation.warnings,
         repository: {
           name: repoData.name,
           fullName: repoData.full_name,
@@ -152,6 +175,7 @@ export async function POST(request: NextRequest) {
           avatarUrl: repoData.owner.avatar_url
         },
         organization: organizationData,
+        manifest: validation.manifest ? manifestTemplateFields(validation.manifest) : null,
         access: {
           canRead: true,
           canWrite: hasWriteAccess,
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { listOrganizationTeams } from "@/lib/github/client"
+
+// GET /api/github/organizations/[org]/teams - Teams that can be granted access to a new repository
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ org: string }> }
+) {
+  const session = await auth()
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { org } = await params
+
+  try {
+    const account = await prisma.account.findFirst({
+      where: {
+        userId: session.user.id,
+        provider: "github"
+      }
+    })
+
+    if (!account?.access_token) {
+      return NextResponse.json({ error: "GitHub authentication required" }, { status: 401 })
+    }
+
+    const teams = await listOrganizationTeams(org, account.access_token)
+
+    return NextResponse.json(teams)
+  } catch (error) {
+    console.error("Error fetching organization teams:", error)
+    return NextResponse.json(
+      { error: "Error fetching organization teams" },
+      { status: 500 }
+    )
+  }
+}
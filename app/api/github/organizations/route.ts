@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { listUserOrganizations } from "@/lib/github/client"
+
+// GET /api/github/organizations - Organizations where the user can create repositories
+export async function GET() {
+  const session = await auth()
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const account = await prisma.account.findFirst({
+      where: {
+        userId: session.user.id,
+        provider: "github"
+      }
+    })
+
+    if (!account?.access_token) {
+      return NextResponse.json({ error: "GitHub authentication required" }, { status: 401 })
+    }
+
+    const organizations = await listUserOrganizations(account.access_token)
+
+    return NextResponse.json(organizations.filter(org => org.canCreateRepositories))
+  } catch (error) {
+    console.error("Error fetching organizations:", error)
+    return NextResponse.json(
+      { error: "Error fetching organizations. Sign in again to grant the read:org scope." },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { Octokit } from "@octokit/rest"
+import {
+  DEPLOYMENT_WORKFLOWS,
+  dispatchDeployment,
+  resolveDispatchedRun
+} from "@/lib/deployments/deployments"
 
 export async function POST(
   request: NextRequest,
@@ -17,7 +22,15 @@ export async function POST(
 
   try {
     const body = await request.json()
-    const { workflowFile = "deploy.yml", branch = "main" } = body
+    const { workflowFile, branch = "main" } = body
+
+    // Only workflows recorded as deployments can be dispatched
+    if (!Object.keys(DEPLOYMENT_WORKFLOWS).includes(workflowFile)) {
+      return NextResponse.json(
+        { error: `Invalid workflow file. Use one of: ${Object.keys(DEPLOYMENT_WORKFLOWS).join(", ")}` },
+        { status: 400 }
+      )
+    }
 
     // Find the project
     const project = await prisma.project.findFirst({
@@ -74,37 +87,28 @@ export async function POST(
 
     // Trigger the deployment workflow
     try {
-      const response = await octokit.rest.actions.createWorkflowDispatch({
-        owner,
-        repo,
-        workflow_id: workflowFile,
-        ref: branch,
-        inputs: {
-          branch: branch
-        }
-      })
-
-      // Get the latest workflow run
-      const { data: runs } = await octokit.rest.actions.listWorkflowRuns({
-        owner,
-        repo,
-        workflow_id: workflowFile,
-        per_page: 1
+      // Recorded before the dispatch so the run's webhook can find it
+      const recorded = await dispatchDeployment(octokit, owner, repo, {
+        projectId: project.id,
+        workflowFile,
+        branch,
+        triggeredById: session.user.id
       })
-
-      const latestRun = runs.workflow_runs[0]
+      const deployment = await resolveDispatchedRun(recorded.id, octokit, owner, repo) || recorded
 
       return NextResponse.json({
         message: "Deployment triggered successfully",
-        workflowRun: {
-          id: latestRun?.id,
-          status: latestRun?.status,
-          conclusion: latestRun?.conclusion,
-          html_url: latestRun?.html_url,
-          created_at: latestRun?.created_at,
+        deployment,
+        // Only the run confirmed by its correlation id; otherwise it is linked when the status is refreshed
+        workflowRun: deployment.runId ? {
+          id: deployment.runId,
+          status: deployment.status,
+          conclusion: deployment.conclusion,
+          html_url: deployment.htmlUrl,
+          created_at: deployment.createdAt,
           workflow: workflowFile,
-          branch: branch
-        }
+          branch
+        } : null
       })
 
     } catch (error: any) {
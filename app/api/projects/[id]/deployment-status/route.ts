@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { Octokit } from "@octokit/rest"
+import { getDeploymentHistory, refreshDeployments } from "@/lib/deployments/deployments"
 
 export async function GET(
   request: NextRequest,
@@ -61,42 +62,21 @@ export async function GET(
       auth: account.access_token
     })
 
-    // Get workflow runs
-    const { data: runs } = await octokit.rest.actions.listWorkflowRunsForRepo({
-      owner,
-      repo,
-      per_page: 10 // Get last 10 runs
-    })
-
-    // Filter deployment-related runs
-    const deploymentRuns = runs.workflow_runs
-      .filter(run => run.path?.includes('tfplan.yml') || run.path?.includes('tfapply.yml'))
-      .map(run => ({
-        id: run.id,
-        name: run.name,
-        status: run.status,
-        conclusion: run.conclusion,
-        html_url: run.html_url,
-        created_at: run.created_at,
-        updated_at: run.updated_at,
-        run_number: run.run_number,
-        event: run.event,
-        head_branch: run.head_branch,
-        head_sha: run.head_sha.substring(0, 7),
-        workflow_id: run.workflow_id,
-        workflow: run.path?.includes('tfplan.yml') ? 'tfplan.yml' : run.path?.includes('tfapply.yml') ? 'tfapply.yml' : run.path,
-        branch: run.head_branch
-      }))
+    // Recorded deployments are still shown when GitHub can't be reached
+    try {
+      await refreshDeployments(project.id, octokit, owner, repo)
+    } catch (error) {
+      console.error("Error refreshing deployments:", error)
+    }
 
-    // Get the latest deployment run
-    const latestDeployment = deploymentRuns[0]
+    const { deployments, total } = await getDeploymentHistory(project.id, 5)
 
     return NextResponse.json({
-      latestDeployment,
-      deploymentHistory: deploymentRuns.slice(0, 5),
-      hasDeployments: deploymentRuns.length > 0,
-      totalDeployments: deploymentRuns.length,
-      hasMoreDeployments: deploymentRuns.length > 5
+      latestDeployment: deployments[0],
+      deploymentHistory: deployments,
+      hasDeployments: total > 0,
+      totalDeployments: total,
+      hasMoreDeployments: total > 5
     })
 
   } catch (error: any) {
@@ -72,7 +72,12 @@ export async function GET(
           select: {
             name: true,
             description: true,
-            category: true
+            category: { select: { name: true, icon: true } }
+          }
+        },
+        addons: {
+          select: {
+            githubTemplate: { select: { name: true, icon: true, addonPrecedence: true } }
           }
         }
       }
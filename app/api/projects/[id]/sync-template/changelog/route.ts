@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getTemplateChangelog, parseSyncRepositories } from "@/lib/templates/template-syncs"
+
+// GET: Template commits and file diffs since the project's last sync
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  try {
+    const project = await prisma.project.findFirst({
+      where: {
+        id,
+        userId: session.user.id
+      },
+      include: {
+        githubTemplate: true
+      }
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    if (!project.githubTemplate) {
+      return NextResponse.json({ error: "Project was not created from a template" }, { status: 400 })
+    }
+
+    if (!parseSyncRepositories(project)) {
+      return NextResponse.json({ error: "Invalid repository URLs" }, { status: 400 })
+    }
+
+    const userAccount = await prisma.account.findFirst({
+      where: {
+        userId: session.user.id,
+        provider: 'github'
+      }
+    })
+
+    if (!userAccount?.access_token) {
+      return NextResponse.json({ error: "GitHub authentication required" }, { status: 401 })
+    }
+
+    const changelog = await getTemplateChangelog(project, userAccount.access_token)
+    if (!changelog) {
+      return NextResponse.json(
+        { error: "No template changes to compare: the project is up to date or has no recorded template commit" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(changelog)
+  } catch (error) {
+    console.error("Error building template changelog:", error)
+    return NextResponse.json(
+      { error: "Failed to build template changelog" },
+      { status: 500 }
+    )
+  }
+}
@@ -3,10 +3,35 @@ import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { Octokit } from "@octokit/rest"
 import { safeDecrypt } from "@/lib/encryption"
-import { GitHubRepoCloner } from "@/lib/github/repo-cloner"
+import {
+  lastAppliedTemplateSha,
+  latestTemplateCommit as fetchLatestTemplateCommit,
+  parseSyncRepositories,
+  recordBaselineSync,
+  refreshPendingSyncs,
+  runTemplateSync,
+  templateSyncRef
+} from "@/lib/templates/template-syncs"
+import { getProjectAddonLayers } from "@/lib/templates/template-addons"
+
+interface TemplateSyncEntry {
+  id: string
+  status: string
+  templateSha: string | null
+  branch: string | null
+  pullRequestNumber: number | null
+  pullRequestUrl: string | null
+  filesCount: number
+  conflictsCount: number
+  error: string | null
+  triggeredBy: string | null
+  createdAt: Date
+}
 
 interface TemplateUpdate {
   hasUpdates: boolean
+  baseUnknown: boolean // No template commit recorded for the project: a baseline sync is needed first
+  lastSyncedSha?: string | null
   latestCommit?: {
     sha: string
     message: string
@@ -14,8 +39,14 @@ interface TemplateUpdate {
     author: string
   }
   changedFiles?: string[]
+  updatedAddons?: string[] // Add-ons with commits not synced yet
+  pendingSync?: TemplateSyncEntry | null
+  history: TemplateSyncEntry[]
 }
 
+// Syncs shown in the project's Template panel
+const HISTORY_LIMIT = 10
+
 // GET: Check if there are updates available from the template
 export async function GET(
   request: NextRequest,
@@ -89,66 +120,86 @@ export async function GET(
       }
     }
 
-    // Get latest commit from template
-    const { data: templateCommits } = await templateOctokit.repos.listCommits({
-      owner: templateOwner,
-      repo: templateRepo.replace('.git', ''),
-      sha: project.githubTemplate.branch || 'main',
-      per_page: 1
-    })
+    // Latest commit of the ref syncs merge
+    const latestTemplateCommit = await fetchLatestTemplateCommit(
+      templateOctokit,
+      templateOwner,
+      templateRepo.replace('.git', ''),
+      await templateSyncRef(project, project.githubTemplate)
+    )
 
-    if (!templateCommits.length) {
+    if (!latestTemplateCommit) {
       return NextResponse.json({ 
         hasUpdates: false,
         message: "No commits found in template repository"
       })
     }
 
-    const latestTemplateCommit = templateCommits[0]
+    // Last synced template commit, from the project's sync history
+    await refreshPendingSyncs(project.id, octokit, projectOwner, projectRepo.replace('.git', ''))
+    const lastSyncedTemplateSha = await lastAppliedTemplateSha(project)
 
-    // Get the last sync commit from the project repository
-    // Look for commits with sync-template in the message
-    const { data: projectCommits } = await octokit.repos.listCommits({
-      owner: projectOwner,
-      repo: projectRepo.replace('.git', ''),
-      per_page: 100
+    const syncs = await prisma.templateSync.findMany({
+      where: { projectId: project.id },
+      include: { triggeredBy: { select: { name: true, email: true } } },
+      orderBy: { createdAt: "desc" },
+      take: HISTORY_LIMIT
     })
-
-    // Find the last sync commit or the initial commit
-    const lastSyncCommit = projectCommits.find(commit => 
-      commit.commit.message.includes('sync-template') || 
-      commit.commit.message.includes('Initial commit from template')
-    )
-    
-    // Extract template SHA from commit message if available
-    let lastSyncedTemplateSha: string | null = null
-    if (lastSyncCommit) {
-      const shaMatch = lastSyncCommit.commit.message.match(/template-sha: ([a-f0-9]{40})/i)
-      if (shaMatch) {
-        lastSyncedTemplateSha = shaMatch[1]
+    const history: TemplateSyncEntry[] = syncs.map(sync => ({
+      id: sync.id,
+      status: sync.status,
+      templateSha: sync.templateSha,
+      branch: sync.branch,
+      pullRequestNumber: sync.pullRequestNumber,
+      pullRequestUrl: sync.pullRequestUrl,
+      filesCount: sync.filesCount,
+      conflictsCount: sync.conflictsCount,
+      error: sync.error,
+      triggeredBy: sync.triggeredBy?.name || sync.triggeredBy?.email || null,
+      createdAt: sync.createdAt
+    }))
+
+    // Add-ons count as updates too, since a sync re-applies them
+    const updatedAddons: string[] = []
+    for (const addon of await getProjectAddonLayers(project.id)) {
+      try {
+        const addonOctokit = addon.token ? new Octokit({ auth: addon.token }) : templateOctokit
+        const { data: addonCommits } = await addonOctokit.repos.listCommits({
+          owner: addon.owner,
+          repo: addon.repo,
+          sha: addon.ref,
+          per_page: 1
+        })
+        if (addonCommits[0] && addonCommits[0].sha !== addon.baseSha) {
+          updatedAddons.push(addon.name)
+        }
+      } catch (error) {
+        console.error(`Error checking add-on ${addon.name} for updates:`, error)
       }
     }
 
-    // Compare dates to determine if there are updates
-    const templateCommitDate = new Date(latestTemplateCommit.commit.author?.date || '')
-    const lastSyncDate = lastSyncCommit 
-      ? new Date(lastSyncCommit.commit.author?.date || '')
-      : new Date(project.createdAt)
-
-    const hasUpdates = templateCommitDate > lastSyncDate
+    // Without a merge base the template changes cannot be told apart from project edits
+    const baseUnknown = !lastSyncedTemplateSha
+    const templateChanged = !baseUnknown && lastSyncedTemplateSha !== latestTemplateCommit.sha
+    const hasUpdates = templateChanged || updatedAddons.length > 0
 
     const response: TemplateUpdate = {
       hasUpdates,
+      baseUnknown,
+      updatedAddons,
+      lastSyncedSha: lastSyncedTemplateSha,
       latestCommit: {
         sha: latestTemplateCommit.sha,
         message: latestTemplateCommit.commit.message,
         date: latestTemplateCommit.commit.author?.date || '',
         author: latestTemplateCommit.commit.author?.name || 'Unknown'
-      }
+      },
+      pendingSync: history.find(sync => sync.status === "PENDING") || null,
+      history
     }
 
-    // If there are updates, get the list of changed files
-    if (hasUpdates && lastSyncedTemplateSha) {
+    // If the template changed, get the list of changed files
+    if (templateChanged && lastSyncedTemplateSha) {
       try {
         const { data: comparison } = await templateOctokit.repos.compareCommits({
           owner: templateOwner,
@@ -162,9 +213,6 @@ export async function GET(
         console.error("Error comparing commits:", error)
         // Continue without file list - this might happen if the base commit is no longer available
       }
-    } else if (hasUpdates) {
-      // No previous template SHA, so all files are potentially changed
-      response.changedFiles = ['All files (first sync or template SHA not found)']
     }
 
     return NextResponse.json(response)
@@ -193,7 +241,7 @@ export async function POST(
 
   try {
     const body = await request.json()
-    const { createPullRequest = true, directToMain = false } = body
+    const { createPullRequest = true, directToMain = false, baseline = false } = body
 
     // Get project with template info
     const project = await prisma.project.findFirst({
@@ -230,44 +278,38 @@ export async function POST(
       return NextResponse.json({ error: "GitHub authentication required" }, { status: 401 })
     }
 
-    // Parse repository URLs
-    const projectRepoMatch = project.githubRepo.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
-    const templateRepoMatch = project.githubTemplate.githubUrl.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
-
-    if (!projectRepoMatch || !templateRepoMatch) {
+    if (!parseSyncRepositories(project)) {
       return NextResponse.json({ error: "Invalid repository URLs" }, { status: 400 })
     }
 
-    const [, projectOwner, projectRepo] = projectRepoMatch
-    const [, templateOwner, templateRepo] = templateRepoMatch
-    const cleanProjectRepo = projectRepo.replace('.git', '')
-    const cleanTemplateRepo = templateRepo.replace('.git', '')
+    // Baseline sync: mark the latest template commit as the project's merge base
+    if (baseline) {
+      if (await lastAppliedTemplateSha(project)) {
+        return NextResponse.json({ error: "Project already has a template base commit" }, { status: 400 })
+      }
 
-    // Get template token if available
-    let templateToken: string | undefined
-    if (project.githubTemplate.githubToken) {
-      templateToken = safeDecrypt(project.githubTemplate.githubToken) || undefined
+      const sync = await recordBaselineSync(project, userAccount.access_token, session.user.id)
+      return NextResponse.json({
+        message: "Project marked as synced with the latest template commit",
+        templateSha: sync.templateSha,
+        updatedFiles: 0
+      })
     }
 
-    // Create GitHubRepoCloner instance
-    const repoCloner = new GitHubRepoCloner(userAccount.access_token, templateToken)
-
     try {
-      // Use the GitHubRepoCloner to sync the repository
-      const result = await repoCloner.syncWithTemplate({
-        sourceOwner: templateOwner,
-        sourceRepo: cleanTemplateRepo,
-        targetOwner: projectOwner,
-        targetRepo: cleanProjectRepo,
-        createPullRequest: createPullRequest && !directToMain,
-        sourceToken: templateToken,
-        directToMain: directToMain
+      // Runs the merge and records it in the project's sync history
+      const { result } = await runTemplateSync(project, {
+        accessToken: userAccount.access_token,
+        createPullRequest,
+        directToMain,
+        triggeredById: session.user.id
       })
 
       if (!result.success) {
+        // Conflicts cannot be resolved when syncing directly to the default branch
         return NextResponse.json(
-          { error: result.message || "Failed to sync with template" },
-          { status: 500 }
+          { error: result.message || "Failed to sync with template", conflicts: result.conflicts },
+          { status: result.conflicts.length > 0 ? 409 : 500 }
         )
       }
 
@@ -275,13 +317,16 @@ export async function POST(
         message: result.message,
         syncBranch: result.syncBranch,
         updatedFiles: result.filesCount,
+        skippedFiles: result.skippedFiles,
+        conflicts: result.conflicts,
+        deletedFiles: result.deletedFiles,
+        renamedFiles: result.renamedFiles,
+        reviewFiles: result.reviewFiles,
         pullRequestUrl: result.pullRequestUrl,
         directToMain
       })
 
     } catch (error: any) {
-      console.error("Error syncing with template:", error)
-      
       return NextResponse.json(
         { 
           error: error.message || "Failed to sync with template",
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getTemplateVersions, latestVersion, versionsBetween } from "@/lib/templates/template-versions"
+
+// GET /api/projects/[id]/template-version - Pinned template version, latest version and the releases in between
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  try {
+    const project = await prisma.project.findFirst({
+      where: {
+        id,
+        userId: session.user.id
+      },
+      include: {
+        githubTemplate: true,
+        templateVersion: true
+      }
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    if (!project.githubTemplate) {
+      return NextResponse.json({ current: null, latest: null, releases: [] })
+    }
+
+    const versions = await getTemplateVersions(project.githubTemplate)
+
+    const current = project.templateVersion
+    const latest = latestVersion(versions)
+    const releases = current && latest ? versionsBetween(versions, current.tag, latest.tag) : []
+
+    const toResponse = (version: NonNullable<typeof current>) => ({
+      tag: version.tag,
+      name: version.name,
+      releaseNotes: version.releaseNotes,
+      releaseUrl: version.releaseUrl,
+      publishedAt: version.publishedAt
+    })
+
+    return NextResponse.json({
+      current: current ? toResponse(current) : null,
+      latest: latest ? toResponse(latest) : null,
+      releases: releases.map(toResponse)
+    })
+  } catch (error) {
+    console.error("Error fetching template version:", error)
+    return NextResponse.json(
+      { error: "Error fetching template version" },
+      { status: 500 }
+    )
+  }
+}
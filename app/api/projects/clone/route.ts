@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { GitHubRepoCloner } from "@/lib/github/repo-cloner"
-import { safeDecrypt, encrypt } from "@/lib/encryption"
+import { encrypt } from "@/lib/encryption"
 import { GitHubSecretsManager } from "@/lib/github/secrets"
+import { GitflowBranchResult, provisionGitflow } from "@/lib/github/gitflow"
+import { awsSecretsAndVariables, prepareCloneRequest } from "@/lib/templates/clone-request"
 
 export async function POST(request: NextRequest) {
   console.log("POST /api/projects/clone - Request received")
@@ -15,7 +17,13 @@ export async function POST(request: NextRequest) {
   }
   
   try {
-    const body = await request.json()
+    const prepared = await prepareCloneRequest(await request.json())
+    if (prepared.error !== undefined) {
+      return NextResponse.json(
+        { error: prepared.error, details: prepared.details },
+        { status: prepared.status }
+      )
+    }
     const { 
       sourceUrl, 
       name, 
@@ -25,56 +33,14 @@ export async function POST(request: NextRequest) {
       githubTemplateId,
       githubUsername,
       githubToken,
-      awsConfig
-    } = body
-    
-    console.log("Clone request:", { sourceUrl, name, isPrivate, includeBranches, githubTemplateId, hasCustomCredentials: !!(githubUsername && githubToken) })
-    
-    // Validate custom credentials if provided
-    if (githubUsername && !githubToken) {
-      return NextResponse.json({ error: "GitHub token is required when providing a username" }, { status: 400 })
-    }
-    if (!githubUsername && githubToken) {
-      return NextResponse.json({ error: "GitHub username is required when providing a token" }, { status: 400 })
-    }
+      awsConfig,
+      cloneStrategy,
+      organization
+    } = prepared.clone.body
     
-    // Parsear la URL del repositorio fuente
-    const match = sourceUrl.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
-    if (!match) {
-      return NextResponse.json({ error: "URL de GitHub inválida" }, { status: 400 })
-    }
+    console.log("Clone request:", { sourceUrl, name, isPrivate, includeBranches, githubTemplateId, organization, hasCustomCredentials: !!(githubUsername && githubToken) })
     
-    const sourceOwner = match[1]
-    const sourceRepo = match[2].replace('.git', '')
-    
-    // Get source token if cloning from a template
-    let sourceToken: string | undefined
-    let actualTemplateId: string | null = null
-    
-    if (githubTemplateId) {
-      // First try to find by database id
-      let template = await prisma.gitHubTemplate.findUnique({
-        where: { id: githubTemplateId }
-      })
-      
-      // If not found, try to find by templateId field
-      if (!template) {
-        template = await prisma.gitHubTemplate.findUnique({
-          where: { templateId: githubTemplateId }
-        })
-      }
-      
-      if (template) {
-        actualTemplateId = template.id // Use the actual database ID
-        if (template.githubToken) {
-          // Use safeDecrypt to handle both encrypted and plain text tokens
-          sourceToken = safeDecrypt(template.githubToken)
-          console.log(`Token decrypted successfully for template: ${template.name}`)
-        }
-      } else {
-        console.warn(`Template not found with id/templateId: ${githubTemplateId}`)
-      }
-    }
+    const { sourceOwner, sourceRepo, sourceToken, templateVersion, addons, manifest, templateVariables, cloneOptions } = prepared.clone
     
     // Prepare AWS configuration data
     const awsData: any = {}
@@ -95,7 +61,10 @@ export async function POST(request: NextRequest) {
         description: description || `Cloned from ${sourceOwner}/${sourceRepo}`,
         userId: session.user.id,
         status: "ACTIVE",
-        githubTemplateId: actualTemplateId, // Use the actual database ID
+        githubTemplateId: prepared.clone.githubTemplateId, // Use the actual database ID
+        templateVersionId: templateVersion?.id,
+        // Kept so syncs render the template files with the same values
+        templateParameters: templateVariables,
         ...awsData
       }
     })
@@ -126,24 +95,57 @@ export async function POST(request: NextRequest) {
     // Clonar el repositorio
     const cloner = new GitHubRepoCloner(userToken, sourceToken)
     const result = await cloner.cloneAsTemplate({
-      sourceOwner,
-      sourceRepo,
+      ...cloneOptions,
       targetName: name,
       targetDescription: description,
       isPrivate,
-      includeBranches,
-      sourceToken,
-      targetUsername: githubUsername // Pass custom username if provided
+      targetUsername: githubUsername, // Pass custom username if provided
+      strategy: cloneStrategy === "contents" ? "contents" : "git" // Contents API only on explicit request
     })
     
     // Actualizar proyecto con la URL del repo
     await prisma.project.update({
       where: { id: project.id },
       data: { 
-        githubRepo: result.repository.html_url
+        githubRepo: result.repository.html_url,
+        templateSha: result.templateSha
       }
     })
     
+    // Record the add-ons so template syncs re-apply them
+    if (addons.length > 0) {
+      await prisma.projectAddon.createMany({
+        data: addons.map(addon => ({
+          projectId: project.id,
+          githubTemplateId: addon.id,
+          templateSha: result.addonShas?.[addon.id]
+        }))
+      })
+    }
+    
+    // Create gitflow branches and apply per-branch protection from the manifest
+    let branches: GitflowBranchResult[] = []
+    if (manifest?.gitflow) {
+      try {
+        branches = await provisionGitflow(
+          result.repository.owner.login,
+          result.repository.name,
+          manifest.gitflow,
+          userToken
+        )
+      } catch (gitflowError) {
+        console.error("Error provisioning gitflow branches:", gitflowError)
+        branches = [{
+          branch: manifest.gitflow.defaultBranch || "main",
+          isDefault: true,
+          pattern: false,
+          created: false,
+          protected: false,
+          error: gitflowError instanceof Error ? gitflowError.message : String(gitflowError)
+        }]
+      }
+    }
+    
     // Configure GitHub secrets and variables if AWS config is provided
     if (awsConfig && userToken) {
       try {
@@ -157,18 +159,7 @@ export async function POST(request: NextRequest) {
             repoInfo.repo
           )
           
-          await secretsManager.configureSecretsAndVariables({
-            secrets: {
-              ACCESS_TOKEN: awsConfig.accessToken,
-              USERNAME_GITHUB: awsConfig.usernameGithub
-            },
-            variables: {
-              AWS_ROLE: awsConfig.awsRole,
-              AWS_REGION: awsConfig.awsRegion,
-              AWS_BACKEND: awsConfig.awsBackend,
-              PROJECT_NAME: awsConfig.projectName
-            }
-          })
+          await secretsManager.configureSecretsAndVariables(awsSecretsAndVariables(awsConfig))
           
           console.log("GitHub secrets and variables configured successfully")
         }
@@ -184,6 +175,13 @@ export async function POST(request: NextRequest) {
       name: project.name,
       githubUrl: result.repository.html_url,
       filesCount: result.filesCount,
+      skippedFiles: result.skippedFiles,
+      copiedBranches: result.copiedBranches,
+      copiedTags: result.copiedTags,
+      skippedRefs: result.skippedRefs,
+      teamAccess: result.teamAccess,
+      layerConflicts: result.layerConflicts,
+      branches,
       message: result.message
     })
     
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { GitHubRepoCloner } from "@/lib/github/repo-cloner"
+import { planGitflow } from "@/lib/github/gitflow"
+import { awsSecretsAndVariables, prepareCloneRequest } from "@/lib/templates/clone-request"
+
+// POST /api/projects/preview - Dry run of /api/projects/clone, nothing is written
+export async function POST(request: NextRequest) {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const prepared = await prepareCloneRequest(await request.json())
+    if (prepared.error !== undefined) {
+      return NextResponse.json(
+        { error: prepared.error, details: prepared.details },
+        { status: prepared.status }
+      )
+    }
+    const { name, isPrivate, githubUsername, githubToken, awsConfig, organization } = prepared.clone.body
+    const { sourceOwner, sourceRepo, sourceToken, templateVersion, addons, manifest, cloneOptions } = prepared.clone
+
+    // Same token the clone would use to read refs when the template has none
+    let userToken: string | undefined = githubToken
+    if (!githubUsername || !githubToken) {
+      const userAccount = await prisma.account.findFirst({
+        where: {
+          userId: session.user.id,
+          provider: "github"
+        }
+      })
+      userToken = userAccount?.access_token || undefined
+    }
+
+    const cloner = new GitHubRepoCloner(userToken, sourceToken)
+    const preview = await cloner.previewClone(cloneOptions)
+
+    // Secret values are never echoed back, only whether they would be set
+    const { secrets, variables } = awsConfig
+      ? awsSecretsAndVariables(awsConfig)
+      : { secrets: {}, variables: {} }
+
+    return NextResponse.json({
+      source: {
+        owner: sourceOwner,
+        repo: sourceRepo,
+        ref: templateVersion?.tag || preview.defaultBranch,
+        templateSha: preview.templateSha
+      },
+      target: {
+        name,
+        owner: organization || githubUsername || null, // null: the authenticated user
+        isPrivate: !!isPrivate
+      },
+      addons: addons.map(addon => ({
+        id: addon.id,
+        name: addon.name,
+        templateSha: preview.addonShas[addon.id]
+      })),
+      files: preview.files,
+      skippedFiles: preview.skippedFiles,
+      layerConflicts: preview.layerConflicts,
+      copiedBranches: preview.branches,
+      copiedTags: preview.tags,
+      gitflow: manifest?.gitflow ? planGitflow(manifest.gitflow, preview.defaultBranch) : [],
+      secrets: Object.entries(secrets)
+        .filter(([, value]) => value)
+        .map(([name]) => name),
+      variables: Object.fromEntries(Object.entries(variables).filter(([, value]) => value))
+    })
+  } catch (error) {
+    console.error("Error previewing project:", error)
+    const message = error instanceof Error ? error.message : "Error previewing project"
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes("Not Found") ? 404 : 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { safeDecrypt } from "@/lib/encryption"
+import { GitHubTemplateFetcher, isInvalidManifestError } from "@/lib/github/template-fetcher"
+
+// GET /api/templates/[id]/parameters - Parameters declared in the template's .template.json
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const versionId = request.nextUrl.searchParams.get("version")
+
+  try {
+    const template = await prisma.gitHubTemplate.findFirst({
+      where: {
+        OR: [{ id }, { templateId: id }],
+        isActive: true
+      }
+    })
+
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    // Read the manifest at the pinned version when one is requested
+    const version = versionId
+      ? await prisma.templateVersion.findFirst({
+          where: { id: versionId, githubTemplateId: template.id }
+        })
+      : null
+
+    const match = template.githubUrl.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
+    if (!match) {
+      return NextResponse.json({ error: "Invalid template repository URL" }, { status: 400 })
+    }
+
+    const fetcher = new GitHubTemplateFetcher(
+      template.githubToken ? safeDecrypt(template.githubToken) : undefined
+    )
+    const manifest = await fetcher.getManifest({
+      owner: match[1],
+      repo: match[2].replace('.git', ''),
+      branch: version ? `refs/tags/${version.tag}` : template.branch
+    })
+
+    return NextResponse.json({
+      hasManifest: !!manifest,
+      replaceVariables: manifest?.replaceVariables !== false,
+      parameters: manifest?.replaceVariables === false ? [] : manifest?.parameters || []
+    })
+  } catch (error) {
+    if (isInvalidManifestError(error)) {
+      return NextResponse.json({ error: "Invalid .template.json", details: error.message }, { status: 400 })
+    }
+    console.error("Error fetching template parameters:", error)
+    return NextResponse.json(
+      { error: "Error fetching template parameters" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { safeDecrypt } from "@/lib/encryption"
+import { fetchManifestTemplateFields, resolveTemplateCategoryId } from "@/lib/templates/github-templates"
 
 // DELETE /api/templates/[id] - Delete a user's template
 export async function DELETE(
@@ -88,16 +90,34 @@ export async function PUT(
       )
     }
 
+    // Refresh display fields from the manifest when the template branch changes
+    let manifestFields: Awaited<ReturnType<typeof fetchManifestTemplateFields>> = null
+    if (body.branch && body.branch !== template.branch && template.owner && template.repoName) {
+      try {
+        const token = body.githubToken || (template.githubToken ? safeDecrypt(template.githubToken) : undefined)
+        manifestFields = await fetchManifestTemplateFields(
+          { owner: template.owner, repo: template.repoName, branch: body.branch },
+          token || undefined
+        )
+      } catch (error) {
+        console.error("Error refreshing template from manifest:", error)
+      }
+    }
+
+    const { category: manifestCategory, ...displayFields } = manifestFields || {}
+    const categoryName: string | undefined = manifestCategory || body.category
+
     // Update the template
     const updated = await prisma.gitHubTemplate.update({
       where: { id: params.id },
       data: {
         name: body.name,
         description: body.description,
-        category: body.category,
         icon: body.icon,
+        ...displayFields,
+        ...(categoryName !== undefined && { categoryId: await resolveTemplateCategoryId(categoryName) }),
         branch: body.branch,
-        features: body.features,
+        features: manifestFields?.features ?? body.features,
         includeBranches: body.includeBranches,
         isPrivate: body.isPrivate,
         githubToken: body.githubToken !== undefined ? body.githubToken : template.githubToken
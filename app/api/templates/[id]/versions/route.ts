@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getTemplateVersions, latestVersion } from "@/lib/templates/template-versions"
+
+// GET /api/templates/[id]/versions - Versions from the template's tags and releases
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  try {
+    const template = await prisma.gitHubTemplate.findFirst({
+      where: {
+        OR: [{ id }, { templateId: id }],
+        isActive: true
+      }
+    })
+
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    const versions = await getTemplateVersions(template)
+
+    return NextResponse.json({
+      branch: template.branch,
+      latest: latestVersion(versions)?.id || null,
+      versions: versions.map(version => ({
+        id: version.id,
+        tag: version.tag,
+        name: version.name,
+        isPrerelease: version.isPrerelease,
+        publishedAt: version.publishedAt
+      }))
+    })
+  } catch (error) {
+    console.error("Error fetching template versions:", error)
+    return NextResponse.json(
+      { error: "Error fetching template versions" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { templateCategorySelect } from "@/lib/templates/template-categories"
 
 // GET /api/templates/github-list - List user's templates and optionally admin templates
 export async function GET(request: NextRequest) {
@@ -14,10 +15,12 @@ export async function GET(request: NextRequest) {
     // Get URL search params
     const searchParams = request.nextUrl.searchParams
     const includeAdmin = searchParams.get("includeAdmin") === "true"
+    const addons = searchParams.get("addons") === "true" // Add-ons instead of base templates
 
     // Build where clause based on user preferences
     let whereClause: any = {
       isActive: true,
+      isAddon: addons,
       OR: [
         { createdBy: session.user.id }, // User's own templates
       ]
@@ -48,13 +51,15 @@ export async function GET(request: NextRequest) {
         templateId: true,
         name: true,
         description: true,
-        category: true,
+        category: { select: templateCategorySelect },
         icon: true,
         githubUrl: true,
         branch: true,
         features: true,
         includeBranches: true,
         isPrivate: true,
+        isAddon: true,
+        addonPrecedence: true,
         createdBy: true
       }
     })
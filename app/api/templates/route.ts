@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { fetchManifestTemplateFields, resolveTemplateCategoryId } from "@/lib/templates/github-templates"
+import { templateCategorySelect } from "@/lib/templates/template-categories"
 
 // GET /api/templates - List user's templates
 export async function GET(request: NextRequest) {
@@ -16,6 +18,7 @@ export async function GET(request: NextRequest) {
         createdBy: session.user.id,
         isActive: true 
       },
+      include: { category: { select: templateCategorySelect } },
       orderBy: { createdAt: "desc" }
     })
 
@@ -41,7 +44,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     
     // Validate required fields
-    const requiredFields = ["templateId", "name", "githubUrl"]
+    const requiredFields = ["templateId", "githubUrl"]
     for (const field of requiredFields) {
       if (!body[field]) {
         return NextResponse.json(
@@ -78,21 +81,41 @@ export async function POST(request: NextRequest) {
     const [, owner, repoName] = githubUrlMatch
     const isOrganization = body.githubUrl.includes("/orgs/") || false // Simple check, can be improved
 
+    // Read name, description, category, icon and features from the manifest
+    let manifestFields: Awaited<ReturnType<typeof fetchManifestTemplateFields>> = null
+    try {
+      manifestFields = await fetchManifestTemplateFields(
+        { owner, repo: repoName.replace(/\.git$/, ""), branch: body.branch || "main" },
+        body.githubToken || undefined
+      )
+    } catch (error) {
+      console.error("Error reading template manifest:", error)
+    }
+
+    const name = manifestFields?.name || body.name
+    if (!name) {
+      return NextResponse.json(
+        { error: "The repository has no .template.json with a name. Add one or provide a name." },
+        { status: 400 }
+      )
+    }
+
     // Create the template
     const template = await prisma.gitHubTemplate.create({
       data: {
         templateId: body.templateId,
-        name: body.name,
-        description: body.description || "",
-        category: body.category || "other",
-        icon: body.icon || "📦",
+        name,
+        description: manifestFields?.description ?? body.description ?? "",
+        // Only admins create categories; unknown names leave the template uncategorized
+        categoryId: await resolveTemplateCategoryId(manifestFields?.category || body.category),
+        icon: manifestFields?.icon || body.icon || "📦",
         githubUrl: body.githubUrl,
         githubToken: body.githubToken || null,
         githubOrganization: isOrganization ? owner : null,
         owner: owner,
         repoName: repoName.replace(/\.git$/, ""), // Remove .git suffix if present
         branch: body.branch || "main",
-        features: body.features || [],
+        features: manifestFields?.features ?? body.features ?? [],
         includeBranches: body.includeBranches ?? true,
         isPrivate: body.isPrivate ?? false,
         isActive: true,
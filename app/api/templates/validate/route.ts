@@ -1,24 +1,27 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { createGitHubClient } from "@/lib/github/client"
+import { manifestTemplateFields } from "@/lib/templates/github-templates"
+import { validateTemplateRepository } from "@/lib/templates/template-validation"
 
-// Simple GitHub API validation without actual API call
-// In production, you might want to use GitHub API to validate the repository
+// POST /api/templates/validate - Check a repository before importing it as a template
 export async function POST(request: NextRequest) {
   const session = await auth()
-  
+
   if (!session?.user?.id) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
   }
 
   try {
     const body = await request.json()
-    const { githubUrl, githubToken } = body
+    const { githubUrl, githubToken, branch } = body
 
     if (!githubUrl) {
       return NextResponse.json(
-        { 
-          valid: false, 
-          error: "GitHub URL is required" 
+        {
+          valid: false,
+          error: "GitHub URL is required"
         },
         { status: 400 }
       )
@@ -38,42 +41,86 @@ export async function POST(request: NextRequest) {
     const [, owner, repo] = match
     const cleanRepo = repo.replace(/\.git$/, "")
 
-    // In a real implementation, you would make an API call to GitHub here
-    // to verify the repository exists and the user has access
-    // For now, we'll do basic validation and return mock data
+    // Use the provided token, or the user's GitHub account for private repositories
+    let token: string | undefined = githubToken || undefined
+    if (!token) {
+      const account = await prisma.account.findFirst({
+        where: {
+          userId: session.user.id,
+          provider: "github"
+        }
+      })
+      token = account?.access_token || undefined
+    }
+    const octokit = createGitHubClient(token)
+
+    let repoData
+    try {
+      ({ data: repoData } = await octokit.repos.get({ owner, repo: cleanRepo }))
+    } catch (error) {
+      const status = (error as { status?: number }).status
+      if (status === 404) {
+        return NextResponse.json({
+          valid: false,
+          error: githubToken
+            ? "Repository not found or the token doesn't have access to it"
+            : "Repository not found or private (try adding a GitHub token)"
+        })
+      }
+      if (status === 401) {
+        return NextResponse.json({
+          valid: false,
+          error: "The provided GitHub token is invalid or expired"
+        })
+      }
+      throw error
+    }
+
+    const ref = branch || repoData.default_branch
+    let validation
+    try {
+      validation = await validateTemplateRepository({ octokit, owner, repo: cleanRepo, ref })
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) throw error
+      return NextResponse.json({
+        valid: false,
+        error: `Branch ${ref} not found`
+      })
+    }
 
-    // Simulate API validation
-    const isPrivate = githubToken ? true : false // Assume private if token provided
-    
-    const response = {
-      valid: true,
+    return NextResponse.json({
+      valid: validation.valid,
+      ...(!validation.valid && {
+        error: `Template validation failed with ${validation.errors.length} error(s)`
+      }),
+      errors: validation.errors,
+      warnings: validation.warnings,
+      manifest: validation.manifest ? manifestTemplateFields(validation.manifest) : null,
       parsedUrl: {
         owner,
         repo: cleanRepo,
         fullUrl: `https://github.com/${owner}/${cleanRepo}`
       },
       repository: {
-        name: cleanRepo,
-        fullName: `${owner}/${cleanRepo}`,
-        description: "Repository description would come from GitHub API",
-        private: isPrivate,
-        defaultBranch: "main"
+        name: repoData.name,
+        fullName: repoData.full_name,
+        description: repoData.description,
+        private: repoData.private,
+        defaultBranch: repoData.default_branch
       },
       owner: {
-        login: owner,
-        type: owner.toLowerCase().includes("org") ? "Organization" : "User"
+        login: repoData.owner.login,
+        type: repoData.owner.type === "Organization" ? "Organization" : "User"
       }
-    }
-
-    return NextResponse.json(response)
+    })
   } catch (error) {
     console.error("Error validating repository:", error)
     return NextResponse.json(
-      { 
+      {
         valid: false,
-        error: "Failed to validate repository" 
+        error: "Failed to validate repository"
       },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
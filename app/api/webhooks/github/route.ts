@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { WebhookPayload, processWebhookDelivery, verifyWebhookSignature } from "@/lib/github/webhooks"
+
+// Receives the workflow_run, workflow_job, push, pull_request and repository
+// events of the project repositories
+export async function POST(request: NextRequest) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: "GitHub webhooks are not configured" }, { status: 503 })
+  }
+
+  // The signature covers the raw body
+  const body = await request.text()
+  if (!verifyWebhookSignature(body, request.headers.get("x-hub-signature-256"), secret)) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
+  }
+
+  const deliveryId = request.headers.get("x-github-delivery")
+  const event = request.headers.get("x-github-event")
+  if (!deliveryId || !event) {
+    return NextResponse.json({ error: "Missing GitHub delivery headers" }, { status: 400 })
+  }
+
+  if (event === "ping") {
+    return NextResponse.json({ message: "pong" })
+  }
+
+  let payload: WebhookPayload
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    return NextResponse.json({ error: "Invalid payload, the webhook content type must be application/json" }, { status: 400 })
+  }
+
+  try {
+    const status = await processWebhookDelivery({ deliveryId, event, payload })
+    return NextResponse.json({ status })
+  } catch (error) {
+    console.error(`Error processing GitHub delivery ${deliveryId}:`, error)
+    // GitHub shows the delivery as failed; redelivering it retries
+    return NextResponse.json({ error: "Failed to process delivery" }, { status: 500 })
+  }
+}
@@ -63,6 +63,9 @@ export default async function DashboardPage() {
         createdBy: session!.user?.id,
         isActive: true
       },
+      include: {
+        category: { select: { name: true } }
+      },
       orderBy: {
         createdAt: 'desc'
       },
@@ -213,7 +216,7 @@ export default async function DashboardPage() {
                         <span className="text-2xl">{template.icon}</span>
                         <div className="flex-1 min-w-0">
                           <h4 className="font-medium text-gray-900 truncate">{template.name}</h4>
-                          <p className="text-sm text-gray-600">{template.category}</p>
+                          <p className="text-sm text-gray-600">{template.category?.name || 'Uncategorized'}</p>
                           <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
                             <Github className="h-3 w-3" />
                             <span className="truncate">
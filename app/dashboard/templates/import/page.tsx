@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { ArrowLeft, Github, Lock, CheckCircle, XCircle, Loader2, AlertCircle } from "lucide-react"
 import Link from "next/link"
+import { TemplateValidationIssues } from "@/components/template-validation-issues"
 
 export default function ImportTemplatePage() {
   const router = useRouter()
@@ -17,11 +18,7 @@ export default function ImportTemplatePage() {
     githubToken: "",
     templateId: "",
     name: "",
-    description: "",
-    category: "backend",
-    icon: "📦",
     branch: "main",
-    features: [""],
     includeBranches: true,
     isPrivate: false
   })
@@ -69,7 +66,8 @@ export default function ImportTemplatePage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           githubUrl: formData.githubUrl,
-          githubToken: formData.githubToken
+          githubToken: formData.githubToken,
+          branch: formData.branch
         })
       })
       
@@ -89,7 +87,6 @@ export default function ImportTemplatePage() {
             ...prev,
             templateId: data.parsedUrl.repo,
             name: prev.name || data.repository.name,
-            description: prev.description || data.repository.description || "",
             isPrivate: data.repository.private
           }))
         }
@@ -98,7 +95,7 @@ export default function ImportTemplatePage() {
           loading: false,
           valid: false,
           error: data.error || "Invalid repository",
-          details: data.details
+          details: data.errors ? data : null
         })
       }
     } catch (error: any) {
@@ -115,7 +112,7 @@ export default function ImportTemplatePage() {
     e.preventDefault()
     
     // Validate required fields
-    if (!formData.githubUrl || !formData.templateId || !formData.name) {
+    if (!formData.githubUrl || !formData.templateId) {
       setError("Please fill in all required fields")
       return
     }
@@ -133,15 +130,10 @@ export default function ImportTemplatePage() {
       setSaving(true)
       setError(null)
 
-      const templateData = {
-        ...formData,
-        features: formData.features.filter(f => f.trim() !== "")
-      }
-
       const response = await fetch("/api/templates", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(templateData)
+        body: JSON.stringify(formData)
       })
 
       if (!response.ok) {
@@ -157,24 +149,6 @@ export default function ImportTemplatePage() {
     }
   }
 
-  const addFeature = () => {
-    setFormData({
-      ...formData,
-      features: [...formData.features, ""]
-    })
-  }
-
-  const updateFeature = (index: number, value: string) => {
-    const features = [...formData.features]
-    features[index] = value
-    setFormData({ ...formData, features })
-  }
-
-  const removeFeature = (index: number) => {
-    const features = formData.features.filter((_, i) => i !== index)
-    setFormData({ ...formData, features })
-  }
-
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white shadow-sm">
@@ -241,6 +215,12 @@ export default function ImportTemplatePage() {
                 {validationState.error && (
                   <p className="mt-1 text-sm text-red-600">{validationState.error}</p>
                 )}
+                {validationState.details && (
+                  <TemplateValidationIssues
+                    errors={validationState.details.errors}
+                    warnings={validationState.details.warnings}
+                  />
+                )}
                 {validationState.valid === true && validationState.details && (
                   <div className="mt-2 p-3 bg-green-50 border border-green-200 rounded text-sm">
                     <p className="font-medium text-green-800">
@@ -256,6 +236,34 @@ export default function ImportTemplatePage() {
                       <span>Default branch: {validationState.details.repository.defaultBranch}</span>
                       <span>{validationState.details.owner.type === "Organization" ? "Organization" : "User"} owned</span>
                     </div>
+                    {validationState.details.manifest ? (
+                      <div className="mt-3 pt-3 border-t border-green-200">
+                        <p className="text-green-800">
+                          <span className="mr-1">{validationState.details.manifest.icon || "📦"}</span>
+                          <span className="font-medium">{validationState.details.manifest.name}</span>
+                          {validationState.details.manifest.category && (
+                            <span className="ml-2 text-xs bg-green-100 px-2 py-0.5 rounded">
+                              {validationState.details.manifest.category}
+                            </span>
+                          )}
+                        </p>
+                        {validationState.details.manifest.description && (
+                          <p className="text-green-700 mt-1">{validationState.details.manifest.description}</p>
+                        )}
+                        {validationState.details.manifest.features?.length > 0 && (
+                          <ul className="text-xs text-green-700 list-disc list-inside mt-1">
+                            {validationState.details.manifest.features.map((feature: string, i: number) => (
+                              <li key={i}>{feature}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="mt-3 text-xs text-yellow-700 flex items-center gap-1">
+                        <AlertCircle className="h-3 w-3" />
+                        No .template.json found on this branch. Enter a template name below.
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
@@ -330,64 +338,21 @@ export default function ImportTemplatePage() {
                 </p>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Template Name *
-                </label>
-                <input
-                  type="text"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  placeholder="My Template"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  required
-                />
-              </div>
-
-              <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Description
-                </label>
-                <textarea
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  rows={3}
-                  placeholder="Describe what this template provides..."
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Category
-                </label>
-                <select
-                  value={formData.category}
-                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  <option value="infrastructure">Infrastructure</option>
-                  <option value="backend">Backend</option>
-                  <option value="frontend">Frontend</option>
-                  <option value="serverless">Serverless</option>
-                  <option value="fullstack">Full Stack</option>
-                  <option value="mobile">Mobile</option>
-                  <option value="other">Other</option>
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Icon (Emoji)
-                </label>
-                <input
-                  type="text"
-                  value={formData.icon}
-                  onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
-                  placeholder="📦"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
+              {validationState.valid === true && !validationState.details?.manifest && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Template Name *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="My Template"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+              )}
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -396,7 +361,10 @@ export default function ImportTemplatePage() {
                 <input
                   type="text"
                   value={formData.branch}
-                  onChange={(e) => setFormData({ ...formData, branch: e.target.value })}
+                  onChange={(e) => {
+                    setFormData({ ...formData, branch: e.target.value })
+                    setValidationState({ loading: false, valid: null, error: null, details: null })
+                  }}
                   placeholder="main"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
@@ -430,40 +398,10 @@ export default function ImportTemplatePage() {
                 </div>
               </div>
 
-              <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Features
-                </label>
-                <div className="space-y-2">
-                  {formData.features.map((feature, index) => (
-                    <div key={index} className="flex gap-2">
-                      <input
-                        type="text"
-                        value={feature}
-                        onChange={(e) => updateFeature(index, e.target.value)}
-                        placeholder="Feature description"
-                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      />
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={() => removeFeature(index)}
-                      >
-                        Remove
-                      </Button>
-                    </div>
-                  ))}
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    onClick={addFeature}
-                  >
-                    Add Feature
-                  </Button>
-                </div>
-              </div>
+              <p className="md:col-span-2 text-xs text-gray-500">
+                Name, description, category, icon and features are read from the repository&apos;s
+                {" "}<code>.template.json</code> on the selected branch.
+              </p>
             </div>
           </div>
 
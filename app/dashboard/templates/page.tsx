@@ -12,13 +12,14 @@ import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { TemplateCard } from "@/components/ui/template-card"
 import { useToast } from "@/contexts/toast-context"
+import { TemplateCategoryInfo, groupTemplatesByCategory } from "@/lib/templates/template-categories"
 
 interface GitHubTemplate {
   id: string
   templateId: string
   name: string
   description: string
-  category: string
+  category: TemplateCategoryInfo | null
   icon: string
   githubUrl: string
   branch: string
@@ -80,7 +81,7 @@ export default function TemplatesPage() {
   const filteredTemplates = templates.filter(template => 
     template.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     template.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    template.category.toLowerCase().includes(searchQuery.toLowerCase())
+    template.category?.name.toLowerCase().includes(searchQuery.toLowerCase())
   )
 
   if (loading) {
@@ -153,13 +154,27 @@ export default function TemplatesPage() {
           )}
         </div>
       ) : (
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {filteredTemplates.map((template) => (
-            <TemplateCard 
-              key={template.id} 
-              template={template} 
-              onDelete={handleDeleteTemplate}
-            />
+        <div className="space-y-8">
+          {groupTemplatesByCategory(filteredTemplates).map((group) => (
+            <section key={group.category?.id ?? "uncategorized"}>
+              <div className="mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {group.category ? `${group.category.icon ?? ""} ${group.category.name}`.trim() : "Uncategorized"}
+                </h2>
+                {group.category?.description && (
+                  <p className="text-sm text-gray-600">{group.category.description}</p>
+                )}
+              </div>
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {group.templates.map((template) => (
+                  <TemplateCard 
+                    key={template.id} 
+                    template={template} 
+                    onDelete={handleDeleteTemplate}
+                  />
+                ))}
+              </div>
+            </section>
           ))}
         </div>
       )}
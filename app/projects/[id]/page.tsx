@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button"
 import { ArrowLeft, ExternalLink, GitBranch, CheckCircle, Cloud, Settings, Loader2, Eye, EyeOff, RefreshCw, PlayCircle, Rocket, GitMerge, FileText } from "lucide-react"
 import Link from "next/link"
 import { TerraformPlanModal } from "@/components/terraform-plan-modal"
+import { TemplateChangelog } from "@/components/template-changelog"
 import { useToast } from "@/contexts/toast-context"
 
 interface Project {
@@ -24,38 +25,91 @@ interface Project {
   githubTemplate: {
     name: string
     description: string
-    category: string
+    category: { name: string; icon: string | null } | null
   } | null
+  addons: {
+    githubTemplate: {
+      name: string
+      icon: string
+      addonPrecedence: number
+    }
+  }[]
+}
+
+interface TemplateVersionInfo {
+  tag: string
+  name: string | null
+  releaseNotes: string | null
+  releaseUrl: string | null
+  publishedAt: string | null
+}
+
+interface TemplateSyncEntry {
+  id: string
+  status: "QUEUED" | "RUNNING" | "PENDING" | "BRANCH_PUSHED" | "APPLIED" | "CLOSED" | "UP_TO_DATE" | "FAILED"
+  templateSha: string | null
+  branch: string | null
+  pullRequestNumber: number | null
+  pullRequestUrl: string | null
+  filesCount: number
+  conflictsCount: number
+  error: string | null
+  triggeredBy: string | null
+  createdAt: string
+}
+
+const SYNC_STATUS_STYLES: Record<TemplateSyncEntry["status"], string> = {
+  QUEUED: "bg-gray-100 text-gray-700",
+  RUNNING: "bg-blue-100 text-blue-700",
+  PENDING: "bg-yellow-100 text-yellow-700",
+  BRANCH_PUSHED: "bg-yellow-100 text-yellow-700",
+  APPLIED: "bg-green-100 text-green-700",
+  CLOSED: "bg-gray-100 text-gray-700",
+  UP_TO_DATE: "bg-blue-100 text-blue-700",
+  FAILED: "bg-red-100 text-red-700"
+}
+
+interface DeploymentEntry {
+  id: string
+  runId: number | null // null until GitHub lists the dispatched run
+  kind: "PLAN" | "APPLY"
+  workflow: string
+  branch: string
+  commitSha: string | null
+  htmlUrl: string | null
+  status: "QUEUED" | "IN_PROGRESS" | "COMPLETED"
+  conclusion: string | null
+  triggeredBy: string | null
+  planSummary: { toAdd: number; toChange: number; toDestroy: number } | null
+  createdAt: string
 }
 
 interface DeploymentStatus {
-  latestDeployment?: {
-    id: number
-    name: string
-    status: string
-    conclusion: string | null
-    html_url: string
-    created_at: string
-    updated_at: string
-    workflow?: string
-    branch?: string
-  }
-  deploymentHistory?: Array<{
-    id: number
-    name: string
-    status: string
-    conclusion: string | null
-    html_url: string
-    created_at: string
-    updated_at: string
-    workflow?: string
-    branch?: string
-  }>
+  latestDeployment?: DeploymentEntry
+  deploymentHistory?: DeploymentEntry[]
   hasDeployments: boolean
   totalDeployments?: number
   hasMoreDeployments?: boolean
 }
 
+const deploymentBadgeClass = (deployment: DeploymentEntry) =>
+  deployment.status === "COMPLETED"
+    ? deployment.conclusion === "success"
+      ? "bg-green-100 text-green-700"
+      : "bg-red-100 text-red-700"
+    : "bg-yellow-100 text-yellow-700"
+
+const deploymentStatusLabel = (deployment: DeploymentEntry) =>
+  deployment.status === "COMPLETED"
+    ? deployment.conclusion
+    : deployment.status === "IN_PROGRESS" ? "in progress" : "queued"
+
+const canViewPlan = (deployment: DeploymentEntry) =>
+  deployment.kind === "PLAN" &&
+  deployment.status === "COMPLETED" &&
+  deployment.conclusion === "success" &&
+  deployment.runId !== null
+
 export default function ProjectPage({ params }: { params: Promise<{ id: string }> }) {
   const router = useRouter()
   const { showSuccess, showError, showInfo } = useToast()
@@ -86,6 +140,8 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
   const [syncing, setSyncing] = useState(false)
   const [templateUpdates, setTemplateUpdates] = useState<{
     hasUpdates: boolean
+    baseUnknown?: boolean
+    lastSyncedSha?: string | null
     latestCommit?: {
       sha: string
       message: string
@@ -93,9 +149,18 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
       author: string
     }
     changedFiles?: string[]
+    updatedAddons?: string[]
+    pendingSync?: TemplateSyncEntry | null
+    history?: TemplateSyncEntry[]
   } | null>(null)
+  const [showChangelog, setShowChangelog] = useState(false)
   const [showSyncConfirm, setShowSyncConfirm] = useState(false)
   const [syncMethod, setSyncMethod] = useState<"pr" | "direct">("pr")
+  const [templateVersion, setTemplateVersion] = useState<{
+    current: TemplateVersionInfo | null
+    latest: TemplateVersionInfo | null
+    releases: TemplateVersionInfo[]
+  } | null>(null)
 
   useEffect(() => {
     loadProject()
@@ -107,6 +172,7 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
     }
     if (project?.githubTemplate) {
       checkTemplateUpdates()
+      loadTemplateVersion()
     }
   }, [project])
 
@@ -214,6 +280,8 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
       if (response.ok) {
         const data = await response.json()
         setTemplateUpdates(data)
+        // The changelog is loaded again for the new comparison
+        setShowChangelog(false)
       }
     } catch (error) {
       console.error("Error checking template updates:", error)
@@ -222,6 +290,49 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
     }
   }
 
+  const loadTemplateVersion = async () => {
+    if (!project) return
+    
+    try {
+      const response = await fetch(`/api/projects/${project.id}/template-version`)
+      if (response.ok) {
+        setTemplateVersion(await response.json())
+      }
+    } catch (error) {
+      console.error("Error loading template version:", error)
+    }
+  }
+
+  const handleBaselineSync = async () => {
+    if (!project) return
+    
+    setSyncing(true)
+    try {
+      const response = await fetch(`/api/projects/${project.id}/sync-template`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ baseline: true })
+      })
+      
+      const data = await response.json()
+      
+      if (!response.ok) {
+        showError(data.error || "Failed to mark the project as synced")
+        return
+      }
+      
+      showSuccess(data.message || "Project marked as synced with the latest template commit")
+      await checkTemplateUpdates()
+    } catch (error) {
+      console.error("Error recording baseline sync:", error)
+      showError("Failed to mark the project as synced")
+    } finally {
+      setSyncing(false)
+    }
+  }
+
   const handleSyncTemplate = async () => {
     if (!project) return
     
@@ -247,13 +358,23 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
         return
       }
       
-      if (data.pullRequestUrl) {
+      if (data.pullRequestUrl && data.conflicts?.length > 0) {
+        window.open(data.pullRequestUrl, '_blank')
+        showInfo(`Template sync completed with ${data.conflicts.length} conflicting files. Resolve the conflict markers in the pull request before merging.`)
+      } else if (data.pullRequestUrl) {
         // Open the pull request in a new tab
         window.open(data.pullRequestUrl, '_blank')
         showSuccess(`Template sync completed! ${data.updatedFiles} files were updated. A pull request has been created for your review.`)
+      } else if (data.updatedFiles === 0) {
+        showInfo(data.message || "Project is already up to date with the template")
       } else {
         showSuccess(`Template sync completed! ${data.updatedFiles} files were updated${syncMethod === "direct" ? " directly to the main branch" : ""}.`)
       }
+
+      // Deleted or renamed in the template but modified in the project
+      if (data.reviewFiles?.length > 0) {
+        showInfo(`${data.reviewFiles.length} files removed or renamed in the template were kept because you modified them: ${data.reviewFiles.map((file: { path: string }) => file.path).join(", ")}`)
+      }
       
       // Refresh template updates status
       await checkTemplateUpdates()
@@ -407,56 +528,56 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
                     <div className="p-4 bg-gray-50 rounded-lg">
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-sm font-medium">Latest Deployment</span>
-                        <span className={`text-sm px-2 py-1 rounded ${
-                          deploymentStatus.latestDeployment.status === 'completed' 
-                            ? deploymentStatus.latestDeployment.conclusion === 'success' 
-                              ? 'bg-green-100 text-green-700' 
-                              : 'bg-red-100 text-red-700'
-                            : 'bg-yellow-100 text-yellow-700'
-                        }`}>
-                          {deploymentStatus.latestDeployment.status === 'completed' 
-                            ? deploymentStatus.latestDeployment.conclusion 
-                            : deploymentStatus.latestDeployment.status}
+                        <span className={`text-sm px-2 py-1 rounded ${deploymentBadgeClass(deploymentStatus.latestDeployment)}`}>
+                          {deploymentStatusLabel(deploymentStatus.latestDeployment)}
                         </span>
                       </div>
                       <p className="text-sm text-gray-600 mb-2">
-                        {deploymentStatus.latestDeployment.name}
+                        {deploymentStatus.latestDeployment.kind === 'PLAN' ? 'Terraform Plan' : 'Terraform Apply'}
+                        {deploymentStatus.latestDeployment.planSummary && (
+                          <span className="ml-2 text-xs">
+                            <span className="text-green-600">+{deploymentStatus.latestDeployment.planSummary.toAdd}</span>{" "}
+                            <span className="text-yellow-600">~{deploymentStatus.latestDeployment.planSummary.toChange}</span>{" "}
+                            <span className="text-red-600">-{deploymentStatus.latestDeployment.planSummary.toDestroy}</span>
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-600 mb-1">
+                        Workflow: {deploymentStatus.latestDeployment.workflow}
+                      </p>
+                      <p className="text-xs text-gray-600 mb-1">
+                        Branch: {deploymentStatus.latestDeployment.branch}
+                        {deploymentStatus.latestDeployment.commitSha && (
+                          <span className="font-mono"> @ {deploymentStatus.latestDeployment.commitSha.substring(0, 7)}</span>
+                        )}
                       </p>
-                      {deploymentStatus.latestDeployment.workflow && (
-                        <p className="text-xs text-gray-600 mb-1">
-                          Workflow: {deploymentStatus.latestDeployment.workflow}
-                        </p>
-                      )}
-                      {deploymentStatus.latestDeployment.branch && (
-                        <p className="text-xs text-gray-600 mb-1">
-                          Branch: {deploymentStatus.latestDeployment.branch}
-                        </p>
-                      )}
                       <p className="text-xs text-gray-500">
-                        {new Date(deploymentStatus.latestDeployment.created_at).toLocaleString()}
+                        {deploymentStatus.latestDeployment.triggeredBy
+                          ? `Triggered by ${deploymentStatus.latestDeployment.triggeredBy}`
+                          : 'Started on GitHub'} • {new Date(deploymentStatus.latestDeployment.createdAt).toLocaleString()}
                       </p>
                       <div className="flex items-center gap-3 mt-2">
-                        <a
-                          href={deploymentStatus.latestDeployment.html_url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-xs text-blue-600 hover:text-blue-700 inline-flex items-center gap-1"
-                        >
-                          View logs
-                          <ExternalLink className="h-3 w-3" />
-                        </a>
+                        {deploymentStatus.latestDeployment.htmlUrl && (
+                          <a
+                            href={deploymentStatus.latestDeployment.htmlUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-blue-600 hover:text-blue-700 inline-flex items-center gap-1"
+                          >
+                            View logs
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
                         
                         {/* Show View Plan link for completed plan workflows */}
-                        {deploymentStatus.latestDeployment.workflow === 'tfplan.yml' && 
-                         deploymentStatus.latestDeployment.status === 'completed' &&
-                         deploymentStatus.latestDeployment.conclusion === 'success' && (
+                        {canViewPlan(deploymentStatus.latestDeployment) && (
                           <a
                             href="#"
                             onClick={(e) => {
                               e.preventDefault()
                               setSelectedPlanRun({ 
-                                id: deploymentStatus.latestDeployment.id, 
-                                name: deploymentStatus.latestDeployment.name 
+                                id: deploymentStatus.latestDeployment!.runId!, 
+                                name: 'Terraform Plan'
                               })
                               setShowPlanModal(true)
                             }}
@@ -491,45 +612,44 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
                         <div key={deployment.id} className="p-3 bg-gray-50 rounded-lg text-sm">
                           <div className="flex items-center justify-between mb-1">
                             <span className="font-medium text-gray-900">
-                              {deployment.workflow === 'tfplan.yml' ? 'Plan' : 'Apply'}
+                              {deployment.kind === 'PLAN' ? 'Plan' : 'Apply'}
+                              {deployment.planSummary && (
+                                <span className="ml-2 text-xs font-normal">
+                                  <span className="text-green-600">+{deployment.planSummary.toAdd}</span>{" "}
+                                  <span className="text-yellow-600">~{deployment.planSummary.toChange}</span>{" "}
+                                  <span className="text-red-600">-{deployment.planSummary.toDestroy}</span>
+                                </span>
+                              )}
                             </span>
-                            <span className={`text-xs px-2 py-1 rounded ${
-                              deployment.status === 'completed' 
-                                ? deployment.conclusion === 'success' 
-                                  ? 'bg-green-100 text-green-700' 
-                                  : 'bg-red-100 text-red-700'
-                                : 'bg-yellow-100 text-yellow-700'
-                            }`}>
-                              {deployment.status === 'completed' 
-                                ? deployment.conclusion 
-                                : deployment.status}
+                            <span className={`text-xs px-2 py-1 rounded ${deploymentBadgeClass(deployment)}`}>
+                              {deploymentStatusLabel(deployment)}
                             </span>
                           </div>
                           <p className="text-xs text-gray-600">
-                            Branch: {deployment.branch} • {new Date(deployment.created_at).toLocaleString()}
+                            Branch: {deployment.branch} • {deployment.triggeredBy || 'GitHub'} • {new Date(deployment.createdAt).toLocaleString()}
                           </p>
                           <div className="flex items-center gap-3 mt-1">
-                            <a
-                              href={deployment.html_url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-xs text-blue-600 hover:text-blue-700 inline-flex items-center gap-1"
-                            >
-                              View logs
-                              <ExternalLink className="h-3 w-3" />
-                            </a>
+                            {deployment.htmlUrl && (
+                              <a
+                                href={deployment.htmlUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-blue-600 hover:text-blue-700 inline-flex items-center gap-1"
+                              >
+                                View logs
+                                <ExternalLink className="h-3 w-3" />
+                              </a>
+                            )}
                             
                             {/* Show View Plan link for completed plan workflows in history */}
-                            {deployment.workflow === 'tfplan.yml' && 
-                             deployment.status === 'completed' &&
-                             deployment.conclusion === 'success' && (
+                            {canViewPlan(deployment) && (
                               <a
                                 href="#"
                                 onClick={(e) => {
                                   e.preventDefault()
                                   setSelectedPlanRun({ 
-                                    id: deployment.id, 
-                                    name: deployment.name 
+                                    id: deployment.runId!, 
+                                    name: 'Terraform Plan'
                                   })
                                   setShowPlanModal(true)
                                 }}
@@ -827,11 +947,66 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
                   <p className="font-medium">{project.githubTemplate.name}</p>
                   <p className="text-sm text-gray-600">{project.githubTemplate.description}</p>
                   <div className="mt-3 mb-4">
-                    <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
-                      {project.githubTemplate.category}
-                    </span>
+                    {project.githubTemplate.category && (
+                      <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                        {project.githubTemplate.category.icon} {project.githubTemplate.category.name}
+                      </span>
+                    )}
+                    {project.addons?.map(({ githubTemplate: addon }) => (
+                      <span key={addon.name} className="ml-2 text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded">
+                        {addon.icon} {addon.name}
+                      </span>
+                    ))}
                   </div>
                   
+                  {/* Pinned template version */}
+                  {templateVersion?.latest && (
+                    <div className="mb-4 text-sm">
+                      <p className="text-gray-700">
+                        {templateVersion.current ? (
+                          <>On <span className="font-medium">{templateVersion.current.tag}</span>, latest </>
+                        ) : (
+                          <>Latest version </>
+                        )}
+                        <span className="font-medium">{templateVersion.latest.tag}</span>
+                      </p>
+                      {templateVersion.releases.length > 0 && (
+                        <details className="mt-2">
+                          <summary className="cursor-pointer text-xs text-blue-600 hover:text-blue-700">
+                            Release notes ({templateVersion.releases.length} newer {templateVersion.releases.length === 1 ? "version" : "versions"})
+                          </summary>
+                          <div className="mt-2 space-y-3 max-h-64 overflow-y-auto">
+                            {templateVersion.releases.map(release => (
+                              <div key={release.tag} className="p-3 bg-gray-50 rounded text-xs">
+                                <div className="flex items-center justify-between mb-1">
+                                  <span className="font-medium text-gray-700">
+                                    {release.tag}{release.name && release.name !== release.tag ? ` - ${release.name}` : ""}
+                                  </span>
+                                  {release.releaseUrl && (
+                                    <a
+                                      href={release.releaseUrl}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-blue-600 hover:text-blue-700"
+                                    >
+                                      <ExternalLink className="h-3 w-3" />
+                                    </a>
+                                  )}
+                                </div>
+                                {release.publishedAt && (
+                                  <p className="text-gray-500 mb-1">{new Date(release.publishedAt).toLocaleDateString()}</p>
+                                )}
+                                <p className="text-gray-600 whitespace-pre-wrap">
+                                  {release.releaseNotes || "No release notes"}
+                                </p>
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                      )}
+                    </div>
+                  )}
+                  
                   {/* Template sync button */}
                   <Button
                     className="w-full"
@@ -870,7 +1045,21 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
                       <p className="text-gray-500">
                         by {templateUpdates.latestCommit.author} on {new Date(templateUpdates.latestCommit.date).toLocaleDateString()}
                       </p>
-                      {templateUpdates.changedFiles && templateUpdates.changedFiles.length > 0 && (
+                      {templateUpdates.lastSyncedSha && templateUpdates.latestCommit.sha !== templateUpdates.lastSyncedSha ? (
+                        <div className="mt-2">
+                          <button
+                            onClick={() => setShowChangelog(!showChangelog)}
+                            className="text-blue-600 hover:text-blue-700"
+                          >
+                            {showChangelog ? "Hide changelog" : `View changelog (${templateUpdates.changedFiles?.length ?? 0} files changed)`}
+                          </button>
+                          {showChangelog && (
+                            <div className="mt-2">
+                              <TemplateChangelog projectId={project.id} />
+                            </div>
+                          )}
+                        </div>
+                      ) : templateUpdates.changedFiles && templateUpdates.changedFiles.length > 0 && (
                         <details className="mt-2">
                           <summary className="cursor-pointer text-blue-600 hover:text-blue-700">
                             {templateUpdates.changedFiles.length} files changed
@@ -885,8 +1074,84 @@ export default function ProjectPage({ params }: { params: Promise<{ id: string }
                           </ul>
                         </details>
                       )}
+                      {templateUpdates.updatedAddons && templateUpdates.updatedAddons.length > 0 && (
+                        <p className="text-gray-600">Add-ons updated: {templateUpdates.updatedAddons.join(", ")}</p>
+                      )}
                     </div>
                   )}
+                  
+                  {/* Legacy project without a recorded template commit */}
+                  {templateUpdates?.baseUnknown && (
+                    <div className="mt-3 p-3 bg-yellow-50 rounded text-xs text-yellow-800 space-y-2">
+                      <p>
+                        The template commit this project was created from is unknown, so template changes cannot be
+                        told apart from your own edits. Mark the project as synced to compare future template updates
+                        against the latest template commit. No files are changed.
+                      </p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={handleBaselineSync}
+                        disabled={checkingUpdates || syncing}
+                      >
+                        Mark as synced with latest template
+                      </Button>
+                    </div>
+                  )}
+                  
+                  {/* Open sync pull request */}
+                  {templateUpdates?.pendingSync?.pullRequestUrl && (
+                    <div className="mt-3 p-3 bg-yellow-50 rounded text-xs text-yellow-800">
+                      A sync is waiting for review:{" "}
+                      <a
+                        href={templateUpdates.pendingSync.pullRequestUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline"
+                      >
+                        pull request #{templateUpdates.pendingSync.pullRequestNumber}
+                      </a>
+                      {templateUpdates.pendingSync.conflictsCount > 0 && ` (${templateUpdates.pendingSync.conflictsCount} conflicts)`}
+                    </div>
+                  )}
+                  
+                  {/* Sync history */}
+                  {templateUpdates?.history && templateUpdates.history.length > 0 && (
+                    <details className="mt-3">
+                      <summary className="cursor-pointer text-xs text-blue-600 hover:text-blue-700">
+                        Sync history
+                      </summary>
+                      <ul className="mt-2 space-y-2">
+                        {templateUpdates.history.map(sync => (
+                          <li key={sync.id} className="text-xs border-b pb-2 last:border-b-0">
+                            <div className="flex items-center justify-between">
+                              <span className={`px-2 py-0.5 rounded ${SYNC_STATUS_STYLES[sync.status]}`}>
+                                {sync.status.replace(/_/g, " ").toLowerCase()}
+                              </span>
+                              <span className="text-gray-500">{new Date(sync.createdAt).toLocaleDateString()}</span>
+                            </div>
+                            <p className="text-gray-600 mt-1">
+                              {sync.templateSha ? <code>{sync.templateSha.slice(0, 7)}</code> : "Unknown commit"}
+                              {sync.filesCount > 0 && ` · ${sync.filesCount} files`}
+                              {sync.conflictsCount > 0 && ` · ${sync.conflictsCount} conflicts`}
+                              {sync.triggeredBy && ` · by ${sync.triggeredBy}`}
+                            </p>
+                            {sync.pullRequestUrl && (
+                              <a
+                                href={sync.pullRequestUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-600 hover:underline"
+                              >
+                                Pull request #{sync.pullRequestNumber}
+                              </a>
+                            )}
+                            {sync.error && <p className="text-red-600 mt-1">{sync.error}</p>}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
                 </div>
               </section>
             )}
@@ -3,22 +3,26 @@
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, GitBranch, Folder, Zap, Shield, Github, Loader2, Eye, EyeOff } from "lucide-react"
+import { ArrowLeft, GitBranch, Folder, Zap, Shield, Github, Loader2, Eye, EyeOff, Plus, X } from "lucide-react"
 import Link from "next/link"
 import { useToast } from "@/contexts/toast-context"
+import { ProjectPreview, ProjectPreviewModal } from "@/components/project-preview-modal"
+import { TemplateCategoryInfo, groupTemplatesByCategory } from "@/lib/templates/template-categories"
 
 interface GitHubTemplate {
   id: string
   templateId: string
   name: string
   description: string
-  category: string
+  category: TemplateCategoryInfo | null
   icon: string
   githubUrl: string
   branch: string
   features: string[]
   includeBranches: boolean
   isPrivate: boolean
+  isAddon?: boolean
+  addonPrecedence?: number
   createdBy?: string
   isOwner?: boolean
   gitflow?: {
@@ -30,9 +34,42 @@ interface GitHubTemplate {
   }
 }
 
+interface TemplateParameter {
+  name: string
+  type: "string" | "number" | "boolean"
+  label?: string
+  description?: string
+  default?: string | number | boolean
+  required?: boolean
+  pattern?: string
+}
+
+interface GitHubOrganization {
+  login: string
+  avatarUrl: string
+  role: string
+}
+
+interface GitHubTeam {
+  slug: string
+  name: string
+}
+
+interface TemplateVersionOption {
+  id: string
+  tag: string
+  name: string | null
+  isPrerelease: boolean
+}
+
+interface TeamAccessRow {
+  teamSlug: string
+  permission: "read" | "write" | "admin"
+}
+
 export default function NewProjectPage() {
   const router = useRouter()
-  const { showError } = useToast()
+  const { showError, showInfo } = useToast()
   const [selectedTemplate, setSelectedTemplate] = useState<string>("")
   const [githubTemplates, setGithubTemplates] = useState<GitHubTemplate[]>([])
   const [loadingTemplates, setLoadingTemplates] = useState(true)
@@ -48,6 +85,12 @@ export default function NewProjectPage() {
   const [githubToken, setGithubToken] = useState("")
   const [showToken, setShowToken] = useState(false)
   
+  // Repository owner states (personal account or organization)
+  const [organizations, setOrganizations] = useState<GitHubOrganization[]>([])
+  const [organization, setOrganization] = useState("")
+  const [teams, setTeams] = useState<GitHubTeam[]>([])
+  const [teamAccess, setTeamAccess] = useState<TeamAccessRow[]>([])
+  
   // AWS Configuration states
   const [configureAws, setConfigureAws] = useState(false)
   const [awsRole, setAwsRole] = useState("")
@@ -57,12 +100,125 @@ export default function NewProjectPage() {
   const [awsAccessToken, setAwsAccessToken] = useState("")
   const [awsUsernameGithub, setAwsUsernameGithub] = useState("")
   const [showAwsToken, setShowAwsToken] = useState(false)
+  
+  // Template parameter states
+  const [templateParameters, setTemplateParameters] = useState<TemplateParameter[]>([])
+  const [parameterValues, setParameterValues] = useState<Record<string, string>>({})
+  const [loadingParameters, setLoadingParameters] = useState(false)
+  
+  // Template version states (empty selection = template branch)
+  const [templateVersions, setTemplateVersions] = useState<TemplateVersionOption[]>([])
+  const [templateBranch, setTemplateBranch] = useState("")
+  const [selectedVersion, setSelectedVersion] = useState("")
+
+  // Add-on templates layered on top of the selected template
+  const [addonTemplates, setAddonTemplates] = useState<GitHubTemplate[]>([])
+  const [selectedAddons, setSelectedAddons] = useState<string[]>([])
+
+  // Dry-run preview before creating the project
+  const [showPreview, setShowPreview] = useState(false)
+  const [preview, setPreview] = useState<ProjectPreview | null>(null)
+  const [loadingPreview, setLoadingPreview] = useState(false)
+  const [previewError, setPreviewError] = useState<string | null>(null)
 
   // Load GitHub templates from database
   useEffect(() => {
     loadGitHubTemplates()
   }, [showAllTemplates])
 
+  // Load the organizations where the user can create repositories
+  useEffect(() => {
+    loadOrganizations()
+  }, [])
+
+  // Load the teams of the selected organization
+  useEffect(() => {
+    setTeams([])
+    setTeamAccess([])
+    if (organization) {
+      loadTeams(organization)
+    }
+  }, [organization])
+
+  const loadOrganizations = async () => {
+    try {
+      const response = await fetch("/api/github/organizations")
+      if (response.ok) {
+        setOrganizations(await response.json())
+      }
+    } catch (error) {
+      console.error("Error loading organizations:", error)
+    }
+  }
+
+  const loadTeams = async (org: string) => {
+    try {
+      const response = await fetch(`/api/github/organizations/${org}/teams`)
+      if (response.ok) {
+        setTeams(await response.json())
+      }
+    } catch (error) {
+      console.error("Error loading teams:", error)
+    }
+  }
+
+  const updateTeamAccess = (index: number, changes: Partial<TeamAccessRow>) => {
+    setTeamAccess(teamAccess.map((row, i) => i === index ? { ...row, ...changes } : row))
+  }
+
+  // Load the versions and parameters of the selected template
+  useEffect(() => {
+    setTemplateParameters([])
+    setParameterValues({})
+    setTemplateVersions([])
+    setSelectedVersion("")
+    if (selectedTemplate) {
+      loadTemplateVersions(selectedTemplate).then(versionId => loadTemplateParameters(selectedTemplate, versionId))
+    }
+  }, [selectedTemplate])
+
+  // Pin the latest version by default
+  const loadTemplateVersions = async (templateId: string) => {
+    try {
+      const response = await fetch(`/api/templates/${templateId}/versions`)
+      if (response.ok) {
+        const data = await response.json()
+        setTemplateVersions(data.versions || [])
+        setTemplateBranch(data.branch || "")
+        setSelectedVersion(data.latest || "")
+        return data.latest || ""
+      }
+    } catch (error) {
+      console.error("Error loading template versions:", error)
+    }
+    return ""
+  }
+
+  const handleVersionChange = (versionId: string) => {
+    setSelectedVersion(versionId)
+    loadTemplateParameters(selectedTemplate, versionId)
+  }
+
+  const loadTemplateParameters = async (templateId: string, versionId = "") => {
+    setLoadingParameters(true)
+    try {
+      const query = versionId ? `?version=${versionId}` : ""
+      const response = await fetch(`/api/templates/${templateId}/parameters${query}`)
+      if (response.ok) {
+        const data = await response.json()
+        const parameters: TemplateParameter[] = data.parameters || []
+        setTemplateParameters(parameters)
+        setParameterValues(Object.fromEntries(
+          parameters.map(p => [p.name, p.default !== undefined ? String(p.default) : ""])
+        ))
+      }
+    } catch (error) {
+      console.error("Error loading template parameters:", error)
+    } finally {
+      setLoadingParameters(false)
+    }
+  }
+
   const loadGitHubTemplates = async () => {
     try {
       // By default, only show user's templates. Add includeAdmin param to show all
@@ -70,7 +226,15 @@ export default function NewProjectPage() {
         ? "/api/templates/github-list?includeAdmin=true" 
         : "/api/templates/github-list"
       
-      const response = await fetch(url)
+      const [response, addonsResponse] = await Promise.all([
+        fetch(url),
+        fetch(`${url}${showAllTemplates ? "&" : "?"}addons=true`)
+      ])
+      if (addonsResponse.ok) {
+        const addons: GitHubTemplate[] = await addonsResponse.json()
+        setAddonTemplates(addons)
+        setSelectedAddons(current => current.filter(id => addons.some(addon => addon.id === id)))
+      }
       if (response.ok) {
         const data = await response.json()
         // Transform the data to match the expected format
@@ -94,58 +258,151 @@ export default function NewProjectPage() {
     }
   }
 
-  const handleCreateProject = async () => {
+  // Same checks for the preview and the clone
+  const validateForm = () => {
     if (!selectedTemplate || !projectName) {
       showError("Please select a template and enter a project name")
-      return
+      return false
     }
 
-    setIsCreating(true)
+    const missingParameter = templateParameters.find(p => p.required && !parameterValues[p.name])
+    if (missingParameter) {
+      showError(`Please fill in the template parameter "${missingParameter.label || missingParameter.name}"`)
+      return false
+    }
+
+    return true
+  }
+
+  // Body shared by /api/projects/preview and /api/projects/clone
+  const buildCloneRequest = () => {
+    // Verificar si es un template de GitHub
+    const githubTemplate = githubTemplates.find(t => t.id === selectedTemplate)
+    
+    if (!githubTemplate) {
+      throw new Error("Template not found")
+    }
+    
+    return JSON.stringify({
+      sourceUrl: githubTemplate.githubUrl,
+      name: projectName,
+      description: projectDescription || githubTemplate.description,
+      isPrivate,
+      includeBranches: githubTemplate.includeBranches ?? true,
+      githubTemplateId: githubTemplate.id, // This now sends the actual database ID
+      parameters: parameterValues,
+      ...(selectedVersion && { templateVersionId: selectedVersion }),
+      ...(selectedAddons.length > 0 && { addonIds: selectedAddons }),
+      // Create the repository in an organization when one is selected
+      ...(!useCustomCredentials && organization && {
+        organization,
+        teamAccess: teamAccess.filter(row => row.teamSlug)
+      }),
+      // Include custom credentials if provided
+      ...(useCustomCredentials && githubUsername && githubToken && {
+        githubUsername,
+        githubToken
+      }),
+      // Include AWS configuration if provided
+      ...(configureAws && {
+        awsConfig: {
+          awsRole,
+          awsRegion,
+          awsBackend,
+          projectName: awsProjectName,
+          accessToken: awsAccessToken,
+          usernameGithub: awsUsernameGithub
+        }
+      })
+    })
+  }
+
+  const formatRequestError = (data: { error?: string; details?: unknown }, fallback: string) => {
+    const details = Array.isArray(data.details)
+      ? `: ${data.details.map((d: { message: string }) => d.message).join(", ")}`
+      : ""
+    return (data.error || fallback) + details
+  }
+
+  const handlePreview = async () => {
+    if (!validateForm()) return
+
+    setShowPreview(true)
+    setPreview(null)
+    setPreviewError(null)
+    setLoadingPreview(true)
 
     try {
-      // Verificar si es un template de GitHub
-      const githubTemplate = githubTemplates.find(t => t.id === selectedTemplate)
-      
-      if (!githubTemplate) {
-        throw new Error("Template not found")
+      const response = await fetch("/api/projects/preview", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: buildCloneRequest(),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(formatRequestError(data, "Error previewing project"))
       }
-      
+
+      setPreview(data)
+    } catch (error) {
+      console.error("Error:", error)
+      setPreviewError(error instanceof Error ? error.message : "Error previewing project")
+    } finally {
+      setLoadingPreview(false)
+    }
+  }
+
+  const handleCreateProject = async () => {
+    if (!validateForm()) return
+
+    setIsCreating(true)
+
+    try {
       // Use clone API for GitHub templates
       const response = await fetch("/api/projects/clone", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          sourceUrl: githubTemplate.githubUrl,
-          name: projectName,
-          description: projectDescription || githubTemplate.description,
-          isPrivate,
-          includeBranches: githubTemplate.includeBranches ?? true,
-          githubTemplateId: githubTemplate.id, // This now sends the actual database ID
-          // Include custom credentials if provided
-          ...(useCustomCredentials && githubUsername && githubToken && {
-            githubUsername,
-            githubToken
-          }),
-          // Include AWS configuration if provided
-          ...(configureAws && {
-            awsConfig: {
-              awsRole,
-              awsRegion,
-              awsBackend,
-              projectName: awsProjectName,
-              accessToken: awsAccessToken,
-              usernameGithub: awsUsernameGithub
-            }
-          })
-        }),
+        body: buildCloneRequest(),
       })
 
       const data = await response.json()
 
       if (!response.ok) {
-        throw new Error(data.error || "Error creating project")
+        throw new Error(formatRequestError(data, "Error creating project"))
+      }
+
+      const branchErrors = (data.branches || []).filter((b: { error?: string }) => b.error)
+      if (branchErrors.length > 0) {
+        showInfo(
+          `Project created, but some branches could not be configured: ${branchErrors
+            .map((b: { branch: string; error: string }) => `${b.branch} (${b.error})`)
+            .join(", ")}`
+        )
+      }
+
+      if (data.skippedFiles?.length > 0) {
+        console.warn("Template files not copied:", data.skippedFiles)
+        showInfo(`${data.skippedFiles.length} template file(s) could not be copied. See the browser console for details.`)
+      }
+
+      if (data.layerConflicts?.length > 0) {
+        console.warn("Paths overridden by add-ons:", data.layerConflicts)
+        showInfo(`${data.layerConflicts.length} template file(s) were overridden by add-ons. See the browser console for details.`)
+      }
+
+      const teamErrors = (data.teamAccess || []).filter((t: { granted: boolean }) => !t.granted)
+      if (teamErrors.length > 0) {
+        showInfo(
+          `Project created, but some teams could not be granted access: ${teamErrors
+            .map((t: { teamSlug: string; error?: string }) => `${t.teamSlug} (${t.error})`)
+            .join(", ")}`
+        )
       }
 
       router.push(`/projects/${data.id}`)
@@ -205,43 +462,49 @@ export default function NewProjectPage() {
                   <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
                 </div>
               ) : githubTemplates.length > 0 ? (
-                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {githubTemplates.map((template) => (
-                    <div
-                      key={template.id}
-                      className={`border rounded-lg p-4 cursor-pointer transition-all ${
-                        selectedTemplate === template.id
-                          ? "border-blue-500 bg-blue-50"
-                          : "border-gray-200 hover:border-gray-300"
-                      }`}
-                      onClick={() => setSelectedTemplate(template.id)}
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="text-2xl mb-2">{template.icon}</div>
-                          <h3 className="font-semibold">{template.name}</h3>
-                          <p className="text-sm text-gray-600 mt-1">{template.description}</p>
-                          <div className="mt-2 space-x-2">
-                            <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
-                              {template.category}
-                            </span>
-                            {template.isOwner && (
-                              <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
-                                Your Template
-                              </span>
-                            )}
-                            {template.isPrivate && (
-                              <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-1 rounded">
-                                Private
-                              </span>
-                            )}
+                <div className="space-y-6">
+                  {groupTemplatesByCategory(githubTemplates).map((group) => (
+                    <div key={group.category?.id ?? "uncategorized"}>
+                      <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                        {group.category ? `${group.category.icon ?? ""} ${group.category.name}`.trim() : "Uncategorized"}
+                      </h4>
+                      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {group.templates.map((template) => (
+                          <div
+                            key={template.id}
+                            className={`border rounded-lg p-4 cursor-pointer transition-all ${
+                              selectedTemplate === template.id
+                                ? "border-blue-500 bg-blue-50"
+                                : "border-gray-200 hover:border-gray-300"
+                            }`}
+                            onClick={() => setSelectedTemplate(template.id)}
+                          >
+                            <div className="flex items-start justify-between">
+                              <div className="flex-1">
+                                <div className="text-2xl mb-2">{template.icon}</div>
+                                <h3 className="font-semibold">{template.name}</h3>
+                                <p className="text-sm text-gray-600 mt-1">{template.description}</p>
+                                <div className="mt-2 space-x-2">
+                                  {template.isOwner && (
+                                    <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
+                                      Your Template
+                                    </span>
+                                  )}
+                                  {template.isPrivate && (
+                                    <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-1 rounded">
+                                      Private
+                                    </span>
+                                  )}
+                                </div>
+                              </div>
+                              <Github className="h-4 w-4 text-gray-400" />
+                            </div>
+                            <p className="text-xs text-gray-500 mt-2">
+                              {template.githubUrl.replace('https://github.com/', '')}
+                            </p>
                           </div>
-                        </div>
-                        <Github className="h-4 w-4 text-gray-400" />
+                        ))}
                       </div>
-                      <p className="text-xs text-gray-500 mt-2">
-                        {template.githubUrl.replace('https://github.com/', '')}
-                      </p>
                     </div>
                   ))}
                 </div>
@@ -301,6 +564,134 @@ export default function NewProjectPage() {
                 />
               </div>
 
+              {!useCustomCredentials && organizations.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Owner
+                  </label>
+                  <select
+                    value={organization}
+                    onChange={(e) => setOrganization(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Personal account</option>
+                    {organizations.map(org => (
+                      <option key={org.login} value={org.login}>{org.login}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Organization that will own the GitHub repository
+                  </p>
+                </div>
+              )}
+
+              {!useCustomCredentials && organization && (
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Team Access
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setTeamAccess([...teamAccess, { teamSlug: "", permission: "read" }])}
+                      disabled={teams.length === 0}
+                      className="flex items-center gap-1 text-sm text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                    >
+                      <Plus className="h-3 w-3" />
+                      Add team
+                    </button>
+                  </div>
+                  {teams.length === 0 && (
+                    <p className="text-xs text-gray-500">No teams found in {organization}</p>
+                  )}
+                  <div className="space-y-2">
+                    {teamAccess.map((row, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <select
+                          value={row.teamSlug}
+                          onChange={(e) => updateTeamAccess(index, { teamSlug: e.target.value })}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Select a team</option>
+                          {teams.map(team => (
+                            <option key={team.slug} value={team.slug}>{team.name}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={row.permission}
+                          onChange={(e) => updateTeamAccess(index, { permission: e.target.value as TeamAccessRow["permission"] })}
+                          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="read">Read</option>
+                          <option value="write">Write</option>
+                          <option value="admin">Admin</option>
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => setTeamAccess(teamAccess.filter((_, i) => i !== index))}
+                          className="text-gray-500 hover:text-gray-700"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {templateVersions.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Template Version
+                  </label>
+                  <select
+                    value={selectedVersion}
+                    onChange={(e) => handleVersionChange(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {templateVersions.map(version => (
+                      <option key={version.id} value={version.id}>
+                        {version.tag}{version.name && version.name !== version.tag ? ` - ${version.name}` : ""}{version.isPrerelease ? " (pre-release)" : ""}
+                      </option>
+                    ))}
+                    <option value="">Latest commit on {templateBranch || "the template branch"} (unpinned)</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    The project is created from this release of the template
+                  </p>
+                </div>
+              )}
+
+              {addonTemplates.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Add-ons
+                  </label>
+                  <div className="space-y-2">
+                    {addonTemplates.map(addon => (
+                      <label key={addon.id} className="flex items-start gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={selectedAddons.includes(addon.id)}
+                          onChange={(e) => setSelectedAddons(e.target.checked
+                            ? [...selectedAddons, addon.id]
+                            : selectedAddons.filter(id => id !== addon.id)
+                          )}
+                          className="rounded mt-0.5"
+                        />
+                        <span>
+                          <span className="font-medium">{addon.icon} {addon.name}</span>
+                          <span className="text-gray-500"> - {addon.description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Add-on files are copied on top of the template. When several layers provide the same file, the add-on with the highest precedence wins. Template syncs re-apply every add-on.
+                  </p>
+                </div>
+              )}
+
               <div className="flex items-center gap-2">
                 <input
                   type="checkbox"
@@ -499,6 +890,65 @@ export default function NewProjectPage() {
             </div>
           </section>
 
+          {/* Parámetros del Template */}
+          {selectedTemplate && (loadingParameters || templateParameters.length > 0) && (
+            <section className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold mb-1">3. Template Parameters</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                These values replace the {"{{PLACEHOLDERS}}"} in the template files.
+              </p>
+              {loadingParameters ? (
+                <div className="flex items-center justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                </div>
+              ) : (
+                <div className="grid md:grid-cols-2 gap-4">
+                  {templateParameters.map((parameter) => (
+                    <div key={parameter.name}>
+                      {parameter.type === "boolean" ? (
+                        <div className="flex items-center gap-2 mt-6">
+                          <input
+                            type="checkbox"
+                            id={`param-${parameter.name}`}
+                            checked={parameterValues[parameter.name] === "true"}
+                            onChange={(e) => setParameterValues({
+                              ...parameterValues,
+                              [parameter.name]: e.target.checked ? "true" : "false"
+                            })}
+                            className="rounded"
+                          />
+                          <label htmlFor={`param-${parameter.name}`} className="text-sm text-gray-700">
+                            {parameter.label || parameter.name}
+                          </label>
+                        </div>
+                      ) : (
+                        <>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            {parameter.label || parameter.name}{parameter.required && " *"}
+                            <code className="ml-2 text-xs text-gray-500">{`{{${parameter.name}}}`}</code>
+                          </label>
+                          <input
+                            type={parameter.type === "number" ? "number" : "text"}
+                            value={parameterValues[parameter.name] || ""}
+                            onChange={(e) => setParameterValues({
+                              ...parameterValues,
+                              [parameter.name]: e.target.value
+                            })}
+                            pattern={parameter.pattern}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </>
+                      )}
+                      {parameter.description && (
+                        <p className="text-xs text-gray-500 mt-1">{parameter.description}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+
           {/* Características del Template */}
           {selectedTemplateData && (
             <section className="bg-white rounded-lg shadow-sm p-6">
@@ -541,6 +991,14 @@ export default function NewProjectPage() {
             <Link href="/dashboard">
               <Button variant="outline">Cancel</Button>
             </Link>
+            <Button
+              variant="outline"
+              onClick={handlePreview}
+              disabled={!selectedTemplate || !projectName || isCreating || loadingPreview}
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
             <Button
               onClick={handleCreateProject}
               disabled={!selectedTemplate || !projectName || isCreating}
@@ -550,6 +1008,16 @@ export default function NewProjectPage() {
           </div>
         </div>
       </main>
+
+      <ProjectPreviewModal
+        isOpen={showPreview}
+        onClose={() => setShowPreview(false)}
+        onConfirm={handleCreateProject}
+        loading={loadingPreview}
+        creating={isCreating}
+        error={previewError}
+        preview={preview}
+      />
     </div>
   )
 }
\ No newline at end of file
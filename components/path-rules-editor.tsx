@@ -0,0 +1,205 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Eye, Loader2 } from "lucide-react"
+import { PathRuleMatch, normalizePathPatterns } from "@/lib/templates/path-rules"
+
+export interface PathRulesValue {
+  ignorePaths: string // Una regla por línea
+  ownedPaths: string
+}
+
+interface PathRulesEditorProps {
+  value: PathRulesValue
+  onChange: (value: PathRulesValue) => void
+  // Template existente (id) o repositorio que se está agregando
+  source: {
+    id?: string
+    githubUrl?: string
+    githubToken?: string
+    branch?: string
+  }
+}
+
+interface PreviewFile {
+  path: string
+  clone: PathRuleMatch
+  sync: PathRuleMatch
+}
+
+interface PreviewData {
+  branch: string
+  manifestRules: {
+    ignore: string[]
+    ownedPaths: string[]
+  }
+  files: PreviewFile[]
+  truncated: boolean
+}
+
+const ACTION_LABELS = {
+  copy: { label: "Copiar", className: "bg-gray-100 text-gray-700" },
+  ignore: { label: "Ignorar", className: "bg-red-100 text-red-700" },
+  owned: { label: "Template", className: "bg-blue-100 text-blue-700" }
+}
+
+const SOURCE_LABELS = {
+  default: "por defecto",
+  manifest: ".template.json",
+  admin: "admin"
+}
+
+// Reglas .templateignore y paths propios del template, con vista previa por archivo
+export function PathRulesEditor({ value, onChange, source }: PathRulesEditorProps) {
+  const [preview, setPreview] = useState<PreviewData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [onlyMatched, setOnlyMatched] = useState(true)
+
+  const loadPreview = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch("/api/admin/templates/preview-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...source,
+          ignorePaths: normalizePathPatterns(value.ignorePaths),
+          ownedPaths: normalizePathPatterns(value.ownedPaths)
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to preview path rules")
+      }
+      setPreview(data)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to preview path rules")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const files = preview?.files.filter(file => !onlyMatched || file.clone.rule || file.sync.rule) || []
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Archivos ignorados
+        </label>
+        <textarea
+          value={value.ignorePaths}
+          onChange={(e) => onChange({ ...value, ignorePaths: e.target.value })}
+          rows={4}
+          placeholder={"terraform/*.tfvars\n!terraform/example.tfvars"}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Sintaxis .templateignore, una regla por línea. El clone no los copia y el sync nunca los modifica
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Paths propios del template
+        </label>
+        <textarea
+          value={value.ownedPaths}
+          onChange={(e) => onChange({ ...value, ownedPaths: e.target.value })}
+          rows={4}
+          placeholder=".github/workflows/"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          El sync siempre los sobrescribe con la versión del template
+        </p>
+      </div>
+
+      <div className="md:col-span-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={loadPreview}
+          disabled={loading || (!source.id && !source.githubUrl)}
+        >
+          {loading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Eye className="h-4 w-4 mr-1" />}
+          Vista previa de reglas
+        </Button>
+        {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+
+        {preview && (
+          <div className="mt-3 border rounded-md">
+            <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b text-xs text-gray-600">
+              <span>
+                {preview.files.length} archivos en {preview.branch}
+                {(preview.manifestRules.ignore.length > 0 || preview.manifestRules.ownedPaths.length > 0) &&
+                  ` · ${preview.manifestRules.ignore.length + preview.manifestRules.ownedPaths.length} reglas en .template.json`}
+                {preview.truncated && " · árbol truncado por GitHub"}
+              </span>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={onlyMatched}
+                  onChange={(e) => setOnlyMatched(e.target.checked)}
+                  className="rounded"
+                />
+                Solo archivos con regla
+              </label>
+            </div>
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="text-left text-gray-500">
+                  <tr>
+                    <th className="px-3 py-1 font-medium">Archivo</th>
+                    <th className="px-3 py-1 font-medium">Clone</th>
+                    <th className="px-3 py-1 font-medium">Sync</th>
+                    <th className="px-3 py-1 font-medium">Regla</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {files.map(file => {
+                    const rule = file.sync.rule || file.clone.rule
+                    return (
+                      <tr key={file.path} className="border-t">
+                        <td className="px-3 py-1 font-mono">{file.path}</td>
+                        <td className="px-3 py-1">
+                          <span className={`px-1.5 py-0.5 rounded ${ACTION_LABELS[file.clone.action].className}`}>
+                            {ACTION_LABELS[file.clone.action].label}
+                          </span>
+                        </td>
+                        <td className="px-3 py-1">
+                          <span className={`px-1.5 py-0.5 rounded ${ACTION_LABELS[file.sync.action].className}`}>
+                            {file.sync.action === "copy" ? "Merge" : ACTION_LABELS[file.sync.action].label}
+                          </span>
+                        </td>
+                        <td className="px-3 py-1 text-gray-600">
+                          {rule && (
+                            <>
+                              <code>{rule.pattern}</code>
+                              <span className="ml-1 text-gray-400">({SOURCE_LABELS[rule.source]})</span>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                  {files.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-2 text-gray-500">Ningún archivo coincide con las reglas</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,380 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { X, Loader2, FileText, Folder, FolderOpen, GitBranch, KeyRound, AlertTriangle, Tag, Shield } from "lucide-react"
+
+export interface ProjectPreview {
+  source: {
+    owner: string
+    repo: string
+    ref: string
+    templateSha?: string
+  }
+  target: {
+    name: string
+    owner: string | null
+    isPrivate: boolean
+  }
+  addons: { id: string; name: string; templateSha?: string }[]
+  files: PreviewFile[]
+  skippedFiles: { path: string; reason: string }[]
+  layerConflicts: { path: string; layers: string[]; winner: string }[]
+  copiedBranches: string[]
+  copiedTags: string[]
+  gitflow: {
+    branch: string
+    isDefault: boolean
+    protection?: { requiredReviews?: number; requiredStatusChecks?: string[] }
+  }[]
+  secrets: string[]
+  variables: Record<string, string>
+}
+
+interface PreviewFile {
+  path: string
+  mode: string
+  size: number
+  binary: boolean
+  content?: string
+  truncated: boolean
+}
+
+interface TreeNode {
+  name: string
+  path: string
+  children: TreeNode[]
+  file?: PreviewFile
+}
+
+interface ProjectPreviewModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onConfirm: () => void
+  loading: boolean
+  creating: boolean
+  error: string | null
+  preview: ProjectPreview | null
+}
+
+type PreviewTab = "files" | "branches" | "settings"
+
+// Nested folders from the flat list of file paths, folders first
+function buildTree(files: PreviewFile[]): TreeNode[] {
+  const root: TreeNode = { name: "", path: "", children: [] }
+
+  for (const file of files) {
+    const parts = file.path.split("/")
+    let node = root
+    parts.forEach((part, index) => {
+      const path = parts.slice(0, index + 1).join("/")
+      let child = node.children.find(c => c.name === part)
+      if (!child) {
+        child = { name: part, path, children: [] }
+        node.children.push(child)
+      }
+      if (index === parts.length - 1) {
+        child.file = file
+      }
+      node = child
+    })
+  }
+
+  const sort = (nodes: TreeNode[]) => {
+    nodes.sort((a, b) => (a.file ? 1 : 0) - (b.file ? 1 : 0) || a.name.localeCompare(b.name))
+    nodes.forEach(node => sort(node.children))
+  }
+  sort(root.children)
+  return root.children
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function ProjectPreviewModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  loading,
+  creating,
+  error,
+  preview
+}: ProjectPreviewModalProps) {
+  const [tab, setTab] = useState<PreviewTab>("files")
+  const [selectedPath, setSelectedPath] = useState<string | null>(null)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const tree = useMemo(() => buildTree(preview?.files || []), [preview])
+
+  useEffect(() => {
+    // Start on the README when the template has one
+    if (preview) {
+      const readme = preview.files.find(f => /^readme(\.md)?$/i.test(f.path))
+      setSelectedPath((readme || preview.files[0])?.path || null)
+      setCollapsed(new Set())
+      setTab("files")
+    }
+  }, [preview])
+
+  if (!isOpen) return null
+
+  const selectedFile = preview?.files.find(f => f.path === selectedPath)
+  const conflictPaths = new Set(preview?.layerConflicts.map(c => c.path))
+
+  const toggleFolder = (path: string) => {
+    setCollapsed(current => {
+      const next = new Set(current)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  const renderNodes = (nodes: TreeNode[], depth: number) => nodes.map(node => (
+    <div key={node.path}>
+      {node.file ? (
+        <button
+          onClick={() => setSelectedPath(node.path)}
+          className={`w-full flex items-center gap-1.5 py-1 pr-2 text-left text-sm hover:bg-gray-100 ${selectedPath === node.path ? "bg-blue-50 text-blue-700" : ""}`}
+          style={{ paddingLeft: depth * 12 + 8 }}
+        >
+          <FileText className="h-3.5 w-3.5 flex-shrink-0 text-gray-400" />
+          <span className="truncate">{node.name}</span>
+          {conflictPaths.has(node.path) && (
+            <span className="ml-auto text-xs text-orange-600" title="Overridden by an add-on">add-on</span>
+          )}
+        </button>
+      ) : (
+        <>
+          <button
+            onClick={() => toggleFolder(node.path)}
+            className="w-full flex items-center gap-1.5 py-1 pr-2 text-left text-sm font-medium hover:bg-gray-100"
+            style={{ paddingLeft: depth * 12 + 8 }}
+          >
+            {collapsed.has(node.path)
+              ? <Folder className="h-3.5 w-3.5 flex-shrink-0 text-gray-500" />
+              : <FolderOpen className="h-3.5 w-3.5 flex-shrink-0 text-gray-500" />}
+            <span className="truncate">{node.name}</span>
+          </button>
+          {!collapsed.has(node.path) && renderNodes(node.children, depth + 1)}
+        </>
+      )}
+    </div>
+  ))
+
+  const tabs: { id: PreviewTab; label: string }[] = [
+    { id: "files", label: `Files (${preview?.files.length || 0})` },
+    { id: "branches", label: "Branches" },
+    { id: "settings", label: "Secrets & variables" }
+  ]
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-6xl w-full h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">Project Preview</h2>
+            {preview && (
+              <p className="text-sm text-gray-600 mt-1">
+                {preview.target.owner ? `${preview.target.owner}/` : ""}{preview.target.name}
+                {" "}({preview.target.isPrivate ? "private" : "public"}) from {preview.source.owner}/{preview.source.repo}@{preview.source.ref}
+                {preview.addons.length > 0 && ` with ${preview.addons.map(a => a.name).join(", ")}`}
+              </p>
+            )}
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-hidden flex flex-col">
+          {loading ? (
+            <div className="flex flex-col items-center justify-center flex-1 gap-3 text-gray-500">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+              <p className="text-sm">Rendering template files...</p>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12">
+              <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+              <p className="text-red-600">{error}</p>
+            </div>
+          ) : preview ? (
+            <>
+              <div className="flex gap-1 px-6 pt-3 border-b">
+                {tabs.map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => setTab(t.id)}
+                    className={`px-3 py-2 text-sm border-b-2 -mb-px ${tab === t.id ? "border-blue-600 text-blue-600 font-medium" : "border-transparent text-gray-600 hover:text-gray-900"}`}
+                  >
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+
+              {tab === "files" && (
+                <div className="flex-1 flex overflow-hidden">
+                  <div className="w-72 border-r overflow-auto py-2">
+                    {preview.files.length === 0 ? (
+                      <p className="px-4 text-sm text-gray-500">The template has no files</p>
+                    ) : renderNodes(tree, 0)}
+                  </div>
+                  <div className="flex-1 overflow-auto">
+                    {(preview.skippedFiles.length > 0 || preview.layerConflicts.length > 0) && (
+                      <div className="m-4 p-3 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800 space-y-1">
+                        {preview.skippedFiles.map(file => (
+                          <p key={file.path}>Not copied: <span className="font-mono">{file.path}</span> ({file.reason})</p>
+                        ))}
+                        {preview.layerConflicts.map(conflict => (
+                          <p key={conflict.path}>
+                            <span className="font-mono">{conflict.path}</span> is provided by {conflict.layers.join(", ")}; {conflict.winner} wins
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    {selectedFile ? (
+                      <div>
+                        <div className="sticky top-0 bg-gray-50 border-b px-4 py-2 flex items-center justify-between text-sm">
+                          <span className="font-mono">{selectedFile.path}</span>
+                          <span className="text-gray-500">
+                            {formatSize(selectedFile.size)}{selectedFile.mode === "100755" && " · executable"}{selectedFile.mode === "120000" && " · symlink"}
+                          </span>
+                        </div>
+                        {selectedFile.binary ? (
+                          <p className="p-4 text-sm text-gray-500">Binary file, copied as is</p>
+                        ) : (
+                          <>
+                            <pre className="p-4 text-xs font-mono whitespace-pre overflow-x-auto">{selectedFile.content}</pre>
+                            {selectedFile.truncated && (
+                              <p className="px-4 pb-4 text-xs text-gray-500">File truncated in the preview</p>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="p-4 text-sm text-gray-500">Select a file to see its contents</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {tab === "branches" && (
+                <div className="flex-1 overflow-auto p-6 space-y-6">
+                  <div>
+                    <h3 className="font-semibold mb-3 flex items-center gap-2">
+                      <Shield className="h-5 w-5 text-gray-600" />
+                      Gitflow
+                    </h3>
+                    {preview.gitflow.length === 0 ? (
+                      <p className="text-sm text-gray-500">The template manifest does not configure gitflow</p>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {preview.gitflow.map(branch => (
+                          <li key={branch.branch} className="flex items-center gap-2">
+                            <GitBranch className="h-4 w-4 text-gray-400" />
+                            <span className="font-mono">{branch.branch}</span>
+                            {branch.isDefault && <span className="px-2 py-0.5 rounded text-xs bg-blue-100 text-blue-700">default</span>}
+                            {branch.protection && (
+                              <span className="text-gray-500">
+                                protected · {branch.protection.requiredReviews ?? 0} review(s)
+                                {branch.protection.requiredStatusChecks?.length
+                                  ? ` · checks: ${branch.protection.requiredStatusChecks.join(", ")}`
+                                  : ""}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <div>
+                    <h3 className="font-semibold mb-3 flex items-center gap-2">
+                      <GitBranch className="h-5 w-5 text-gray-600" />
+                      Branches copied from the template
+                    </h3>
+                    {preview.copiedBranches.length === 0 ? (
+                      <p className="text-sm text-gray-500">Only the default branch</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {preview.copiedBranches.map(branch => (
+                          <span key={branch} className="px-2 py-0.5 rounded bg-gray-100 text-sm font-mono">{branch}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <h3 className="font-semibold mb-3 flex items-center gap-2">
+                      <Tag className="h-5 w-5 text-gray-600" />
+                      Tags copied from the template
+                    </h3>
+                    {preview.copiedTags.length === 0 ? (
+                      <p className="text-sm text-gray-500">No tags</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {preview.copiedTags.map(tag => (
+                          <span key={tag} className="px-2 py-0.5 rounded bg-gray-100 text-sm font-mono">{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {tab === "settings" && (
+                <div className="flex-1 overflow-auto p-6 space-y-6">
+                  <div>
+                    <h3 className="font-semibold mb-3 flex items-center gap-2">
+                      <KeyRound className="h-5 w-5 text-gray-600" />
+                      Repository secrets
+                    </h3>
+                    {preview.secrets.length === 0 ? (
+                      <p className="text-sm text-gray-500">No secrets will be set</p>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {preview.secrets.map(secret => (
+                          <li key={secret} className="font-mono">{secret} <span className="text-gray-400">= ••••••••</span></li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div>
+                    <h3 className="font-semibold mb-3">Repository variables</h3>
+                    {Object.keys(preview.variables).length === 0 ? (
+                      <p className="text-sm text-gray-500">No variables will be set</p>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {Object.entries(preview.variables).map(([name, value]) => (
+                          <li key={name} className="font-mono">{name} <span className="text-gray-500">= {value}</span></li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              )}
+            </>
+          ) : null}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-4 p-4 border-t">
+          <Button variant="outline" onClick={onClose} disabled={creating}>
+            Back
+          </Button>
+          <Button onClick={onConfirm} disabled={loading || !!error || !preview || creating}>
+            {creating ? "Creating..." : "Create Project"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
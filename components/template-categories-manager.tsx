@@ -0,0 +1,259 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ArrowDown, ArrowUp, Edit, Loader2, Plus, Save, Trash2, X } from "lucide-react"
+import { TemplateCategoryInfo } from "@/lib/templates/template-categories"
+
+export interface ManagedTemplateCategory extends TemplateCategoryInfo {
+  templatesCount: number
+}
+
+interface TemplateCategoriesManagerProps {
+  categories: ManagedTemplateCategory[] // En el orden de la galería
+  onChange: () => Promise<void> | void // Recargar categorías y templates
+  onError: (error: string) => void
+}
+
+interface CategoryForm {
+  name: string
+  slug: string
+  icon: string
+  description: string
+}
+
+const EMPTY_FORM: CategoryForm = { name: "", slug: "", icon: "", description: "" }
+
+// Categorías de la galería: alta, edición, orden y fusión al eliminar
+export function TemplateCategoriesManager({ categories, onChange, onError }: TemplateCategoriesManagerProps) {
+  const [form, setForm] = useState<CategoryForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null) // "new" para una categoría nueva
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [moveTo, setMoveTo] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const request = async (url: string, init: RequestInit, fallbackError: string) => {
+    try {
+      setSaving(true)
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" }
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || fallbackError)
+
+      await onChange()
+      return true
+    } catch (error) {
+      onError(error instanceof Error ? error.message : fallbackError)
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    const isNew = editingId === "new"
+    const saved = await request(
+      isNew ? "/api/admin/template-categories" : `/api/admin/template-categories/${editingId}`,
+      {
+        method: isNew ? "POST" : "PATCH",
+        body: JSON.stringify({ ...form, slug: form.slug || undefined })
+      },
+      isNew ? "Failed to create category" : "Failed to update category"
+    )
+    if (saved) {
+      setEditingId(null)
+      setForm(EMPTY_FORM)
+    }
+  }
+
+  const handleMove = async (index: number, offset: number) => {
+    const ids = categories.map(category => category.id)
+    ;[ids[index], ids[index + offset]] = [ids[index + offset], ids[index]]
+    await request(
+      "/api/admin/template-categories/reorder",
+      { method: "POST", body: JSON.stringify({ ids }) },
+      "Failed to reorder categories"
+    )
+  }
+
+  const handleDelete = async (id: string) => {
+    const deleted = await request(
+      `/api/admin/template-categories/${id}${moveTo ? `?moveTo=${moveTo}` : ""}`,
+      { method: "DELETE" },
+      "Failed to delete category"
+    )
+    if (deleted) {
+      setDeletingId(null)
+      setMoveTo("")
+    }
+  }
+
+  const renderForm = () => (
+    <div className="grid md:grid-cols-4 gap-2 px-4 py-3 bg-gray-50">
+      <input
+        type="text"
+        value={form.icon}
+        onChange={(e) => setForm({ ...form, icon: e.target.value })}
+        placeholder="Ícono (🧩)"
+        className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+      />
+      <input
+        type="text"
+        value={form.name}
+        onChange={(e) => setForm({ ...form, name: e.target.value })}
+        placeholder="Nombre *"
+        className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+      />
+      <input
+        type="text"
+        value={form.slug}
+        onChange={(e) => setForm({ ...form, slug: e.target.value })}
+        placeholder="Slug (se genera del nombre)"
+        className="px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+      />
+      <input
+        type="text"
+        value={form.description}
+        onChange={(e) => setForm({ ...form, description: e.target.value })}
+        placeholder="Descripción"
+        className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+      />
+      <div className="md:col-span-4 flex gap-2">
+        <Button size="sm" onClick={handleSave} disabled={saving || !form.name.trim()}>
+          {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+          Guardar
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            setEditingId(null)
+            setForm(EMPTY_FORM)
+          }}
+          disabled={saving}
+        >
+          <X className="h-4 w-4 mr-1" />
+          Cancelar
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm mb-6">
+      <div className="px-4 py-3 border-b flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Categorías</h2>
+          <p className="text-sm text-gray-500">
+            Agrupan los templates en la galería, en este orden. Las categorías de .template.json se asignan por slug.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            setEditingId("new")
+            setForm(EMPTY_FORM)
+          }}
+          disabled={editingId === "new"}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Nueva categoría
+        </Button>
+      </div>
+
+      {editingId === "new" && renderForm()}
+
+      <div className="divide-y">
+        {categories.map((category, index) => (
+          <div key={category.id}>
+            {editingId === category.id ? renderForm() : (
+              <div className="px-4 py-2 flex items-center gap-3 text-sm">
+                <span className="w-6 text-center">{category.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <span className="font-medium">{category.name}</span>
+                  <code className="ml-2 text-xs text-gray-500">{category.slug}</code>
+                  {category.description && (
+                    <span className="ml-2 text-gray-500 truncate">{category.description}</span>
+                  )}
+                </div>
+                <span className="text-xs text-gray-500">{category.templatesCount} templates</span>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="ghost" onClick={() => handleMove(index, -1)} disabled={saving || index === 0} title="Subir">
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={saving || index === categories.length - 1}
+                    title="Bajar"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setEditingId(category.id)
+                      setForm({
+                        name: category.name,
+                        slug: category.slug,
+                        icon: category.icon || "",
+                        description: category.description || ""
+                      })
+                    }}
+                    title="Editar"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setDeletingId(deletingId === category.id ? null : category.id)
+                      setMoveTo("")
+                    }}
+                    title="Eliminar"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {deletingId === category.id && (
+              <div className="px-4 py-3 bg-red-50 flex flex-wrap items-center gap-2 text-sm">
+                <span>Eliminar {category.name}. Sus {category.templatesCount} templates pasan a:</span>
+                <select
+                  value={moveTo}
+                  onChange={(e) => setMoveTo(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                >
+                  <option value="">Sin categoría</option>
+                  {categories.filter(c => c.id !== category.id).map(c => (
+                    <option key={c.id} value={c.id}>{c.icon} {c.name}</option>
+                  ))}
+                </select>
+                <Button size="sm" variant="destructive" onClick={() => handleDelete(category.id)} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Eliminar
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setDeletingId(null)} disabled={saving}>
+                  Cancelar
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+        {categories.length === 0 && editingId !== "new" && (
+          <p className="px-4 py-6 text-center text-sm text-gray-500">
+            No hay categorías; los templates se muestran sin agrupar
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ChevronDown, ChevronRight, ExternalLink, Loader2 } from "lucide-react"
+
+type ChangelogImpact = "clean" | "merge" | "conflict" | "overwrite" | "review" | "ignored"
+
+interface ChangelogFile {
+  path: string
+  previousPath?: string
+  status: "added" | "modified" | "removed" | "renamed"
+  additions: number
+  deletions: number
+  patch: string | null
+  impact: ChangelogImpact
+  reason?: string
+}
+
+interface Changelog {
+  baseSha: string
+  headSha: string
+  compareUrl: string
+  totalCommits: number
+  commits: {
+    sha: string
+    message: string
+    author: string
+    date: string
+    url: string
+  }[]
+  files: ChangelogFile[]
+}
+
+interface TemplateChangelogProps {
+  projectId: string
+}
+
+const IMPACT_LABELS: Record<ChangelogImpact, { label: string; className: string }> = {
+  conflict: { label: "Conflict", className: "bg-red-100 text-red-700" },
+  review: { label: "Review", className: "bg-orange-100 text-orange-700" },
+  overwrite: { label: "Overwrites local edits", className: "bg-yellow-100 text-yellow-700" },
+  merge: { label: "Merges with local edits", className: "bg-blue-100 text-blue-700" },
+  clean: { label: "Clean", className: "bg-green-100 text-green-700" },
+  ignored: { label: "Ignored", className: "bg-gray-100 text-gray-600" }
+}
+
+// Files that need attention first
+const IMPACT_ORDER = Object.keys(IMPACT_LABELS) as ChangelogImpact[]
+
+const STATUS_LETTERS: Record<ChangelogFile["status"], string> = {
+  added: "A",
+  modified: "M",
+  removed: "D",
+  renamed: "R"
+}
+
+// Template commits and per-file diffs since the project's last sync
+export function TemplateChangelog({ projectId }: TemplateChangelogProps) {
+  const [changelog, setChangelog] = useState<Changelog | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    const loadChangelog = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/sync-template/changelog`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load changelog")
+
+        setChangelog(data)
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "Failed to load changelog")
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadChangelog()
+  }, [projectId])
+
+  const toggleFile = (path: string) => {
+    setExpanded(current => {
+      const next = new Set(current)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-3 text-xs text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Comparing the template with your project...
+      </div>
+    )
+  }
+
+  if (error || !changelog) {
+    return <p className="py-2 text-xs text-red-600">{error}</p>
+  }
+
+  const files = [...changelog.files].sort((a, b) =>
+    IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) || a.path.localeCompare(b.path)
+  )
+  const counts = files.reduce<Partial<Record<ChangelogImpact, number>>>((acc, file) => {
+    acc[file.impact] = (acc[file.impact] || 0) + 1
+    return acc
+  }, {})
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700">
+          {changelog.totalCommits} {changelog.totalCommits === 1 ? "commit" : "commits"} since your last sync
+        </span>
+        <a
+          href={changelog.compareUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+        >
+          Compare on GitHub <ExternalLink className="h-3 w-3" />
+        </a>
+      </div>
+
+      <ul className="space-y-1 max-h-40 overflow-y-auto">
+        {changelog.commits.map(commit => (
+          <li key={commit.sha} className="flex gap-2">
+            <a
+              href={commit.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-mono text-blue-600 hover:underline"
+            >
+              {commit.sha.substring(0, 7)}
+            </a>
+            <span className="flex-1 min-w-0">
+              <span className="text-gray-800">{commit.message.split("\n")[0]}</span>
+              <span className="text-gray-500">
+                {" "}· {commit.author}{commit.date && ` · ${new Date(commit.date).toLocaleDateString()}`}
+              </span>
+            </span>
+          </li>
+        ))}
+        {changelog.commits.length < changelog.totalCommits && (
+          <li className="text-gray-500">... and {changelog.totalCommits - changelog.commits.length} more commits</li>
+        )}
+      </ul>
+
+      <div className="flex flex-wrap gap-1">
+        {IMPACT_ORDER.filter(impact => counts[impact]).map(impact => (
+          <span key={impact} className={`px-2 py-0.5 rounded ${IMPACT_LABELS[impact].className}`}>
+            {IMPACT_LABELS[impact].label}: {counts[impact]}
+          </span>
+        ))}
+      </div>
+
+      <div className="border rounded divide-y">
+        {files.map(file => (
+          <div key={file.path}>
+            <button
+              onClick={() => toggleFile(file.path)}
+              className="w-full flex items-center gap-2 px-2 py-1.5 text-left hover:bg-gray-50"
+            >
+              {expanded.has(file.path)
+                ? <ChevronDown className="h-3 w-3 flex-shrink-0" />
+                : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
+              <span className="font-mono text-gray-500">{STATUS_LETTERS[file.status]}</span>
+              <span className="flex-1 min-w-0 truncate font-mono" title={file.path}>
+                {file.previousPath ? `${file.previousPath} → ${file.path}` : file.path}
+              </span>
+              <span className="text-green-600">+{file.additions}</span>
+              <span className="text-red-600">-{file.deletions}</span>
+              <span className={`px-1.5 py-0.5 rounded ${IMPACT_LABELS[file.impact].className}`}>
+                {IMPACT_LABELS[file.impact].label}
+              </span>
+            </button>
+
+            {expanded.has(file.path) && (
+              <div className="px-2 pb-2">
+                {file.reason && <p className="mb-1 text-gray-600">{file.reason}</p>}
+                {file.patch ? (
+                  <pre className="max-h-80 overflow-auto rounded bg-gray-50 font-mono text-[11px] leading-4">
+                    {file.patch.split("\n").map((line, index) => (
+                      <div
+                        key={index}
+                        className={`px-2 whitespace-pre ${
+                          line.startsWith("@@")
+                            ? "bg-blue-50 text-blue-700"
+                            : line.startsWith("+")
+                              ? "bg-green-50 text-green-800"
+                              : line.startsWith("-")
+                                ? "bg-red-50 text-red-800"
+                                : "text-gray-700"
+                        }`}
+                      >
+                        {line || " "}
+                      </div>
+                    ))}
+                  </pre>
+                ) : (
+                  <p className="text-gray-500">No diff available (binary or too large to display)</p>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        {files.length === 0 && (
+          <p className="px-2 py-3 text-center text-gray-500">No file changes</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { AlertTriangle, XCircle } from "lucide-react"
+
+interface ValidationIssue {
+  severity: "error" | "warning"
+  code: string
+  message: string
+  file?: string
+  field?: string
+}
+
+interface TemplateValidationIssuesProps {
+  errors?: ValidationIssue[]
+  warnings?: ValidationIssue[]
+}
+
+// Errors block the import, warnings are informative
+export function TemplateValidationIssues({ errors = [], warnings = [] }: TemplateValidationIssuesProps) {
+  if (errors.length === 0 && warnings.length === 0) return null
+
+  return (
+    <ul className="mt-2 space-y-1 text-sm">
+      {[...errors, ...warnings].map((issue, i) => (
+        <li
+          key={`${issue.code}-${i}`}
+          className={`flex items-start gap-2 px-2 py-1 rounded ${issue.severity === "error" ? "bg-red-50 text-red-700" : "bg-yellow-50 text-yellow-800"}`}
+        >
+          {issue.severity === "error"
+            ? <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            : <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />}
+          <span>
+            {(issue.file || issue.field) && (
+              <span className="font-mono text-xs mr-1">
+                {issue.file}{issue.field && `${issue.file ? " → " : ""}${issue.field}`}
+              </span>
+            )}
+            {issue.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Loader2, Plus, Minus, RefreshCw, FileText, AlertTriangle, ChevronDown, ChevronUp } from "lucide-react"
+import { TerraformPlanTree } from "@/components/terraform-plan-tree"
+import { ResourceChange } from "@/lib/deployments/terraform-plan-model"
 
 interface TerraformPlanDisplayProps {
   projectId: string
@@ -28,6 +30,9 @@ interface PlanData {
       toChange: number
       toDestroy: number
     }
+    resources: ResourceChange[]
+    source: "artifact" | "logs"
+    artifactName?: string
   }
 }
 
@@ -179,8 +184,12 @@ export function TerraformPlanDisplay({
 
               {/* Plan Details */}
               <div>
-                <h4 className="text-sm font-semibold mb-2 text-gray-700">Full Plan Output</h4>
-                {planData.plan.planText ? (
+                <h4 className="text-sm font-semibold mb-2 text-gray-700">
+                  {planData.plan.resources.length > 0 ? "Resource Changes" : "Full Plan Output"}
+                </h4>
+                {planData.plan.resources.length > 0 ? (
+                  <TerraformPlanTree resources={planData.plan.resources} />
+                ) : planData.plan.planText ? (
                   <div className="bg-gray-900 text-gray-100 rounded-lg p-4 overflow-x-auto max-h-96 overflow-y-auto">
                     <pre className="text-xs font-mono whitespace-pre-wrap">
                       {planData.plan.planText}
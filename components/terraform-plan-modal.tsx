@@ -2,7 +2,9 @@
 
 import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
-import { X, Loader2, Plus, Minus, RefreshCw, FileText, AlertTriangle } from "lucide-react"
+import { X, Loader2, Plus, Minus, RefreshCw, FileText, AlertTriangle, ChevronDown, ChevronRight } from "lucide-react"
+import { TerraformPlanTree } from "@/components/terraform-plan-tree"
+import { ResourceChange } from "@/lib/deployments/terraform-plan-model"
 
 interface TerraformPlanModalProps {
   isOpen: boolean
@@ -29,6 +31,9 @@ interface PlanData {
       toChange: number
       toDestroy: number
     }
+    resources: ResourceChange[]
+    source: "artifact" | "logs"
+    artifactName?: string
   }
 }
 
@@ -42,6 +47,7 @@ export function TerraformPlanModal({
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [planData, setPlanData] = useState<PlanData | null>(null)
+  const [showRawOutput, setShowRawOutput] = useState(false)
 
   useEffect(() => {
     if (isOpen && runId) {
@@ -155,20 +161,49 @@ export function TerraformPlanModal({
                 </div>
               </div>
 
+              {/* Resource Changes */}
+              {planData.plan.resources.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-3">Resource Changes</h3>
+                  <TerraformPlanTree resources={planData.plan.resources} />
+                </div>
+              )}
+
               {/* Plan Details */}
-              <div>
-                <h3 className="font-semibold mb-3">Full Plan Output</h3>
-                <div className="bg-gray-900 text-gray-100 rounded-lg p-4 overflow-x-auto">
-                  <pre className="text-sm font-mono whitespace-pre-wrap">
-                    {planData.plan.planText}
-                  </pre>
+              {planData.plan.planText ? (
+                <div>
+                  {planData.plan.resources.length > 0 ? (
+                    <button
+                      onClick={() => setShowRawOutput(!showRawOutput)}
+                      className="font-semibold mb-3 flex items-center gap-1"
+                    >
+                      {showRawOutput ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      Full Plan Output
+                    </button>
+                  ) : (
+                    <h3 className="font-semibold mb-3">Full Plan Output</h3>
+                  )}
+                  {(showRawOutput || planData.plan.resources.length === 0) && (
+                    <div className="bg-gray-900 text-gray-100 rounded-lg p-4 overflow-x-auto">
+                      <pre className="text-sm font-mono whitespace-pre-wrap">
+                        {planData.plan.planText}
+                      </pre>
+                    </div>
+                  )}
                 </div>
-              </div>
+              ) : planData.plan.resources.length === 0 && (
+                <div className="bg-gray-100 text-gray-600 rounded-lg p-4 text-center text-sm">
+                  No changes. Infrastructure is up-to-date.
+                </div>
+              )}
 
               {/* Workflow Info */}
               <div className="text-sm text-gray-600 flex items-center justify-between">
                 <span>
-                  Workflow run #{planData.workflowRun.id} • {new Date(planData.workflowRun.created_at).toLocaleString()}
+                  Workflow run #{planData.workflowRun.id} • {new Date(planData.workflowRun.created_at).toLocaleString()} •{" "}
+                  {planData.plan.source === "artifact"
+                    ? `From the ${planData.plan.artifactName} artifact`
+                    : "Parsed from the workflow logs"}
                 </span>
                 <a
                   href={planData.workflowRun.html_url}
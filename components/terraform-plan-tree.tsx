@@ -0,0 +1,203 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ChevronDown, ChevronRight, Folder, Lock, Search } from "lucide-react"
+import {
+  PlanModuleNode,
+  RESOURCE_ACTIONS,
+  ResourceAction,
+  ResourceChange,
+  buildPlanTree
+} from "@/lib/deployments/terraform-plan-model"
+
+interface TerraformPlanTreeProps {
+  resources: ResourceChange[]
+}
+
+const ACTION_STYLES: Record<ResourceAction, { label: string; badge: string; row: string }> = {
+  replace: { label: "Replace", badge: "bg-orange-100 text-orange-700", row: "bg-orange-50 border-l-4 border-orange-400" },
+  delete: { label: "Destroy", badge: "bg-red-100 text-red-700", row: "bg-red-50 border-l-4 border-red-400" },
+  update: { label: "Update", badge: "bg-yellow-100 text-yellow-700", row: "border-l-4 border-transparent" },
+  create: { label: "Create", badge: "bg-green-100 text-green-700", row: "border-l-4 border-transparent" },
+  read: { label: "Read", badge: "bg-blue-100 text-blue-700", row: "border-l-4 border-transparent" }
+}
+
+// Resource changes grouped by module, filterable by action and address
+export function TerraformPlanTree({ resources }: TerraformPlanTreeProps) {
+  const [actions, setActions] = useState<Set<ResourceAction>>(new Set(RESOURCE_ACTIONS))
+  const [query, setQuery] = useState("")
+  const [collapsedModules, setCollapsedModules] = useState<Set<string>>(new Set())
+  const [expandedResources, setExpandedResources] = useState<Set<string>>(new Set())
+
+  const counts = useMemo(() => resources.reduce<Partial<Record<ResourceAction, number>>>((acc, resource) => {
+    acc[resource.action] = (acc[resource.action] || 0) + 1
+    return acc
+  }, {}), [resources])
+
+  const tree = useMemo(() => {
+    const search = query.trim().toLowerCase()
+    return buildPlanTree(resources.filter(resource =>
+      actions.has(resource.action) &&
+      (!search ||
+        resource.address.toLowerCase().includes(search) ||
+        resource.attributes.some(attribute => attribute.path.toLowerCase().includes(search)))
+    ))
+  }, [resources, actions, query])
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set)
+    if (next.has(value)) {
+      next.delete(value)
+    } else {
+      next.add(value)
+    }
+    return next
+  }
+
+  const renderValue = (value: string | null, sensitive: boolean) => {
+    if (value === null) return <span className="text-gray-400">null</span>
+    if (sensitive) {
+      return (
+        <span className="inline-flex items-center gap-1 italic text-purple-700">
+          <Lock className="h-3 w-3" />
+          sensitive
+        </span>
+      )
+    }
+    if (value === "(known after apply)") return <span className="italic text-gray-500">known after apply</span>
+    return <span className="whitespace-pre-wrap break-all">{value}</span>
+  }
+
+  const renderResource = (resource: ResourceChange) => {
+    const expanded = expandedResources.has(resource.address)
+    const style = ACTION_STYLES[resource.action]
+
+    return (
+      <div key={resource.address} className={style.row}>
+        <button
+          onClick={() => setExpandedResources(current => toggle(current, resource.address))}
+          className="w-full flex items-center gap-2 px-2 py-1.5 text-left text-sm hover:bg-gray-50/60"
+        >
+          {expanded
+            ? <ChevronDown className="h-3 w-3 flex-shrink-0 text-gray-500" />
+            : <ChevronRight className="h-3 w-3 flex-shrink-0 text-gray-500" />}
+          <span className={`px-1.5 py-0.5 rounded text-xs ${style.badge}`}>{style.label}</span>
+          <span className="flex-1 min-w-0 truncate font-mono text-xs" title={resource.address}>
+            {resource.mode === "data" && "data."}{resource.type}.{resource.name}
+          </span>
+          <span className="text-xs text-gray-500">
+            {resource.attributes.length} {resource.attributes.length === 1 ? "change" : "changes"}
+          </span>
+        </button>
+
+        {expanded && (
+          <div className="pl-7 pr-2 pb-2">
+            {resource.reason && <p className="mb-1 text-xs text-gray-600">{resource.reason}</p>}
+            {resource.attributes.length > 0 ? (
+              <table className="w-full text-xs font-mono">
+                <thead className="text-left text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-2 font-medium">Attribute</th>
+                    <th className="py-1 pr-2 font-medium">Before</th>
+                    <th className="py-1 font-medium">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {resource.attributes.map(attribute => (
+                    <tr key={attribute.path} className="border-t align-top">
+                      <td className="py-1 pr-2">
+                        {attribute.path}
+                        {attribute.forcesReplacement && (
+                          <span className="ml-1 px-1 rounded bg-orange-100 text-orange-700 font-sans">forces replacement</span>
+                        )}
+                      </td>
+                      <td className="py-1 pr-2 text-red-700">{renderValue(attribute.before, attribute.sensitive)}</td>
+                      <td className="py-1 text-green-700">{renderValue(attribute.after, attribute.sensitive)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-xs text-gray-500">No attribute changes shown in the plan</p>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const renderModule = (node: PlanModuleNode, depth: number): React.ReactNode => {
+    const key = node.path.join("/")
+    const collapsed = collapsedModules.has(key)
+
+    const content = (
+      <>
+        {node.resources.map(renderResource)}
+        {node.modules.map(module => renderModule(module, depth + 1))}
+      </>
+    )
+    if (depth === 0) return content
+
+    return (
+      <div key={key} className="border-t first:border-t-0">
+        <button
+          onClick={() => setCollapsedModules(current => toggle(current, key))}
+          className="w-full flex items-center gap-2 px-2 py-1.5 text-left text-sm font-medium bg-gray-50 hover:bg-gray-100"
+        >
+          {collapsed
+            ? <ChevronRight className="h-3 w-3 flex-shrink-0" />
+            : <ChevronDown className="h-3 w-3 flex-shrink-0" />}
+          <Folder className="h-4 w-4 text-gray-500" />
+          <span className="font-mono text-xs">module.{node.name}</span>
+        </button>
+        {!collapsed && <div className="ml-4 border-l">{content}</div>}
+      </div>
+    )
+  }
+
+  const hasMatches = tree.resources.length > 0 || tree.modules.length > 0
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter by address or attribute"
+            className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        {RESOURCE_ACTIONS.filter(action => counts[action]).map(action => (
+          <button
+            key={action}
+            onClick={() => setActions(current => toggle(current, action))}
+            className={`px-2 py-1 rounded text-xs border ${
+              actions.has(action) ? `${ACTION_STYLES[action].badge} border-transparent` : "bg-white text-gray-400 border-gray-200"
+            }`}
+          >
+            {ACTION_STYLES[action].label}: {counts[action]}
+          </button>
+        ))}
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setExpandedResources(
+            expandedResources.size > 0 ? new Set() : new Set(resources.map(resource => resource.address))
+          )}
+        >
+          {expandedResources.size > 0 ? "Collapse all" : "Expand all"}
+        </Button>
+      </div>
+
+      <div className="border rounded-lg divide-y overflow-hidden">
+        {hasMatches ? renderModule(tree, 0) : (
+          <p className="px-3 py-6 text-center text-sm text-gray-500">No resource changes match the filters</p>
+        )}
+      </div>
+    </div>
+  )
+}
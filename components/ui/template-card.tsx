@@ -13,6 +13,7 @@ import {
 } from "lucide-react"
 import { Button } from "./button"
 import { useState } from "react"
+import { TemplateCategoryInfo } from "@/lib/templates/template-categories"
 
 interface TemplateCardProps {
   template: {
@@ -20,7 +21,7 @@ interface TemplateCardProps {
     templateId: string
     name: string
     description: string
-    category: string
+    category: TemplateCategoryInfo | null
     icon: string
     githubUrl: string
     branch: string
@@ -62,9 +63,11 @@ export function TemplateCard({ template, onDelete, className }: TemplateCardProp
             <div className="text-4xl">{template.icon || "📦"}</div>
             <div className="flex-1 min-w-0">
               <h3 className="font-semibold text-lg text-gray-900 truncate">{template.name}</h3>
-              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
-                {template.category}
-              </span>
+              {template.category && (
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                  {template.category.name}
+                </span>
+              )}
             </div>
           </div>
           <button className="text-gray-400 hover:text-gray-600 transition-colors">
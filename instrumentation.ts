@@ -0,0 +1,7 @@
+export async function register() {
+  // Timers only make sense in the Node.js server, not in the edge runtime
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  const { startTemplateDiscoverySchedule } = await import("@/lib/templates/template-discovery")
+  startTemplateDiscoverySchedule()
+}
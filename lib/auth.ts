@@ -11,7 +11,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       clientSecret: process.env.GITHUB_SECRET!,
       authorization: {
         params: {
-          scope: "read:user user:email repo"
+          scope: "read:user user:email repo read:org" // read:org lists organizations and teams for new repos
         }
       }
     })
@@ -0,0 +1,425 @@
+import { randomUUID } from "crypto"
+import { after } from "next/server"
+import { Octokit } from "@octokit/rest"
+import { Deployment, DeploymentKind, DeploymentStatus, Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { TerraformPlanSummary, fetchTerraformPlan } from "@/lib/deployments/terraform-plan"
+import { DEPLOY_CORRELATION_INPUT } from "@/lib/templates/template-validation"
+
+// Project workflows recorded as deployments
+export const DEPLOYMENT_WORKFLOWS: Record<string, DeploymentKind> = {
+  "tfplan.yml": "PLAN",
+  "tfapply.yml": "APPLY"
+}
+
+// Most recent repository runs read on every refresh
+const RECENT_RUNS_LIMIT = 20
+// Clock difference tolerated between the portal and GitHub when matching a dispatched run
+const DISPATCH_MATCH_WINDOW_MS = 60 * 1000
+// GitHub creates the run within seconds of the dispatch; older unmatched dispatches are given up
+const DISPATCH_TIMEOUT_MS = 15 * 60 * 1000
+// Polls for the run of a correlated dispatch before the deploy route answers
+const DISPATCH_RESOLVE_ATTEMPTS = 5
+const DISPATCH_RESOLVE_DELAY_MS = 2000
+// Correlation ids are random UUIDs
+const CORRELATION_ID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i
+
+export type WorkflowRun = Awaited<ReturnType<Octokit["rest"]["actions"]["getWorkflowRun"]>>["data"]
+
+const deploymentInclude = {
+  triggeredBy: { select: { name: true, email: true } }
+} as const
+
+type DeploymentWithUser = Prisma.DeploymentGetPayload<{ include: typeof deploymentInclude }>
+
+export interface DeploymentEntry {
+  id: string
+  runId: number | null // Set once the run is confirmed
+  correlationId: string | null
+  runNumber: number | null
+  kind: DeploymentKind
+  workflow: string
+  branch: string
+  commitSha: string | null
+  htmlUrl: string | null
+  status: DeploymentStatus
+  conclusion: string | null
+  triggeredBy: string | null // Portal user, null for runs started on GitHub
+  planSummary: TerraformPlanSummary | null
+  startedAt: Date | null
+  completedAt: Date | null
+  createdAt: Date
+}
+
+export interface DispatchDeploymentInput {
+  projectId: string
+  workflowFile: string // One of DEPLOYMENT_WORKFLOWS
+  branch: string
+  triggeredById: string
+}
+
+// Tracked workflow file a run belongs to, from its path
+export function deploymentWorkflowFile(path: string | null | undefined): string | null {
+  return Object.keys(DEPLOYMENT_WORKFLOWS).find(file => path?.includes(file)) || null
+}
+
+/**
+ * Record a deployment and dispatch its workflow with a new correlation id.
+ * The record is written first so a workflow_run webhook arriving before the
+ * dispatch returns finds it; it is deleted when the dispatch fails.
+ * Workflows that do not declare the correlation_id input are dispatched again
+ * without it (correlationId null); their run is matched by time. The
+ * dispatch API does not return the run, so it is linked once GitHub reports
+ * it (resolveDispatchedRun, refreshDeployments or the webhook).
+ */
+export async function dispatchDeployment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  input: DispatchDeploymentInput
+): Promise<DeploymentEntry> {
+  const { workflowFile, branch } = input
+  const deployment = await prisma.deployment.create({
+    data: {
+      projectId: input.projectId,
+      kind: DEPLOYMENT_WORKFLOWS[workflowFile],
+      workflowFile,
+      branch,
+      triggeredById: input.triggeredById,
+      correlationId: randomUUID()
+    }
+  })
+
+  try {
+    try {
+      await octokit.rest.actions.createWorkflowDispatch({
+        owner,
+        repo,
+        workflow_id: workflowFile,
+        ref: branch,
+        inputs: { branch, [DEPLOY_CORRELATION_INPUT]: deployment.correlationId! }
+      })
+    } catch (error) {
+      const { status, message } = error as { status?: number; message?: string }
+      if (status !== 422 || !message?.includes("Unexpected inputs provided")) throw error
+
+      await octokit.rest.actions.createWorkflowDispatch({
+        owner,
+        repo,
+        workflow_id: workflowFile,
+        ref: branch,
+        inputs: { branch }
+      })
+      // Only if the run was not linked meanwhile (matched by time)
+      await prisma.deployment.updateMany({
+        where: { id: deployment.id, runId: null },
+        data: { correlationId: null }
+      })
+    }
+  } catch (error) {
+    await prisma.deployment.delete({ where: { id: deployment.id } })
+    throw error
+  }
+
+  const recorded = await prisma.deployment.findUniqueOrThrow({
+    where: { id: deployment.id },
+    include: deploymentInclude
+  })
+  return serializeDeployment(recorded)
+}
+
+/**
+ * Wait for the run of a correlated dispatch and link it to the deployment.
+ * The entry keeps runId null when GitHub has not listed the run yet; it is
+ * then linked later by refreshDeployments or the webhook.
+ */
+export async function resolveDispatchedRun(
+  deploymentId: string,
+  octokit: Octokit,
+  owner: string,
+  repo: string
+): Promise<DeploymentEntry | null> {
+  const deployment = await prisma.deployment.findUnique({ where: { id: deploymentId } })
+  if (!deployment) return null
+
+  const correlationId = deployment.correlationId
+  if (correlationId && deployment.runId === null) {
+    for (let attempt = 0; attempt < DISPATCH_RESOLVE_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, DISPATCH_RESOLVE_DELAY_MS))
+      try {
+        const { data } = await octokit.rest.actions.listWorkflowRuns({
+          owner,
+          repo,
+          workflow_id: deployment.workflowFile,
+          branch: deployment.branch,
+          event: "workflow_dispatch",
+          created: `>=${new Date(deployment.createdAt.getTime() - DISPATCH_MATCH_WINDOW_MS).toISOString()}`,
+          per_page: 20
+        })
+        const run = data.workflow_runs.find(run => run.display_title.includes(correlationId))
+        if (run) {
+          await recordWorkflowRun(deployment.projectId, run, octokit, owner, repo)
+          break
+        }
+      } catch (error) {
+        console.error(`Error looking up the run of dispatch ${correlationId}:`, error)
+        break
+      }
+    }
+  }
+
+  const resolved = await prisma.deployment.findUnique({
+    where: { id: deploymentId },
+    include: deploymentInclude
+  })
+  return resolved && serializeDeployment(resolved)
+}
+
+/**
+ * Bring the project's deployments up to date with GitHub: link dispatched
+ * deployments to their runs, update unfinished runs and record the runs
+ * started outside the portal
+ */
+export async function refreshDeployments(projectId: string, octokit: Octokit, owner: string, repo: string) {
+  const { data } = await octokit.rest.actions.listWorkflowRunsForRepo({
+    owner,
+    repo,
+    per_page: RECENT_RUNS_LIMIT
+  })
+
+  // Oldest first, so dispatches are matched in the order they were made
+  const runs = data.workflow_runs.filter(run => deploymentWorkflowFile(run.path)).reverse()
+  const runIds = runs.map(run => BigInt(run.id))
+
+  for (const run of runs) {
+    try {
+      await recordWorkflowRun(projectId, run, octokit, owner, repo)
+    } catch (error) {
+      console.error(`Error recording workflow run ${run.id}:`, error)
+    }
+  }
+
+  // Unfinished runs that dropped out of the recent list
+  const unfinished = await prisma.deployment.findMany({
+    where: { projectId, status: { not: "COMPLETED" }, runId: { not: null, notIn: runIds } }
+  })
+  for (const deployment of unfinished) {
+    try {
+      const { data: run } = await octokit.rest.actions.getWorkflowRun({
+        owner,
+        repo,
+        run_id: Number(deployment.runId)
+      })
+      await updateFromRun(deployment, run, octokit, owner, repo)
+    } catch (error) {
+      console.error(`Error checking workflow run ${deployment.runId}:`, error)
+    }
+  }
+
+  await prisma.deployment.updateMany({
+    where: {
+      projectId,
+      runId: null,
+      status: { not: "COMPLETED" },
+      createdAt: { lt: new Date(Date.now() - DISPATCH_TIMEOUT_MS) }
+    },
+    data: { status: "COMPLETED", conclusion: "run_not_found" }
+  })
+}
+
+/**
+ * Record the current state of a workflow run of the project: update its
+ * deployment, link it to the portal dispatch that started it or record it as
+ * started on GitHub. Runs of other workflows are ignored (returns null).
+ * With deferPlanSummary the plan of a completed run is read after the
+ * response is sent (webhooks must answer quickly).
+ */
+export async function recordWorkflowRun(
+  projectId: string,
+  run: WorkflowRun,
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  deferPlanSummary = false
+): Promise<Deployment | null> {
+  const workflowFile = deploymentWorkflowFile(run.path)
+  if (!workflowFile) return null
+
+  const runKey = { projectId_runId: { projectId, runId: BigInt(run.id) } }
+  const existing = await prisma.deployment.findUnique({ where: runKey })
+
+  // Pending portal dispatches first: a run already recorded as started on
+  // GitHub (reported before its dispatch was saved) is moved to its dispatch
+  const startedOnGitHub = existing && existing.triggeredById === null && existing.correlationId === null
+  const dispatched = run.event === "workflow_dispatch" && (!existing || startedOnGitHub) &&
+    await findDispatchedDeployment(projectId, workflowFile, run)
+  if (dispatched) {
+    if (existing) {
+      await prisma.deployment.delete({ where: { id: existing.id } })
+    }
+    return updateFromRun(dispatched, run, octokit, owner, repo, deferPlanSummary)
+  }
+
+  if (existing) {
+    // A re-run of a completed run is a new attempt; older attempts are not applied again
+    const attempt = run.run_attempt ?? 1
+    const current = existing.status === "COMPLETED" ? attempt <= existing.runAttempt : attempt < existing.runAttempt
+    return current ? existing : updateFromRun(existing, run, octokit, owner, repo, deferPlanSummary)
+  }
+
+  const deployment = await prisma.deployment.upsert({
+    where: runKey,
+    create: {
+      projectId,
+      kind: DEPLOYMENT_WORKFLOWS[workflowFile],
+      workflowFile,
+      branch: run.head_branch || "",
+      ...runData(run)
+    },
+    update: runData(run)
+  })
+  await savePlanSummaryOnCompletion(deployment, octokit, owner, repo, deferPlanSummary)
+  return deployment
+}
+
+/**
+ * Latest deployments of a project, newest first, with the total recorded
+ */
+export async function getDeploymentHistory(projectId: string, take: number) {
+  const [deployments, total] = await Promise.all([
+    prisma.deployment.findMany({
+      where: { projectId },
+      include: deploymentInclude,
+      orderBy: { createdAt: "desc" },
+      take
+    }),
+    prisma.deployment.count({ where: { projectId } })
+  ])
+
+  return { deployments: deployments.map(serializeDeployment), total }
+}
+
+// Keep the summary of a plan read from its logs on the deployment
+export async function saveDeploymentPlanSummary(projectId: string, runId: number, summary: TerraformPlanSummary) {
+  await prisma.deployment.updateMany({
+    where: { projectId, runId: BigInt(runId) },
+    data: { planSummary: { ...summary } }
+  })
+}
+
+/**
+ * Portal dispatch a run belongs to: the one whose correlation id is in the run
+ * name or, for runs without one in their name, the oldest dispatch made
+ * before the run was created. Workflows without the correlation_id input, or
+ * that accept it but leave it out of their run-name, are matched by time.
+ */
+async function findDispatchedDeployment(projectId: string, workflowFile: string, run: WorkflowRun) {
+  const candidates = await prisma.deployment.findMany({
+    // Dispatches given up as run_not_found are no longer matched
+    where: { projectId, runId: null, status: { not: "COMPLETED" }, workflowFile, branch: run.head_branch || "" },
+    orderBy: { createdAt: "asc" }
+  })
+
+  const correlated = candidates.find(d => d.correlationId && run.display_title.includes(d.correlationId))
+  if (correlated) return correlated
+
+  // A run named with the correlation id of another dispatch never matches a correlated one by time
+  const titledWithCorrelationId = CORRELATION_ID_PATTERN.test(run.display_title)
+  const createdAt = new Date(run.created_at).getTime()
+  return candidates.find(d =>
+    (!d.correlationId || !titledWithCorrelationId) &&
+    d.createdAt.getTime() <= createdAt + DISPATCH_MATCH_WINDOW_MS
+  ) || null
+}
+
+async function updateFromRun(
+  deployment: Deployment,
+  run: WorkflowRun,
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  deferPlanSummary = false
+) {
+  const updated = await prisma.deployment.update({
+    where: { id: deployment.id },
+    data: {
+      ...runData(run),
+      // The plan of a previous attempt no longer applies
+      ...(deployment.runAttempt !== (run.run_attempt ?? 1) ? { planSummary: Prisma.DbNull } : {})
+    }
+  })
+  await savePlanSummaryOnCompletion(updated, octokit, owner, repo, deferPlanSummary)
+  return updated
+}
+
+// Successful plans keep their summary so the history does not need the logs again
+async function savePlanSummaryOnCompletion(
+  deployment: Deployment,
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  defer = false
+) {
+  if (
+    deployment.kind !== "PLAN" ||
+    deployment.status !== "COMPLETED" ||
+    deployment.conclusion !== "success" ||
+    deployment.planSummary !== null ||
+    deployment.runId === null
+  ) return
+
+  if (defer) {
+    after(() => savePlanSummaryOnCompletion(deployment, octokit, owner, repo))
+    return
+  }
+
+  try {
+    const plan = await fetchTerraformPlan(octokit, owner, repo, Number(deployment.runId))
+    if (plan) {
+      await saveDeploymentPlanSummary(deployment.projectId, Number(deployment.runId), plan.summary)
+    }
+  } catch (error) {
+    console.error(`Error reading the plan of workflow run ${deployment.runId}:`, error)
+  }
+}
+
+function runData(run: WorkflowRun) {
+  return {
+    runId: BigInt(run.id),
+    runAttempt: run.run_attempt ?? 1,
+    runNumber: run.run_number,
+    commitSha: run.head_sha,
+    htmlUrl: run.html_url,
+    status: runStatus(run.status),
+    conclusion: run.conclusion,
+    startedAt: run.run_started_at ? new Date(run.run_started_at) : null,
+    completedAt: run.status === "completed" ? new Date(run.updated_at) : null
+  }
+}
+
+function runStatus(status: string | null): DeploymentStatus {
+  if (status === "completed") return "COMPLETED"
+  if (status === "in_progress") return "IN_PROGRESS"
+  return "QUEUED" // queued, requested, waiting or pending
+}
+
+function serializeDeployment(deployment: DeploymentWithUser): DeploymentEntry {
+  return {
+    id: deployment.id,
+    runId: deployment.runId === null ? null : Number(deployment.runId),
+    correlationId: deployment.correlationId,
+    runNumber: deployment.runNumber,
+    kind: deployment.kind,
+    workflow: deployment.workflowFile,
+    branch: deployment.branch,
+    commitSha: deployment.commitSha,
+    htmlUrl: deployment.htmlUrl,
+    status: deployment.status,
+    conclusion: deployment.conclusion,
+    triggeredBy: deployment.triggeredBy ? deployment.triggeredBy.name || deployment.triggeredBy.email : null,
+    planSummary: deployment.planSummary as TerraformPlanSummary | null,
+    startedAt: deployment.startedAt,
+    completedAt: deployment.completedAt,
+    createdAt: deployment.createdAt
+  }
+}
@@ -0,0 +1,395 @@
+// Shared by the plan routes and the plan components, so no server-only imports here
+
+export type ResourceAction = "create" | "update" | "delete" | "replace" | "read"
+
+export interface AttributeChange {
+  path: string // e.g. tags.Name, ingress[0].cidr_blocks[1]
+  before: string | null // As rendered by Terraform, null when the attribute is absent
+  after: string | null
+  sensitive: boolean
+  knownAfterApply: boolean
+  forcesReplacement: boolean
+}
+
+export interface ResourceChange {
+  address: string
+  modulePath: string[] // Module calls from the root, e.g. ["network", "subnets[\"a\"]"]
+  mode: "managed" | "data"
+  type: string
+  name: string
+  action: ResourceAction
+  reason?: string // Why Terraform chose the action, e.g. tainted or replacement requested
+  attributes: AttributeChange[]
+}
+
+export interface PlanModuleNode {
+  name: string // Empty for the root module
+  path: string[]
+  resources: ResourceChange[]
+  modules: PlanModuleNode[]
+}
+
+// Order in which actions are listed, most destructive first
+export const RESOURCE_ACTIONS: ResourceAction[] = ["replace", "delete", "update", "create", "read"]
+
+const HEADER_PATTERN = /^\s*# (.+?) ((?:will|must) be .+|is tainted, so must be replaced.*)$/
+const HEADER_ACTIONS: [string, ResourceAction][] = [
+  ["will be created", "create"],
+  ["will be destroyed", "delete"],
+  ["will be updated in-place", "update"],
+  ["must be replaced", "replace"],
+  ["will be replaced", "replace"],
+  ["will be read during apply", "read"]
+]
+const BLOCK_PATTERN = /^\s*(?:[-+~]|-\/\+|\+\/-|<=)?\s*(resource|data) "([^"]+)" "([^"]+)" \{\s*$/
+const MARKER_PATTERN = /^(-\/\+|\+\/-|<=|[-+~])?\s*(.*)$/
+const ATTRIBUTE_PATTERN = /^("(?:[^"\\]|\\.)*"|[\w.-]+)\s*=\s*(.*)$/
+// GitHub Actions prefixes every log line with its timestamp
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z\s?/
+
+// Fields of the Terraform JSON plan format (terraform show -json) read here
+interface JsonPlan {
+  format_version?: string
+  resource_changes?: JsonResourceChange[]
+}
+
+interface JsonResourceChange {
+  address: string
+  mode: "managed" | "data"
+  type: string
+  name: string
+  action_reason?: string
+  change: {
+    actions: string[]
+    before: unknown
+    after: unknown
+    after_unknown?: unknown
+    before_sensitive?: unknown
+    after_sensitive?: unknown
+    replace_paths?: (string | number)[][]
+  }
+}
+
+interface OpenCollection {
+  segment: string
+  marker: string
+  items: number // List items seen, to index them
+}
+
+/**
+ * Resource changes of the human-readable plan output (terraform plan without
+ * -json). Only changed attributes are kept; a resource printed twice keeps
+ * its first occurrence.
+ */
+export function parsePlanResources(output: string): ResourceChange[] {
+  const lines = output
+    .split("\n")
+    .map(line => line.replace(/\x1b\[[0-9;]*m/g, "").replace(TIMESTAMP_PATTERN, "").replace(/\r$/, ""))
+  const resources = new Map<string, ResourceChange>()
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].match(HEADER_PATTERN)
+    const action = header && HEADER_ACTIONS.find(([text]) => header[2].includes(text))?.[1]
+    if (!header || !action) continue
+
+    const address = header[1]
+    const reasons: string[] = []
+    let j = i + 1
+    for (; j < lines.length && j <= i + 5; j++) {
+      const reason = lines[j].match(/^\s*# \((.+)\)\s*$/)
+      if (reason) {
+        reasons.push(reason[1])
+      } else {
+        break
+      }
+    }
+
+    const block = lines[j]?.match(BLOCK_PATTERN)
+    if (!block) continue
+
+    const { attributes, end } = parseBody(lines, j + 1)
+    i = end
+
+    if (resources.has(address)) continue
+    resources.set(address, {
+      address,
+      modulePath: parseAddress(address).modulePath,
+      mode: block[1] === "data" ? "data" : "managed",
+      type: block[2],
+      name: block[3],
+      action,
+      reason: reasons.length > 0 ? reasons.join("; ") : undefined,
+      attributes
+    })
+  }
+
+  return Array.from(resources.values())
+}
+
+/**
+ * Resource changes of a machine-readable plan (terraform show -json), or null
+ * when the document is not a Terraform plan. Sensitive values are masked as in
+ * the human-readable output, so they never leave the server.
+ */
+export function parsePlanJson(document: unknown): ResourceChange[] | null {
+  const plan = document as JsonPlan | null
+  if (!plan || typeof plan !== "object" || !plan.format_version) return null
+  if (!("resource_changes" in plan) && !("planned_values" in plan)) return null
+
+  return (plan.resource_changes || []).flatMap(resourceChange => {
+    const action = jsonAction(resourceChange.change.actions)
+    if (!action) return [] // no-op
+
+    return [{
+      address: resourceChange.address,
+      modulePath: parseAddress(resourceChange.address).modulePath,
+      mode: resourceChange.mode,
+      type: resourceChange.type,
+      name: resourceChange.name,
+      action,
+      reason: resourceChange.action_reason?.replace(/_/g, " "),
+      attributes: jsonAttributeChanges(resourceChange.change)
+    }]
+  })
+}
+
+// Module calls, mode, type and name of a resource address
+export function parseAddress(address: string) {
+  const modulePath: string[] = []
+  let rest = address
+  let match: RegExpMatchArray | null
+  while ((match = rest.match(/^module\.([^.[]+(?:\[[^\]]*\])?)\./))) {
+    modulePath.push(match[1])
+    rest = rest.substring(match[0].length)
+  }
+
+  const mode: ResourceChange["mode"] = rest.startsWith("data.") ? "data" : "managed"
+  if (mode === "data") rest = rest.substring("data.".length)
+  const dot = rest.indexOf(".")
+
+  return {
+    modulePath,
+    mode,
+    type: rest.substring(0, dot),
+    name: rest.substring(dot + 1)
+  }
+}
+
+/**
+ * Resources nested by module, in the order they were first seen
+ */
+export function buildPlanTree(resources: ResourceChange[]): PlanModuleNode {
+  const root: PlanModuleNode = { name: "", path: [], resources: [], modules: [] }
+
+  for (const resource of resources) {
+    let node = root
+    for (const name of resource.modulePath) {
+      let child = node.modules.find(module => module.name === name)
+      if (!child) {
+        child = { name, path: [...node.path, name], resources: [], modules: [] }
+        node.modules.push(child)
+      }
+      node = child
+    }
+    node.resources.push(resource)
+  }
+
+  return root
+}
+
+// Changed attributes of a resource block, up to the brace that closes it
+function parseBody(lines: string[], start: number): { attributes: AttributeChange[]; end: number } {
+  const attributes: AttributeChange[] = []
+  const stack: OpenCollection[] = []
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line || line.startsWith("#")) continue
+
+    // }, ], ) and their variants with a trailing "-> null" close the innermost collection
+    if (/^[}\])]/.test(line)) {
+      if (stack.length === 0) return { attributes, end: i }
+      stack.pop()
+      continue
+    }
+
+    const [, ownMarker = "", content] = line.match(MARKER_PATTERN)!
+    const parent = stack[stack.length - 1]
+    // Added or removed collections mark every value inside them
+    const marker = ownMarker || [...stack].reverse().find(s => s.marker === "+" || s.marker === "-")?.marker || ""
+
+    const attribute = content.match(ATTRIBUTE_PATTERN)
+    let segment: string
+    let value: string
+    if (attribute) {
+      segment = attribute[1].replace(/^"(.*)"$/, "$1")
+      value = attribute[2]
+    } else if (/^[\w-]+\s*\{$/.test(content)) {
+      // Nested block, e.g. ebs_block_device {
+      stack.push({ segment: content.replace(/\s*\{$/, ""), marker: ownMarker, items: 0 })
+      continue
+    } else {
+      // List item
+      segment = `[${parent ? parent.items++ : 0}]`
+      value = content
+    }
+
+    if (/[{[(]$/.test(value)) {
+      stack.push({ segment, marker: ownMarker, items: 0 })
+      continue
+    }
+
+    if (/^<<-?(\w+)$/.test(value)) {
+      // The closing line may carry the new value: EOT -> null
+      const terminator = value.replace(/^<<-?/, "")
+      const isEnd = (line: string) => line === terminator || line.startsWith(`${terminator} `)
+      const heredoc: string[] = []
+      while (i + 1 < lines.length && !isEnd(lines[i + 1].trim())) {
+        heredoc.push(lines[++i].trim())
+      }
+      const closing = lines[++i]?.trim() || terminator
+      value = heredoc.join("\n") + closing.substring(terminator.length)
+    }
+
+    if (!marker) continue // Unchanged, shown only for context
+
+    attributes.push(attributeChange(joinPath([...stack.map(s => s.segment), segment]), marker, value))
+  }
+
+  return { attributes, end: lines.length }
+}
+
+function attributeChange(path: string, marker: string, rendered: string): AttributeChange {
+  const forcesReplacement = /#\s*forces replacement\s*$/.test(rendered)
+  const value = rendered.replace(/\s*#\s*forces replacement\s*$/, "").replace(/,$/, "")
+  const arrow = findArrow(value)
+  const left = arrow === -1 ? value : value.substring(0, arrow)
+  const right = arrow === -1 ? value : value.substring(arrow + " -> ".length)
+
+  let before: string | null
+  let after: string | null
+  if (marker === "+") {
+    before = arrow === -1 ? null : left
+    after = right
+  } else if (marker === "-") {
+    before = left
+    after = arrow === -1 ? null : right
+  } else {
+    before = left
+    after = right
+  }
+  if (before === "null") before = null
+  if (after === "null") after = null
+
+  const isSensitive = (v: string | null) => v === "(sensitive value)" || v === "(sensitive)"
+  return {
+    path,
+    before,
+    after,
+    sensitive: isSensitive(before) || isSensitive(after),
+    knownAfterApply: after === "(known after apply)",
+    forcesReplacement
+  }
+}
+
+function jsonAction(actions: string[]): ResourceAction | null {
+  switch (actions.join(",")) {
+    case "create":
+      return "create"
+    case "delete":
+      return "delete"
+    case "update":
+      return "update"
+    case "read":
+      return "read"
+    case "delete,create":
+    case "create,delete":
+      return "replace"
+    default:
+      return null
+  }
+}
+
+function jsonAttributeChanges(change: JsonResourceChange["change"]): AttributeChange[] {
+  const before = flattenValues(change.before)
+  const after = flattenValues(change.after)
+  const unknown = markedPaths(change.after_unknown)
+  const sensitive = [...markedPaths(change.before_sensitive), ...markedPaths(change.after_sensitive)]
+  const replacePaths = (change.replace_paths || []).map(path =>
+    joinPath(path.map(segment => typeof segment === "number" ? `[${segment}]` : segment))
+  )
+
+  const paths = new Set([...before.keys(), ...after.keys(), ...unknown.filter(path => path)])
+  const attributes: AttributeChange[] = []
+  for (const path of paths) {
+    const knownAfterApply = isMarked(unknown, path)
+    const beforeValue = before.get(path) ?? null
+    const afterValue = knownAfterApply ? "(known after apply)" : after.get(path) ?? null
+    if (beforeValue === afterValue) continue
+
+    const isSensitive = isMarked(sensitive, path)
+    const mask = (value: string | null) =>
+      isSensitive && value !== null && value !== "(known after apply)" ? "(sensitive value)" : value
+
+    attributes.push({
+      path,
+      before: mask(beforeValue),
+      after: mask(afterValue),
+      sensitive: isSensitive,
+      knownAfterApply,
+      forcesReplacement: isMarked(replacePaths, path)
+    })
+  }
+
+  return attributes
+}
+
+// Leaf values by attribute path, rendered as JSON like the human-readable output
+function flattenValues(value: unknown, prefix = "", values = new Map<string, string>()) {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, index) => flattenValues(item, `${prefix}[${index}]`, values))
+  } else if (value && typeof value === "object" && !Array.isArray(value) && Object.keys(value).length > 0) {
+    for (const [key, item] of Object.entries(value)) {
+      flattenValues(item, prefix ? `${prefix}.${key}` : key, values)
+    }
+  } else if (prefix && value !== null && value !== undefined) {
+    values.set(prefix, JSON.stringify(value))
+  }
+  return values
+}
+
+// Paths set to true in an after_unknown or *_sensitive structure; "" marks the whole resource
+function markedPaths(value: unknown, prefix = ""): string[] {
+  if (value === true) return [prefix]
+  if (Array.isArray(value)) return value.flatMap((item, index) => markedPaths(item, `${prefix}[${index}]`))
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, item]) => markedPaths(item, prefix ? `${prefix}.${key}` : key))
+  }
+  return []
+}
+
+// Whether the path or one of its ancestors is marked
+function isMarked(marks: string[], path: string) {
+  return marks.some(mark =>
+    mark === "" || mark === path || path.startsWith(`${mark}.`) || path.startsWith(`${mark}[`))
+}
+
+// Index of the " -> " between the old and new value, ignoring quoted strings
+function findArrow(value: string): number {
+  let quoted = false
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\") {
+      i++
+    } else if (value[i] === "\"") {
+      quoted = !quoted
+    } else if (!quoted && value.startsWith(" -> ", i)) {
+      return i
+    }
+  }
+  return -1
+}
+
+function joinPath(segments: string[]) {
+  return segments.reduce((path, segment) =>
+    segment.startsWith("[") || !path ? path + segment : `${path}.${segment}`, "")
+}
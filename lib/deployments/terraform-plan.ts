@@ -0,0 +1,257 @@
+import { Octokit } from "@octokit/rest"
+import { ResourceChange, parsePlanJson, parsePlanResources } from "@/lib/deployments/terraform-plan-model"
+import { MAX_ARTIFACT_BYTES, downloadArtifactFiles } from "@/lib/github/artifacts"
+
+// Artifacts searched for the `terraform show -json` output, JSON ones first
+const PLAN_ARTIFACT_PATTERN = /plan/i
+
+export interface TerraformPlanSummary {
+  toAdd: number
+  toChange: number
+  toDestroy: number
+}
+
+export interface TerraformPlanOutput {
+  planText: string // Empty when read from the artifact
+  summary: TerraformPlanSummary
+  resources: ResourceChange[]
+  source: "artifact" | "logs"
+  artifactName?: string
+}
+
+// Plan output and its summary line, from the logs of a job
+export function extractTerraformPlan(logs: string): TerraformPlanOutput | null {
+  try {
+    // Look for the terraform plan section
+    // The plan output typically appears after "Terraform Plan" and before the next step
+    const planStartMarkers = [
+      "Terraform Plan",
+      "terraform plan",
+      "Running terraform plan",
+      "##[group]Run terraform plan",
+      "Run terraform plan",
+      "Terraform will perform the following actions:",
+      "Terraform used the selected providers"
+    ]
+    
+    const planEndMarkers = [
+      "##[endgroup]",
+      "Post Run actions",
+      "Cleaning up orphan processes",
+      "##[group]",
+      "::endgroup::"
+    ]
+    
+    let planStartIndex = -1
+    
+    // Find the start of the terraform plan output
+    for (const marker of planStartMarkers) {
+      const index = logs.indexOf(marker)
+      if (index !== -1 && (planStartIndex === -1 || index < planStartIndex)) {
+        planStartIndex = index
+      }
+    }
+    
+    if (planStartIndex === -1) {
+      return null
+    }
+    
+    // Move past the marker to the actual plan output
+    const planStart = logs.indexOf("\n", planStartIndex) + 1
+    
+    // Find the end of the terraform plan output
+    let planEndIndex = logs.length
+    for (const marker of planEndMarkers) {
+      const index = logs.indexOf(marker, planStart)
+      if (index !== -1 && index < planEndIndex) {
+        planEndIndex = index
+      }
+    }
+    
+    // Extract the plan text
+    let planText = logs.substring(planStart, planEndIndex).trim()
+    
+    // Look for the Plan summary line after the plan text if not included
+    const planSummaryPattern = /Plan:\s*\d+\s*to add,\s*\d+\s*to change,\s*\d+\s*to destroy/
+    const remainingLogs = logs.substring(planEndIndex)
+    const summaryMatch = remainingLogs.match(planSummaryPattern)
+    if (summaryMatch && remainingLogs.indexOf(summaryMatch[0]) < 200) {
+      // If the summary is found within 200 characters after the plan, include it
+      planText += "\n\n" + summaryMatch[0]
+    }
+    
+    // Clean up ANSI escape codes and GitHub Actions formatting
+    planText = planText
+      .replace(/\x1b\[[0-9;]*m/g, '') // Remove ANSI color codes
+      .replace(/##\[.*?\]/g, '') // Remove GitHub Actions markers
+      .replace(/\[command\]/g, '') // Remove command markers
+      .replace(/::group::/g, '') // Remove group markers
+      .replace(/::endgroup::/g, '') // Remove endgroup markers
+      .replace(/\u001b\[[0-9;]*m/g, '') // Remove more ANSI codes
+      .replace(/^.*terraform plan.*$/m, '') // Remove the terraform plan command line itself
+      .trim()
+    
+    // If the plan is too short, it might not be the actual plan
+    if (planText.length < 100) {
+      // Try to find the plan in a different way - look for common terraform plan patterns
+      const tfPlanPattern = /(?:Terraform will perform the following actions:|No changes\. Infrastructure is up-to-date\.|Plan:)[\s\S]*?(?:Plan:|─+|$)/
+      const match = logs.match(tfPlanPattern)
+      if (match) {
+        planText = match[0].trim()
+      }
+    }
+    
+    // Additional cleanup for common terraform plan output
+    if (planText.includes('Terraform will perform the following actions:') || 
+        planText.includes('No changes. Infrastructure is up-to-date.')) {
+      // Find the actual plan content
+      const planStartIdx = planText.search(/(?:Terraform will perform the following actions:|No changes\. Infrastructure is up-to-date\.|Refreshing state\.\.\.)/);
+      if (planStartIdx !== -1) {
+        planText = planText.substring(planStartIdx);
+      }
+    }
+    
+    // Extract summary information
+    // First check if the plan summary is in the full logs (not just in planText)
+    const fullSummaryMatch = logs.match(/Plan:\s*(\d+)\s*to add,\s*(\d+)\s*to change,\s*(\d+)\s*to destroy/)
+    const planSummaryMatch = planText.match(/Plan:\s*(\d+)\s*to add,\s*(\d+)\s*to change,\s*(\d+)\s*to destroy/)
+    
+    let summary = {
+      toAdd: 0,
+      toChange: 0,
+      toDestroy: 0
+    }
+    
+    if (fullSummaryMatch || planSummaryMatch) {
+      const match = (fullSummaryMatch || planSummaryMatch)!
+      summary = {
+        toAdd: parseInt(match[1]) || 0,
+        toChange: parseInt(match[2]) || 0,
+        toDestroy: parseInt(match[3]) || 0
+      }
+    } else {
+      // Try alternative formats
+      const addMatch = planText.match(/(\d+)\s*(?:resource\(s\)?|resources?)\s*to add/i)
+      const changeMatch = planText.match(/(\d+)\s*(?:resource\(s\)?|resources?)\s*to change/i)
+      const destroyMatch = planText.match(/(\d+)\s*(?:resource\(s\)?|resources?)\s*to destroy/i)
+      
+      if (addMatch) summary.toAdd = parseInt(addMatch[1]) || 0
+      if (changeMatch) summary.toChange = parseInt(changeMatch[1]) || 0
+      if (destroyMatch) summary.toDestroy = parseInt(destroyMatch[1]) || 0
+      
+      // Also check for the "No changes" case
+      if (planText.includes("No changes") || planText.includes("Infrastructure is up-to-date")) {
+        summary = { toAdd: 0, toChange: 0, toDestroy: 0 }
+      }
+    }
+    
+    return {
+      planText,
+      summary,
+      resources: parsePlanResources(logs),
+      source: "logs"
+    }
+  } catch (error) {
+    console.error("Error extracting terraform plan:", error)
+    return null
+  }
+}
+
+/**
+ * Terraform plan of a workflow run: the JSON plan uploaded as an artifact by
+ * the plan workflow or, when there is none, the plan printed in the logs of
+ * the first job that contains one
+ */
+export async function fetchTerraformPlan(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  runId: number
+): Promise<TerraformPlanOutput | null> {
+  try {
+    const plan = await fetchPlanArtifact(octokit, owner, repo, runId)
+    if (plan) return plan
+  } catch (error) {
+    console.error(`Error reading the plan artifact of workflow run ${runId}:`, error)
+  }
+
+  const { data: jobs } = await octokit.rest.actions.listJobsForWorkflowRun({
+    owner,
+    repo,
+    run_id: runId
+  })
+
+  for (const job of jobs.jobs) {
+    try {
+      const { data: logsData } = await octokit.rest.actions.downloadJobLogsForWorkflowRun({
+        owner,
+        repo,
+        job_id: job.id
+      })
+
+      // The logs are returned as a string
+      const plan = extractTerraformPlan(String(logsData))
+      if (plan) return plan
+    } catch (error) {
+      console.error(`Error fetching logs for job ${job.id}:`, error)
+    }
+  }
+
+  return null
+}
+
+// First artifact file that is a Terraform JSON plan
+async function fetchPlanArtifact(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  runId: number
+): Promise<TerraformPlanOutput | null> {
+  const { data } = await octokit.rest.actions.listWorkflowRunArtifacts({
+    owner,
+    repo,
+    run_id: runId,
+    per_page: 100
+  })
+
+  const artifacts = data.artifacts
+    .filter(artifact => !artifact.expired && PLAN_ARTIFACT_PATTERN.test(artifact.name))
+    .filter(artifact => artifact.size_in_bytes <= MAX_ARTIFACT_BYTES)
+    .sort((a, b) => Number(/json/i.test(b.name)) - Number(/json/i.test(a.name)))
+
+  for (const artifact of artifacts) {
+    // Only JSON files are inflated
+    const files = await downloadArtifactFiles(octokit, owner, repo, artifact.id, name => name.endsWith(".json"))
+    for (const content of files.values()) {
+      let document: unknown
+      try {
+        document = JSON.parse(content.toString("utf-8"))
+      } catch {
+        continue
+      }
+
+      const resources = parsePlanJson(document)
+      if (!resources) continue
+
+      return {
+        planText: "",
+        summary: summarizeResources(resources),
+        resources,
+        source: "artifact",
+        artifactName: artifact.name
+      }
+    }
+  }
+
+  return null
+}
+
+// Same counts as the "Plan: X to add, Y to change, Z to destroy" line
+function summarizeResources(resources: ResourceChange[]): TerraformPlanSummary {
+  const count = (action: ResourceChange["action"]) => resources.filter(r => r.action === action).length
+  return {
+    toAdd: count("create") + count("replace"),
+    toChange: count("update"),
+    toDestroy: count("delete") + count("replace")
+  }
+}
@@ -0,0 +1,97 @@
+import { inflateRawSync } from "zlib"
+import { Octokit } from "@octokit/rest"
+
+// Larger artifacts are not downloaded
+export const MAX_ARTIFACT_BYTES = 50 * 1024 * 1024
+// Larger files inside an artifact are skipped, whatever their compressed size
+export const MAX_ARTIFACT_FILE_BYTES = 100 * 1024 * 1024
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+/**
+ * Files of a workflow artifact, by path inside the archive, optionally only
+ * the ones `filter` accepts. The Actions API always serves artifacts as zip
+ * archives.
+ */
+export async function downloadArtifactFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  artifactId: number,
+  filter?: (name: string) => boolean
+): Promise<Map<string, Buffer>> {
+  const { data } = await octokit.rest.actions.downloadArtifact({
+    owner,
+    repo,
+    artifact_id: artifactId,
+    archive_format: "zip"
+  })
+
+  return unzip(Buffer.from(data as ArrayBuffer), filter)
+}
+
+/**
+ * Minimal zip reader: stored and deflated entries listed in the central
+ * directory. Entries `filter` rejects and entries larger than
+ * MAX_ARTIFACT_FILE_BYTES once extracted are skipped. Zip64 archives and
+ * encrypted entries are not supported.
+ */
+export function unzip(archive: Buffer, filter?: (name: string) => boolean): Map<string, Buffer> {
+  // The end of central directory record is followed by a comment of up to 64 KB
+  let end = -1
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw new Error("Invalid zip archive: end of central directory not found")
+
+  const entries = archive.readUInt16LE(end + 10)
+  let offset = archive.readUInt32LE(end + 16)
+  const files = new Map<string, Buffer>()
+
+  for (let i = 0; i < entries; i++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Invalid zip archive: corrupt central directory")
+    }
+
+    const method = archive.readUInt16LE(offset + 10)
+    const compressedSize = archive.readUInt32LE(offset + 20)
+    const uncompressedSize = archive.readUInt32LE(offset + 24)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const localHeader = archive.readUInt32LE(offset + 42)
+    const name = archive.toString("utf-8", offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith("/") || (filter && !filter(name))) continue
+    if (uncompressedSize > MAX_ARTIFACT_FILE_BYTES) continue
+
+    if (archive.readUInt32LE(localHeader) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid zip archive: missing header of ${name}`)
+    }
+    // Local extra fields may differ from the central directory ones
+    const dataStart = localHeader + 30 + archive.readUInt16LE(localHeader + 26) + archive.readUInt16LE(localHeader + 28)
+    const data = archive.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === 0) {
+      files.set(name, data)
+    } else if (method === 8) {
+      // The declared size may be wrong: the limit also applies while inflating
+      try {
+        files.set(name, inflateRawSync(data, { maxOutputLength: MAX_ARTIFACT_FILE_BYTES }))
+      } catch (error) {
+        if (error instanceof RangeError) continue
+        throw error
+      }
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ${name}`)
+    }
+  }
+
+  return files
+}
@@ -1,4 +1,5 @@
-import { Octokit } from "@octokit/rest"
+import { Octokit, RestEndpointMethodTypes } from "@octokit/rest"
+import { BranchProtectionProfile } from "@/lib/templates/project-templates"
 
 export function createGitHubClient(token?: string) {
   return new Octokit({
@@ -64,7 +65,8 @@ export async function setupBranchProtection(
   owner: string,
   repo: string,
   branch: string = "main",
-  userToken?: string
+  userToken?: string,
+  profile: BranchProtectionProfile = {}
 ) {
   const octokit = createGitHubClient(userToken)
   
@@ -73,16 +75,21 @@ export async function setupBranchProtection(
       owner,
       repo,
       branch,
-      required_status_checks: null, // No requerir checks por ahora
-      enforce_admins: false, // No aplicar a admins
+      required_status_checks: profile.requiredStatusChecks?.length
+        ? {
+            strict: profile.strictStatusChecks ?? true,
+            contexts: profile.requiredStatusChecks
+          }
+        : null, // Sin checks si el perfil no los declara
+      enforce_admins: profile.enforceAdmins ?? false, // No aplicar a admins
       required_pull_request_reviews: {
-        required_approving_review_count: 1,
-        dismiss_stale_reviews: true,
-        require_code_owner_reviews: false
+        required_approving_review_count: profile.requiredReviews ?? 1,
+        dismiss_stale_reviews: profile.dismissStaleReviews ?? true,
+        require_code_owner_reviews: profile.requireCodeOwnerReviews ?? false
       },
       restrictions: null,
-      allow_force_pushes: false,
-      allow_deletions: false
+      allow_force_pushes: profile.allowForcePushes ?? false,
+      allow_deletions: profile.allowDeletions ?? false
     })
   } catch (error) {
     console.error("Error setting up branch protection:", error)
@@ -90,6 +97,66 @@ export async function setupBranchProtection(
   }
 }
 
+export async function setupBranchRuleset(
+  owner: string,
+  repo: string,
+  pattern: string, // Patrón de branch, ej: release/*
+  userToken?: string,
+  profile: BranchProtectionProfile = {}
+) {
+  const octokit = createGitHubClient(userToken)
+  
+  // La protección clásica solo acepta branches existentes; los patrones usan rulesets
+  const rules: NonNullable<RestEndpointMethodTypes["repos"]["createRepoRuleset"]["parameters"]["rules"]> = [
+    {
+      type: "pull_request",
+      parameters: {
+        required_approving_review_count: profile.requiredReviews ?? 1,
+        dismiss_stale_reviews_on_push: profile.dismissStaleReviews ?? true,
+        require_code_owner_review: profile.requireCodeOwnerReviews ?? false,
+        require_last_push_approval: false,
+        required_review_thread_resolution: false
+      }
+    }
+  ]
+  
+  if (profile.requiredStatusChecks?.length) {
+    rules.push({
+      type: "required_status_checks",
+      parameters: {
+        strict_required_status_checks_policy: profile.strictStatusChecks ?? true,
+        required_status_checks: profile.requiredStatusChecks.map(context => ({ context }))
+      }
+    })
+  }
+  if (!profile.allowForcePushes) {
+    rules.push({ type: "non_fast_forward" })
+  }
+  if (!profile.allowDeletions) {
+    rules.push({ type: "deletion" })
+  }
+  
+  try {
+    await octokit.repos.createRepoRuleset({
+      owner,
+      repo,
+      name: `Protect ${pattern}`,
+      target: "branch",
+      enforcement: "active",
+      conditions: {
+        ref_name: {
+          include: [`refs/heads/${pattern}`],
+          exclude: []
+        }
+      },
+      rules
+    })
+  } catch (error) {
+    console.error("Error setting up branch ruleset:", error)
+    throw error
+  }
+}
+
 export async function createWorkflow(
   owner: string,
   repo: string,
@@ -111,4 +178,67 @@ export async function createWorkflow(
     console.error("Error creating workflow:", error)
     throw error
   }
-}
\ No newline at end of file
+}
+
+export interface GitHubOrganization {
+  login: string
+  avatarUrl: string
+  role: string // "admin" | "member"
+  canCreateRepositories: boolean
+}
+
+export interface GitHubTeam {
+  slug: string
+  name: string
+  description: string | null
+}
+
+export async function listUserOrganizations(userToken?: string): Promise<GitHubOrganization[]> {
+  const octokit = createGitHubClient(userToken)
+  
+  try {
+    const memberships = await octokit.paginate(octokit.orgs.listMembershipsForAuthenticatedUser, {
+      state: "active",
+      per_page: 100
+    })
+    
+    return await Promise.all(memberships.map(async (membership) => {
+      // Los admins siempre pueden crear repos; los miembros según la configuración de la org
+      let canCreateRepositories = membership.role === "admin"
+      if (!canCreateRepositories) {
+        try {
+          const { data: org } = await octokit.orgs.get({ org: membership.organization.login })
+          canCreateRepositories = org.members_can_create_repositories !== false
+        } catch {
+          canCreateRepositories = false
+        }
+      }
+      
+      return {
+        login: membership.organization.login,
+        avatarUrl: membership.organization.avatar_url,
+        role: membership.role,
+        canCreateRepositories
+      }
+    }))
+  } catch (error) {
+    console.error("Error listing organizations:", error)
+    throw error
+  }
+}
+
+export async function listOrganizationTeams(org: string, userToken?: string): Promise<GitHubTeam[]> {
+  const octokit = createGitHubClient(userToken)
+  
+  try {
+    const teams = await octokit.paginate(octokit.teams.list, { org, per_page: 100 })
+    return teams.map(team => ({
+      slug: team.slug,
+      name: team.name,
+      description: team.description
+    }))
+  } catch (error) {
+    console.error("Error listing organization teams:", error)
+    throw error
+  }
+}
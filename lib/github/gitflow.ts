@@ -0,0 +1,216 @@
+import { createGitHubClient, setupBranchProtection, setupBranchRuleset } from "@/lib/github/client"
+import { BranchProtectionProfile, GitflowConfig } from "@/lib/templates/project-templates"
+
+export interface GitflowBranchResult {
+  branch: string // Nombre del branch o patrón (release/*)
+  isDefault: boolean
+  pattern: boolean // Patrón: se protege con un ruleset, no se crea ningún branch
+  created: boolean
+  protected: boolean
+  error?: string
+}
+
+// Perfil usado cuando el manifest no declara `gitflow.protection`
+const DEFAULT_PROTECTION: BranchProtectionProfile = {
+  requiredReviews: 1,
+  dismissStaleReviews: true,
+  requiredStatusChecks: [],
+  allowForcePushes: false,
+  allowDeletions: false
+}
+
+export interface GitflowBranchPlan {
+  branch: string // Nombre del branch o patrón (release/*)
+  isDefault: boolean
+  pattern: boolean
+  protection?: BranchProtectionProfile
+}
+
+// Prefijos de gitflow: no se crean branches, solo se protegen como patrón
+const BRANCH_PREFIXES = {
+  feature: "feature/*",
+  release: "release/*",
+  hotfix: "hotfix/*"
+} as const
+
+/**
+ * Crear los branches declarados en el manifest, fijar el branch por defecto
+ * y aplicar la protección de cada branch. Los branches concretos que solo
+ * aparecen en `gitflow.protection` también se crean; los patrones se protegen
+ * con un ruleset y se reportan con `pattern: true`. Los errores se reportan
+ * por branch sin interrumpir el resto del proceso.
+ */
+export async function provisionGitflow(
+  owner: string,
+  repo: string,
+  gitflow: GitflowConfig,
+  userToken?: string
+): Promise<GitflowBranchResult[]> {
+  const octokit = createGitHubClient(userToken)
+  const results: GitflowBranchResult[] = []
+  const branches = gitflow.branches || {}
+
+  const { data: repoData } = await octokit.repos.get({ owner, repo })
+  const defaultBranch = gitflow.defaultBranch || repoData.default_branch
+
+  const { data: headRef } = await octokit.git.getRef({
+    owner,
+    repo,
+    ref: `heads/${repoData.default_branch}`
+  })
+  const headSha = headRef.object.sha
+
+  // 1. Branches concretos: el branch por defecto y develop
+  const namedBranches = [defaultBranch]
+  if (branches.develop && defaultBranch !== "develop") {
+    namedBranches.push("develop")
+  }
+
+  for (const branch of namedBranches) {
+    const result: GitflowBranchResult = {
+      branch,
+      isDefault: branch === defaultBranch,
+      pattern: false,
+      created: false,
+      protected: false
+    }
+    results.push(result)
+
+    try {
+      result.created = await ensureBranch(octokit, owner, repo, branch, headSha)
+
+      if (result.isDefault && repoData.default_branch !== branch) {
+        await octokit.repos.update({ owner, repo, default_branch: branch })
+        console.log(`Default branch set to ${branch}`)
+      }
+    } catch (error) {
+      console.error(`Error creating branch ${branch}:`, error)
+      result.error = `Could not create branch: ${errorMessage(error)}`
+    }
+  }
+
+  // 2. Patrones de gitflow habilitados (feature/*, release/*, hotfix/*)
+  for (const [key, pattern] of Object.entries(BRANCH_PREFIXES)) {
+    if (branches[key as keyof typeof BRANCH_PREFIXES]) {
+      results.push({ branch: pattern, isDefault: false, pattern: true, created: false, protected: false })
+    }
+  }
+
+  // 3. Protección por branch
+  const profiles = resolveProtectionProfiles(gitflow, results.map(r => r.branch), defaultBranch)
+
+  for (const [target, profile] of Object.entries(profiles)) {
+    let result = results.find(r => r.branch === target)
+    if (!result) {
+      // Branch o patrón que solo aparece en `gitflow.protection`
+      result = { branch: target, isDefault: false, pattern: isPattern(target), created: false, protected: false }
+      results.push(result)
+
+      if (!result.pattern) {
+        try {
+          result.created = await ensureBranch(octokit, owner, repo, target, headSha)
+        } catch (error) {
+          console.error(`Error creating branch ${target}:`, error)
+          result.error = `Could not create branch: ${errorMessage(error)}`
+        }
+      }
+    }
+    if (result.error) continue
+
+    try {
+      if (result.pattern) {
+        await setupBranchRuleset(owner, repo, target, userToken, profile)
+      } else {
+        await setupBranchProtection(owner, repo, target, userToken, profile)
+      }
+      result.protected = true
+      console.log(`Applied branch protection to ${target}`)
+    } catch (error) {
+      result.error = `Could not apply protection: ${errorMessage(error)}`
+    }
+  }
+
+  return results
+}
+
+/**
+ * Branches y protección que provisionGitflow aplicaría, sin tocar GitHub.
+ * Se usa para la vista previa de un proyecto antes de crearlo.
+ */
+export function planGitflow(gitflow: GitflowConfig, sourceDefaultBranch: string): GitflowBranchPlan[] {
+  const branches = gitflow.branches || {}
+  const defaultBranch = gitflow.defaultBranch || sourceDefaultBranch
+
+  const plan: GitflowBranchPlan[] = [{ branch: defaultBranch, isDefault: true, pattern: false }]
+  if (branches.develop && defaultBranch !== "develop") {
+    plan.push({ branch: "develop", isDefault: false, pattern: false })
+  }
+  for (const [key, pattern] of Object.entries(BRANCH_PREFIXES)) {
+    if (branches[key as keyof typeof BRANCH_PREFIXES]) {
+      plan.push({ branch: pattern, isDefault: false, pattern: true })
+    }
+  }
+
+  const profiles = resolveProtectionProfiles(gitflow, plan.map(p => p.branch), defaultBranch)
+  for (const [target, profile] of Object.entries(profiles)) {
+    const entry = plan.find(p => p.branch === target)
+    if (entry) {
+      entry.protection = profile
+    } else {
+      plan.push({ branch: target, isDefault: false, pattern: isPattern(target), protection: profile })
+    }
+  }
+
+  return plan
+}
+
+/**
+ * Perfiles de protección por branch: los del manifest, o el perfil por defecto
+ * para el branch principal, develop, release/* y hotfix/*
+ */
+function resolveProtectionProfiles(
+  gitflow: GitflowConfig,
+  branches: string[],
+  defaultBranch: string
+): Record<string, BranchProtectionProfile> {
+  if (gitflow.protection && typeof gitflow.protection === "object") {
+    return gitflow.protection
+  }
+
+  const protectedByDefault = [defaultBranch, "develop", BRANCH_PREFIXES.release, BRANCH_PREFIXES.hotfix]
+  return Object.fromEntries(
+    branches
+      .filter(branch => protectedByDefault.includes(branch))
+      .map(branch => [branch, DEFAULT_PROTECTION])
+  )
+}
+
+function isPattern(branch: string): boolean {
+  return branch.includes("*")
+}
+
+/**
+ * Crear un branch desde `sha` si no existe. Devuelve true si se creó.
+ */
+async function ensureBranch(
+  octokit: ReturnType<typeof createGitHubClient>,
+  owner: string,
+  repo: string,
+  branch: string,
+  sha: string
+): Promise<boolean> {
+  try {
+    await octokit.git.getRef({ owner, repo, ref: `heads/${branch}` })
+    return false
+  } catch (error) {
+    if ((error as { status?: number }).status !== 404) throw error
+  }
+
+  await octokit.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha })
+  console.log(`Created branch: ${branch}`)
+  return true
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -1,16 +1,222 @@
-import { Octokit } from "@octokit/rest"
+import { createHash } from "crypto"
+import { Octokit, RestEndpointMethodTypes } from "@octokit/rest"
+import { TemplateParameterValues, replaceTemplateVariables } from "@/lib/templates/template-parameters"
+import { conflictText, mergeText } from "@/lib/templates/three-way-merge"
+import { PathRuleSet, buildPathRules, matchPathRules } from "@/lib/templates/path-rules"
+import { matchesGlob } from "@/lib/utils"
 
 export interface RepoCloneOptions {
   sourceOwner: string
   sourceRepo: string
+  sourceRef?: string // Tag, branch, commit or full ref (refs/tags/...) to copy (defaults to the source default branch)
   targetName: string
   targetDescription?: string
   isPrivate?: boolean
   includeBranches?: boolean
+  branchPatterns?: string[] // Glob patterns of branches to copy (all when empty)
+  tagPatterns?: string[] // Glob patterns of tags to copy (none when empty, * for all)
   sourceToken?: string // Token for accessing the source repository
   targetUsername?: string // Optional custom username for target repository
+  targetOrganization?: string // Create the repository inside this organization
+  teamAccess?: TeamAccessGrant[] // Organization teams granted access to the new repository
+  templateVariables?: TemplateParameterValues // Values for {{PARAM}} tokens in file contents
+  strategy?: CloneStrategy // Defaults to 'git'
+  pathRules?: PathRuleSet // Ignored paths are not copied
+  addons?: TemplateLayer[] // Add-on templates layered on top, in precedence order
 }
 
+// Add-on template copied on top of the base template
+export interface TemplateLayer {
+  id: string // GitHubTemplate id, used to record the commit applied
+  name: string
+  owner: string
+  repo: string
+  ref: string // Branch, tag or commit to copy
+  token?: string // Token for private add-on repositories
+  pathRules?: PathRuleSet // Ignored paths of the add-on
+  baseSha?: string // Add-on commit of the last applied sync (sync only)
+}
+
+// Path provided with different content by several layers; the last one wins
+export interface LayerConflict {
+  path: string
+  layers: string[]
+  winner: string
+}
+
+// 'git': single commit via the Git Data API, 'contents': one commit per file
+export type CloneStrategy = 'git' | 'contents'
+
+// Git file modes preserved when copying blobs
+export type GitFileMode = '100644' | '100755' | '120000'
+
+export interface RepoFile {
+  path: string
+  content: Buffer // Raw bytes, never decoded
+  mode: GitFileMode
+}
+
+export interface SkippedFile {
+  path: string
+  reason: string
+}
+
+export interface SkippedRef {
+  ref: string
+  reason: string
+}
+
+export type TeamPermission = 'pull' | 'triage' | 'push' | 'maintain' | 'admin'
+
+export interface TeamAccessGrant {
+  teamSlug: string
+  permission: TeamPermission
+}
+
+export interface TeamAccessResult extends TeamAccessGrant {
+  granted: boolean
+  error?: string
+}
+
+export interface RepoCloneResult {
+  success: boolean
+  repository: RestEndpointMethodTypes["repos"]["createForAuthenticatedUser"]["response"]["data"]
+  filesCount: number
+  skippedFiles: SkippedFile[]
+  teamAccess: TeamAccessResult[]
+  templateSha?: string // Source commit the files were copied from
+  addonShas?: Record<string, string> // Add-on commits copied, by add-on id
+  layerConflicts?: LayerConflict[]
+  copiedBranches?: string[]
+  copiedTags?: string[]
+  skippedRefs?: SkippedRef[]
+  message: string
+}
+
+export interface PreviewFile {
+  path: string
+  mode: GitFileMode
+  size: number // Bytes after rendering
+  binary: boolean
+  content?: string // Rendered text, omitted for binary files
+  truncated: boolean // Content cut at MAX_PREVIEW_FILE_BYTES
+}
+
+export interface RepoPreviewResult {
+  templateSha?: string // Source commit the files would be copied from
+  defaultBranch: string // Source default branch
+  files: PreviewFile[]
+  skippedFiles: SkippedFile[]
+  layerConflicts: LayerConflict[]
+  addonShas: Record<string, string>
+  branches: string[] // Branches that would be copied
+  tags: string[] // Tags that would be copied
+}
+
+export interface MergeConflict {
+  path: string
+  reason: string
+}
+
+// What a sync would do to a file the template changed
+export type ChangelogImpact =
+  | 'clean' // Not modified in the project: the template version is applied
+  | 'merge' // Modified in the project, but the changes do not overlap
+  | 'conflict' // Modified in the project where the template changed too
+  | 'overwrite' // Owned path: the template version replaces project changes
+  | 'review' // Needs a manual decision, see the reason
+  | 'ignored' // Ignored path: never synced
+
+export interface ChangelogCommit {
+  sha: string
+  message: string
+  author: string
+  date: string
+  url: string
+}
+
+export interface ChangelogFile {
+  path: string
+  previousPath?: string // Path before a rename
+  status: 'added' | 'modified' | 'removed' | 'renamed'
+  additions: number
+  deletions: number
+  patch: string | null // Unified diff of the template change; null for binary or large files
+  impact: ChangelogImpact
+  reason?: string
+}
+
+export interface TemplateChangelog {
+  baseSha: string
+  headSha: string
+  compareUrl: string
+  totalCommits: number
+  commits: ChangelogCommit[] // Newest first
+  files: ChangelogFile[]
+}
+
+// Project file the template deleted or renamed but the project modified
+export interface ReviewFile {
+  path: string
+  reason: string
+}
+
+export interface RenamedFile {
+  from: string
+  to: string
+}
+
+export interface TemplateSyncResult {
+  success: boolean
+  filesCount: number // Files written to or deleted from the project
+  skippedFiles: SkippedFile[]
+  conflicts: MergeConflict[]
+  deletedFiles: string[] // Removed because the template deleted them
+  renamedFiles: RenamedFile[] // Moved because the template renamed them
+  reviewFiles: ReviewFile[] // Kept for manual review
+  layerConflicts: LayerConflict[] // Paths the add-ons override
+  addonShas: Record<string, string> // Add-on commits synced, by add-on id
+  baseTemplateSha?: string // Template commit used as merge base
+  templateSha?: string // Template commit synced
+  projectBaseSha?: string // Project commit the merge was applied on
+  syncBranch?: string
+  pullRequestNumber?: number
+  pullRequestUrl?: string
+  message: string
+}
+
+// Entry of a recursive git tree, keyed by path
+interface TreeEntry {
+  sha: string
+  mode: GitFileMode
+  source: BlobSource // Repository the blob is read from
+  content?: Buffer // Rendered content, when it differs from the blob (sha is then the rendered one)
+}
+
+interface BlobSource {
+  octokit: Octokit
+  owner: string
+  repo: string
+}
+
+// Fields of Octokit request errors read here
+interface RequestError {
+  status?: number
+  message: string
+  response?: { headers?: Record<string, string> }
+}
+
+const FILE_MODES: GitFileMode[] = ['100644', '100755', '120000']
+
+// Concurrent GitHub requests when reading or writing blobs
+const MAX_CONCURRENT_REQUESTS = 8
+// Longest rate-limit reset we are willing to wait for inside a request
+const MAX_RATE_LIMIT_WAIT_MS = 60000
+// Text returned per file by previewClone
+const MAX_PREVIEW_FILE_BYTES = 100 * 1024
+// Files changed on both sides that compareWithTemplate test-merges
+const MAX_CHANGELOG_MERGES = 40
+
 export class GitHubRepoCloner {
   private octokit: Octokit
   private sourceOctokit: Octokit
@@ -25,38 +231,253 @@ export class GitHubRepoCloner {
   }
   
   /**
-   * Clone a repository using the Contents API (primary method)
+   * Clone a repository into a single commit using the Git Data API.
+   * The Contents API is only used when explicitly requested.
    */
-  async cloneAsTemplate(options: RepoCloneOptions) {
-    try {
-      // Try the Contents API approach first (more reliable)
+  async cloneAsTemplate(options: RepoCloneOptions): Promise<RepoCloneResult> {
+    // A pinned ref that no longer exists (e.g. a deleted version tag) fails
+    // before the repository is created instead of cloning an empty one
+    if (options.sourceRef && !await this.resolveCommitSha(options.sourceOwner, options.sourceRepo, options.sourceRef)) {
+      throw sourceRefNotFound(options.sourceOwner, options.sourceRepo, options.sourceRef)
+    }
+    if (options.strategy === 'contents') {
       return await this.cloneUsingContentsAPI(options)
-    } catch (error: any) {
-      console.warn('Contents API approach failed, trying Git API fallback:', error.message)
-      
-      // Fall back to the Git API approach if Contents API fails
+    }
+    return await this.cloneUsingGitAPI(options)
+  }
+
+  /**
+   * Dry run of cloneAsTemplate: runs the same fetch, filter, add-on and render
+   * pipeline and lists the refs that would be copied, without writing anything
+   */
+  async previewClone(
+    options: Omit<RepoCloneOptions, 'targetName' | 'targetDescription' | 'isPrivate' | 'targetUsername' | 'strategy'>
+  ): Promise<RepoPreviewResult> {
+    const { sourceOwner, sourceRepo, includeBranches = true, branchPatterns = [], tagPatterns = [] } = options
+
+    const { data: sourceRepoData } = await this.sourceOctokit.repos.get({
+      owner: sourceOwner,
+      repo: sourceRepo
+    })
+    const defaultBranch = sourceRepoData.default_branch || 'main'
+
+    const { files: sourceFiles, skipped, commitSha: templateSha } = await this.getAllFiles(
+      sourceOwner,
+      sourceRepo,
+      options.sourceRef || defaultBranch
+    )
+    if (options.sourceRef && !templateSha) {
+      throw sourceRefNotFound(sourceOwner, sourceRepo, options.sourceRef)
+    }
+    const layered = await this.applyAddonLayers(
+      this.withoutIgnoredFiles(sourceFiles, options.pathRules),
+      `${sourceOwner}/${sourceRepo}`,
+      options.addons
+    )
+    skipped.push(...layered.skipped)
+    const files = this.renderFiles(layered.files, options.templateVariables)
+
+    let branches: string[] = []
+    let tags: string[] = []
+    if (includeBranches) {
+      branches = (await this.getBranches(sourceOwner, sourceRepo))
+        .map(branch => branch.name)
+        .filter(name =>
+          name !== defaultBranch &&
+          (branchPatterns.length === 0 || matchesGlob(name, branchPatterns))
+        )
+      tags = tagPatterns.length === 0 ? [] : (await this.getTags(sourceOwner, sourceRepo))
+        .map(tag => tag.name)
+        .filter(name => matchesGlob(name, tagPatterns))
+    }
+
+    return {
+      templateSha,
+      defaultBranch,
+      files: files
+        .map(file => {
+          const binary = file.mode !== '120000' && isBinary(file.content)
+          const truncated = !binary && file.content.length > MAX_PREVIEW_FILE_BYTES
+          return {
+            path: file.path,
+            mode: file.mode,
+            size: file.content.length,
+            binary,
+            content: binary ? undefined : file.content.subarray(0, MAX_PREVIEW_FILE_BYTES).toString('utf-8'),
+            truncated
+          }
+        })
+        .sort((a, b) => a.path.localeCompare(b.path)),
+      skippedFiles: skipped,
+      layerConflicts: layered.conflicts,
+      addonShas: layered.addonShas,
+      branches,
+      tags
+    }
+  }
+
+  /**
+   * Template changes between two commits, with the impact each changed file
+   * would have on the project: the same merge rules as syncWithTemplate,
+   * applied to the project's default branch without writing anything
+   */
+  async compareWithTemplate(options: {
+    sourceOwner: string
+    sourceRepo: string
+    targetOwner: string
+    targetRepo: string
+    baseTemplateSha: string // Template commit the project was last synced to
+    headTemplateSha: string
+    pathRules?: PathRuleSet
+    templateVariables?: TemplateParameterValues // {{PARAM}} values the project was created with
+  }): Promise<TemplateChangelog> {
+    const { sourceOwner, sourceRepo, targetOwner, targetRepo, baseTemplateSha, headTemplateSha } = options
+    const pathRules = options.pathRules || buildPathRules({ includeSyncDefaults: true })
+
+    const { data: comparison } = await this.sourceOctokit.repos.compareCommits({
+      owner: sourceOwner,
+      repo: sourceRepo,
+      base: baseTemplateSha,
+      head: headTemplateSha
+    })
+
+    const { data: targetRepoData } = await this.octokit.repos.get({ owner: targetOwner, repo: targetRepo })
+    const { data: targetRef } = await this.octokit.git.getRef({
+      owner: targetOwner,
+      repo: targetRepo,
+      ref: `heads/${targetRepoData.default_branch || 'main'}`
+    })
+    const { data: targetCommit } = await this.octokit.git.getCommit({
+      owner: targetOwner,
+      repo: targetRepo,
+      commit_sha: targetRef.object.sha
+    })
+
+    const [templateBaseEntries, oursEntries] = await Promise.all([
+      this.getTreeEntries(this.sourceOctokit, sourceOwner, sourceRepo, baseTemplateSha),
+      this.getTreeEntries(this.octokit, targetOwner, targetRepo, targetCommit.tree.sha)
+    ])
+
+    // Both template sides rendered with the project's parameter values, as in
+    // syncWithTemplate; only files the project still has are compared
+    const comparedFiles = (comparison.files || []).filter(file =>
+      oursEntries.has(file.filename) || (file.previous_filename && oursEntries.has(file.previous_filename))
+    )
+    const changedFiles = comparedFiles.filter(file => file.status !== 'removed')
+    const source = { octokit: this.sourceOctokit, owner: sourceOwner, repo: sourceRepo }
+    const [baseEntries, theirsEntries] = await Promise.all([
+      this.renderEntries(
+        templateBaseEntries,
+        comparedFiles.map(file => file.previous_filename || file.filename),
+        options.templateVariables
+      ),
+      this.renderEntries(
+        new Map(changedFiles.map(file => [file.filename, {
+          sha: file.sha,
+          mode: templateBaseEntries.get(file.previous_filename || file.filename)?.mode || '100644' as GitFileMode,
+          source
+        }])),
+        changedFiles.map(file => file.filename),
+        options.templateVariables
+      )
+    ])
+
+    let merges = 0
+    const files = await mapWithConcurrency(comparison.files || [], MAX_CONCURRENT_REQUESTS, async (file): Promise<ChangelogFile> => {
+      const status = file.status === 'removed' || file.status === 'renamed' || file.status === 'added'
+        ? file.status
+        : 'modified'
+      const previousPath = file.status === 'renamed' ? file.previous_filename : undefined
+      const entry: ChangelogFile = {
+        path: file.filename,
+        previousPath,
+        status,
+        additions: file.additions,
+        deletions: file.deletions,
+        patch: file.patch ?? null,
+        impact: 'clean'
+      }
+      const withImpact = (impact: ChangelogImpact, reason?: string) => ({ ...entry, impact, reason })
+
+      const action = matchPathRules(file.filename, pathRules).action
+      if (action === 'ignore') return withImpact('ignored', 'Ignored path; the sync never writes it')
+
+      const base = baseEntries.get(previousPath || file.filename)
+      const ours = oursEntries.get(file.filename) || (previousPath ? oursEntries.get(previousPath) : undefined)
+
+      // New in the template, or already deleted on both sides
+      if (!ours) {
+        return base && status !== 'removed'
+          ? withImpact('review', 'Deleted in the project but changed in the template; the file will not be restored')
+          : withImpact('clean')
+      }
+      // Project file untouched since the last sync, or already identical
+      const theirs = theirsEntries.get(file.filename)
+      if ((base && ours.sha === base.sha) || ours.sha === (theirs?.sha || file.sha)) return withImpact('clean')
+
+      if (action === 'owned') return withImpact('overwrite', 'Owned by the template; project changes will be replaced')
+      if (status === 'removed') {
+        return withImpact('review', 'Deleted in the template but modified in the project; the project version will be kept')
+      }
+      if (status === 'renamed' && oursEntries.has(previousPath!)) {
+        return withImpact('review', `Renamed to \`${file.filename}\` in the template but modified in the project`)
+      }
+      if (!base) return withImpact('conflict', 'Added in both the project and the template')
+
+      // Both sides changed the file: test-merge a bounded number of them
+      if (++merges > MAX_CHANGELOG_MERGES) {
+        return withImpact('review', 'Modified in the project; too many files to check for conflicts')
+      }
       try {
-        return await this.cloneUsingGitAPI(options)
-      } catch (fallbackError: any) {
-        console.error('Both approaches failed')
-        throw new Error(`Failed to clone repository using both methods. Last error: ${fallbackError.message}`)
+        const [baseContent, oursContent, theirsContent] = await Promise.all([
+          this.readBlob(base),
+          this.readBlob(ours),
+          this.readBlob(theirs || { sha: file.sha, mode: ours.mode, source })
+        ])
+        if (ours.mode === '120000' || isBinary(oursContent) || isBinary(theirsContent)) {
+          return withImpact('conflict', 'Binary file or symlink changed in both the project and the template')
+        }
+
+        const merged = mergeText(baseContent.toString('utf-8'), oursContent.toString('utf-8'), theirsContent.toString('utf-8'), { ours: 'project', theirs: 'template' })
+        return merged.conflicts > 0
+          ? withImpact('conflict', `${merged.conflicts} conflicting ${merged.conflicts === 1 ? 'change' : 'changes'} with project edits`)
+          : withImpact('merge', 'Modified in the project; the changes merge cleanly')
+      } catch (error) {
+        return withImpact('review', `Could not check for conflicts: ${error instanceof Error ? error.message : String(error)}`)
       }
+    })
+
+    return {
+      baseSha: baseTemplateSha,
+      headSha: headTemplateSha,
+      compareUrl: comparison.html_url,
+      totalCommits: comparison.total_commits,
+      commits: comparison.commits
+        .map(commit => ({
+          sha: commit.sha,
+          message: commit.commit.message,
+          author: commit.author?.login || commit.commit.author?.name || 'Unknown',
+          date: commit.commit.author?.date || '',
+          url: commit.html_url
+        }))
+        .reverse(),
+      files
     }
   }
 
   /**
-   * Clone using Contents API (primary approach - more reliable)
+   * Clone using Contents API (explicit fallback - one commit per file)
    * Files are created sequentially to avoid SHA conflicts that occur when
    * multiple files are created concurrently, causing stale SHA references.
    */
-  private async cloneUsingContentsAPI(options: RepoCloneOptions) {
+  private async cloneUsingContentsAPI(options: RepoCloneOptions): Promise<RepoCloneResult> {
     const { 
       sourceOwner, 
       sourceRepo, 
       targetName, 
       targetDescription,
       isPrivate = false,
-      includeBranches = false // Disable branches for Contents API approach for simplicity
+      includeBranches = true
     } = options
     
     console.log(`Cloning ${sourceOwner}/${sourceRepo} as ${targetName} using Contents API...`)
@@ -65,7 +486,7 @@ export class GitHubRepoCloner {
     let targetOwner: string
     try {
       const { data: authUser } = await this.octokit.users.getAuthenticated()
-      targetOwner = options.targetUsername || authUser.login
+      targetOwner = options.targetOrganization || options.targetUsername || authUser.login
       console.log(`Authenticated as: ${authUser.login}, target owner: ${targetOwner}`)
     } catch (error) {
       throw new Error('GitHub authentication failed. Please ensure you have a valid GitHub token.')
@@ -78,7 +499,7 @@ export class GitHubRepoCloner {
     })
     
     // 2. Create new repository with auto_init to ensure it's not empty
-    const { data: newRepo } = await this.octokit.repos.createForAuthenticatedUser({
+    const newRepo = await this.createRepository(options, {
       name: targetName,
       description: targetDescription || sourceRepoData.description || `Cloned from ${sourceOwner}/${sourceRepo}`,
       private: isPrivate,
@@ -87,6 +508,8 @@ export class GitHubRepoCloner {
     
     console.log(`Created repository: ${newRepo.html_url}`)
     
+    const teamAccess = await this.grantTeamAccess(targetOwner, targetName, options.teamAccess)
+    
     // Wait for repository to be fully initialized
     console.log('Waiting for repository to be fully initialized...')
     await new Promise(resolve => setTimeout(resolve, 3000))
@@ -94,19 +517,44 @@ export class GitHubRepoCloner {
     // 3. Get default branch
     const defaultBranch = sourceRepoData.default_branch || 'main'
     
-    // 4. Get all files from source repository
-    const files = await this.getAllFiles(sourceOwner, sourceRepo, defaultBranch)
+    // 4. Get all files from source repository and its add-ons
+    const { files: templateFiles, skipped, commitSha: templateSha } = await this.getAllFiles(sourceOwner, sourceRepo, options.sourceRef || defaultBranch)
+    const layered = await this.applyAddonLayers(
+      this.withoutIgnoredFiles(templateFiles, options.pathRules),
+      `${sourceOwner}/${sourceRepo}`,
+      options.addons
+    )
+    const sourceFiles = layered.files
+    skipped.push(...layered.skipped)
     
-    if (files.length === 0) {
+    if (sourceFiles.length === 0) {
       console.warn(`Source repository ${sourceOwner}/${sourceRepo} appears to be empty`)
       return {
         success: true,
         repository: newRepo,
         filesCount: 0,
+        skippedFiles: skipped,
+        teamAccess,
+        templateSha,
         message: `Successfully created repository ${targetName} (source was empty)`
       }
     }
     
+    // The Contents API can only write regular files: symlinks are reported and skipped
+    const files = this.renderFiles(
+      sourceFiles.filter(file => {
+        if (file.mode === '120000') {
+          skipped.push({ path: file.path, reason: 'Symlinks cannot be created through the Contents API' })
+          return false
+        }
+        if (file.mode === '100755') {
+          console.warn(`${file.path} will lose its executable bit (Contents API)`)
+        }
+        return true
+      }),
+      options.templateVariables
+    )
+    
     // 5. Create files using Contents API
     console.log(`Creating ${files.length} files using Contents API...`)
     
@@ -145,7 +593,7 @@ export class GitHubRepoCloner {
           repo: targetName,
           path: file.path,
           message: `Add ${file.path}`,
-          content: Buffer.from(file.content).toString('base64'),
+          content: file.content.toString('base64'),
           committer: {
             name: 'GitHub Repo Cloner',
             email: 'noreply@github.com'
@@ -156,10 +604,11 @@ export class GitHubRepoCloner {
         
         // Add a small delay between each file to avoid rate limiting and SHA conflicts
         await new Promise(resolve => setTimeout(resolve, 500))
-      } catch (error: any) {
+      } catch (error) {
+        const { status, message } = error as RequestError
         // If it's a SHA conflict, the repository state has changed - this shouldn't happen 
         // with sequential processing, but we'll handle it gracefully
-        if (error.message?.includes('sha') || error.status === 409) {
+        if (message?.includes('sha') || status === 409) {
           console.warn(`SHA conflict detected for ${file.path}, retrying...`)
           
           // Wait a bit longer and retry once
@@ -170,7 +619,7 @@ export class GitHubRepoCloner {
               repo: targetName,
               path: file.path,
               message: `Add ${file.path}`,
-              content: Buffer.from(file.content).toString('base64'),
+              content: file.content.toString('base64'),
               committer: {
                 name: 'GitHub Repo Cloner',
                 email: 'noreply@github.com'
@@ -178,18 +627,44 @@ export class GitHubRepoCloner {
             })
             createdFiles++
             console.log(`Created: ${file.path} (after retry)`)
-          } catch (retryError: any) {
-            console.error(`Failed to create ${file.path} after retry:`, retryError.message)
+          } catch (retryError) {
+            const { message: retryMessage } = retryError as RequestError
+            console.error(`Failed to create ${file.path} after retry:`, retryMessage)
+            skipped.push({ path: file.path, reason: `Failed to create after retry: ${retryMessage}` })
             // Continue with other files rather than failing completely
           }
         } else {
-          console.error(`Failed to create ${file.path}:`, error.message)
+          console.error(`Failed to create ${file.path}:`, message)
+          skipped.push({ path: file.path, reason: `Failed to create: ${message}` })
           // Continue with other files rather than failing completely
         }
       }
     }
     
-    // 6. Copy branch protection if possible
+    // 6. Copy other branches and tags if requested, on top of the files just created
+    let refs = { copiedBranches: [] as string[], copiedTags: [] as string[], skippedRefs: [] as SkippedRef[] }
+    if (includeBranches) {
+      const { data: headRef } = await this.octokit.git.getRef({
+        owner: targetOwner,
+        repo: targetName,
+        ref: `heads/${newRepo.default_branch}`
+      })
+      refs = await this.copyRefs({
+        sourceOwner,
+        sourceRepo,
+        targetOwner,
+        targetRepo: targetName,
+        defaultBranch,
+        templateSha,
+        initialCommitSha: headRef.object.sha,
+        branchPatterns: options.branchPatterns,
+        tagPatterns: options.tagPatterns,
+        templateVariables: options.templateVariables,
+        pathRules: options.pathRules
+      })
+    }
+    
+    // 7. Copy branch protection if possible
     try {
       const { data: protectionRules } = await this.sourceOctokit.repos.getBranchProtection({
         owner: sourceOwner,
@@ -225,14 +700,21 @@ export class GitHubRepoCloner {
       success: true,
       repository: newRepo,
       filesCount: createdFiles,
+      skippedFiles: skipped,
+      teamAccess,
+      templateSha,
+      addonShas: layered.addonShas,
+      layerConflicts: layered.conflicts,
+      ...refs,
       message: `Successfully cloned ${sourceOwner}/${sourceRepo} to ${targetName} using Contents API`
     }
   }
 
   /**
-   * Clone using Git API (fallback method)
+   * Clone using the Git Data API (primary approach): blobs are created with
+   * bounded parallelism, then a single tree and a single initial commit
    */
-  private async cloneUsingGitAPI(options: RepoCloneOptions) {
+  private async cloneUsingGitAPI(options: RepoCloneOptions): Promise<RepoCloneResult> {
     const { 
       sourceOwner, 
       sourceRepo, 
@@ -248,7 +730,7 @@ export class GitHubRepoCloner {
     let targetOwner: string
     try {
       const { data: authUser } = await this.octokit.users.getAuthenticated()
-      targetOwner = options.targetUsername || authUser.login
+      targetOwner = options.targetOrganization || options.targetUsername || authUser.login
       console.log(`Authenticated as: ${authUser.login}, target owner: ${targetOwner}`)
     } catch (error) {
       throw new Error('GitHub authentication failed. Please ensure you have a valid GitHub token.')
@@ -260,46 +742,34 @@ export class GitHubRepoCloner {
       repo: sourceRepo
     })
     
-    // 2. Create new repository with auto_init to avoid empty repo issues
-    const { data: newRepo } = await this.octokit.repos.createForAuthenticatedUser({
+    // 2. Create new repository. The Git Data API rejects writes to empty
+    // repositories, so it is initialized and the README commit replaced below
+    const newRepo = await this.createRepository(options, {
       name: targetName,
       description: targetDescription || sourceRepoData.description || `Cloned from ${sourceOwner}/${sourceRepo}`,
       private: isPrivate,
-      auto_init: true // Initialize with README to have a base commit
+      auto_init: true
     })
     
     console.log(`Created repository: ${newRepo.html_url}`)
     
-    // Wait for repository to be fully initialized
-    console.log('Waiting for repository to be fully initialized...')
-    await new Promise(resolve => setTimeout(resolve, 5000))
-    
-    // Verify repository is accessible with retries
-    let repoReady = false
-    for (let i = 0; i < 5; i++) {
-      try {
-        await this.octokit.repos.get({
-          owner: targetOwner,
-          repo: targetName
-        })
-        repoReady = true
-        console.log('Repository is ready')
-        break
-      } catch (error) {
-        console.log(`Repository not ready yet, attempt ${i + 1}/5`)
-        await new Promise(resolve => setTimeout(resolve, 2000))
-      }
-    }
-    
-    if (!repoReady) {
-      throw new Error('Repository creation timed out. Please try again.')
-    }
+    const teamAccess = await this.grantTeamAccess(targetOwner, targetName, options.teamAccess)
     
     // 3. Get default branch
     const defaultBranch = sourceRepoData.default_branch || 'main'
     
-    // 4. Get all files from source repository
-    const files = await this.getAllFiles(sourceOwner, sourceRepo, defaultBranch)
+    // 4. Get all files from source repository while the new repository initializes
+    const [{ files: sourceFiles, skipped, commitSha: templateSha }] = await Promise.all([
+      this.getAllFiles(sourceOwner, sourceRepo, options.sourceRef || defaultBranch),
+      this.waitForBranch(targetOwner, targetName, newRepo.default_branch)
+    ])
+    const layered = await this.applyAddonLayers(
+      this.withoutIgnoredFiles(sourceFiles, options.pathRules),
+      `${sourceOwner}/${sourceRepo}`,
+      options.addons
+    )
+    skipped.push(...layered.skipped)
+    const files = this.renderFiles(layered.files, options.templateVariables)
     
     // Check if source repository is empty
     if (files.length === 0) {
@@ -308,83 +778,44 @@ export class GitHubRepoCloner {
         success: true,
         repository: newRepo,
         filesCount: 0,
+        skippedFiles: skipped,
+        teamAccess,
+        templateSha,
         message: `Successfully created repository ${targetName} (source was empty)`
       }
     }
     
-    // 5. Get the current HEAD commit to use as parent
-    let parentSha: string | undefined
-    let baseTreeSha: string | undefined
-    try {
-      const { data: ref } = await this.octokit.git.getRef({
-        owner: targetOwner,
-        repo: targetName,
-        ref: `heads/${defaultBranch}`
-      })
-      parentSha = ref.object.sha
-      
-      // Get the tree SHA from the parent commit
-      const { data: parentCommit } = await this.octokit.git.getCommit({
-        owner: targetOwner,
-        repo: targetName,
-        commit_sha: parentSha
-      })
-      baseTreeSha = parentCommit.tree.sha
-    } catch (error) {
-      console.log('No existing HEAD found, creating initial commit')
-    }
-    
-    // Create all files in the new repo
+    // 5. One tree and one root commit replacing the auto-generated README
     console.log(`Copying ${files.length} files using Git API...`)
     
-    const tree = await this.createTree(targetOwner, targetName, files, baseTreeSha)
+    const tree = await this.createTree(targetOwner, targetName, files)
     const commit = await this.createCommit(
       targetOwner, 
       targetName, 
       tree.sha, 
-      `Initial commit - Cloned from ${sourceOwner}/${sourceRepo}`,
-      parentSha ? [parentSha] : []
+      `Initial commit from template ${sourceOwner}/${sourceRepo}${options.sourceRef ? ` (${options.sourceRef.replace(/^refs\/(heads|tags)\//, '')})` : ''}${options.addons?.length ? ` with ${options.addons.map(addon => addon.name).join(', ')}` : ''}
+
+template-sha: ${templateSha}`
     )
     
-    // Update the main branch reference
-    await this.octokit.git.updateRef({
-      owner: targetOwner,
-      repo: targetName,
-      ref: `heads/${defaultBranch}`,
-      sha: commit.sha,
-      force: true
-    })
+    await this.pointDefaultBranch(targetOwner, targetName, newRepo.default_branch, defaultBranch, commit.sha)
     
-    // 6. Copy other branches if requested
+    // 6. Copy other branches and tags if requested
+    let refs = { copiedBranches: [] as string[], copiedTags: [] as string[], skippedRefs: [] as SkippedRef[] }
     if (includeBranches) {
-      const branches = await this.getBranches(sourceOwner, sourceRepo)
-      
-      for (const branch of branches) {
-        if (branch.name !== defaultBranch) {
-          try {
-            const branchFiles = await this.getAllFiles(sourceOwner, sourceRepo, branch.name)
-            const branchTree = await this.createTree(targetOwner, targetName, branchFiles)
-            const branchCommit = await this.createCommit(
-              targetOwner,
-              targetName,
-              branchTree.sha,
-              `Branch ${branch.name} - Cloned from ${sourceOwner}/${sourceRepo}`,
-              [commit.sha]
-            )
-            
-            await this.octokit.git.createRef({
-              owner: targetOwner,
-              repo: targetName,
-              ref: `refs/heads/${branch.name}`,
-              sha: branchCommit.sha
-            })
-            
-            console.log(`Created branch: ${branch.name}`)
-          } catch (error) {
-            console.error(`Error creating branch ${branch.name}:`, error)
-          }
-        }
-      }
+      refs = await this.copyRefs({
+        sourceOwner,
+        sourceRepo,
+        targetOwner,
+        targetRepo: targetName,
+        defaultBranch,
+        templateSha,
+        initialCommitSha: commit.sha,
+        branchPatterns: options.branchPatterns,
+        tagPatterns: options.tagPatterns,
+        templateVariables: options.templateVariables,
+        pathRules: options.pathRules
+      })
     }
     
     // 7. Copy branch protection if possible
@@ -423,184 +854,437 @@ export class GitHubRepoCloner {
       success: true,
       repository: newRepo,
       filesCount: files.length,
+      skippedFiles: skipped,
+      teamAccess,
+      templateSha,
+      addonShas: layered.addonShas,
+      layerConflicts: layered.conflicts,
+      ...refs,
       message: `Successfully cloned ${sourceOwner}/${sourceRepo} to ${targetName} using Git API`
     }
   }
   
   /**
-   * Obtener todos los archivos de un repositorio
+   * Obtener todos los archivos de un repositorio como bytes, con su modo git.
+   * Los archivos que no se pueden copiar se reportan en `skipped`.
    */
-  private async getAllFiles(owner: string, repo: string, ref: string) {
-    const files: Array<{ path: string; content: string }> = []
+  private async getAllFiles(owner: string, repo: string, ref: string, octokit: Octokit = this.sourceOctokit) {
+    const files: RepoFile[] = []
+    const skipped: SkippedFile[] = []
     
     try {
-      // First, try to get the commit to ensure the ref exists
-      let commitSha: string
-      try {
-        const { data: refData } = await this.sourceOctokit.git.getRef({
-          owner,
-          repo,
-          ref: `heads/${ref}`
-        })
-        commitSha = refData.object.sha
-      } catch (error) {
-        // If ref not found, try to get it as a commit SHA directly
-        try {
-          const { data: commit } = await this.sourceOctokit.git.getCommit({
-            owner,
-            repo,
-            commit_sha: ref
-          })
-          commitSha = commit.sha
-        } catch {
-          console.error(`Reference ${ref} not found in ${owner}/${repo}`)
-          return []
-        }
+      // First, resolve the ref (branch, tag or commit SHA) to a commit
+      const commitSha = await this.resolveCommitSha(owner, repo, ref, octokit)
+      if (!commitSha) {
+        console.error(`Reference ${ref} not found in ${owner}/${repo}`)
+        return { files, skipped, commitSha: undefined }
       }
       
       // Obtener el árbol de archivos
-      const { data: tree } = await this.sourceOctokit.git.getTree({
+      const { data: tree } = await octokit.git.getTree({
         owner,
         repo,
         tree_sha: commitSha,
         recursive: 'true'
       })
       
+      if (tree.truncated) {
+        console.warn(`Tree for ${owner}/${repo}@${ref} is truncated; some files will be missing`)
+        skipped.push({ path: '*', reason: 'Repository tree is too large and was truncated by GitHub' })
+      }
+      
+      // Submodules are tree entries of type "commit" and have no content to copy
+      for (const item of tree.tree) {
+        if (item.type === 'commit' && item.path) {
+          skipped.push({ path: item.path, reason: 'Git submodules are not copied' })
+        }
+      }
+      
       // Filtrar solo archivos (no directorios)
       const blobs = tree.tree.filter(item => item.type === 'blob')
       
-      // Batch process files to avoid rate limiting
-      const batchSize = 5 // Reduced batch size for better reliability
-      for (let i = 0; i < blobs.length; i += batchSize) {
-        const batch = blobs.slice(i, i + batchSize)
-        await Promise.all(
-          batch.map(async (item) => {
-            if (item.sha && item.path) {
-              try {
-                const { data: blob } = await this.sourceOctokit.git.getBlob({
-                  owner,
-                  repo,
-                  file_sha: item.sha
-                })
-                
-                // Decodificar contenido
-                const content = blob.encoding === 'base64' 
-                  ? Buffer.from(blob.content, 'base64').toString('utf-8')
-                  : blob.content
-                
-                files.push({
-                  path: item.path,
-                  content
-                })
-              } catch (error: any) {
-                console.error(`Error fetching ${item.path}:`, error.message)
-                // Skip binary files or files that can't be decoded
-                if (error.message?.includes('is not valid UTF-8')) {
-                  console.log(`Skipping binary file: ${item.path}`)
-                }
-                // Continue with other files
-              }
-            }
-          })
-        )
+      // Fetch blobs with bounded parallelism, backing off when rate limited
+      await mapWithConcurrency(blobs, MAX_CONCURRENT_REQUESTS, async (item) => {
+        if (!item.sha || !item.path) return
         
-        // Add delay between batches to avoid rate limiting
-        if (i + batchSize < blobs.length) {
-          await new Promise(resolve => setTimeout(resolve, 300))
+        if (!FILE_MODES.includes(item.mode as GitFileMode)) {
+          skipped.push({ path: item.path, reason: `Unsupported file mode ${item.mode}` })
+          return
         }
-      }
+        
+        try {
+          const { data: blob } = await this.withRetry(`reading ${item.path}`, () =>
+            octokit.git.getBlob({
+              owner,
+              repo,
+              file_sha: item.sha!
+            })
+          )
+          
+          // Keep the raw bytes so binary files are copied unchanged
+          const content = blob.encoding === 'base64' 
+            ? Buffer.from(blob.content, 'base64')
+            : Buffer.from(blob.content, 'utf-8')
+          
+          files.push({
+            path: item.path,
+            content,
+            mode: item.mode as GitFileMode
+          })
+        } catch (error) {
+          const { message } = error as RequestError
+          console.error(`Error fetching ${item.path}:`, message)
+          skipped.push({ path: item.path, reason: `Could not read blob: ${message}` })
+          // Continue with other files
+        }
+      })
       
-      return files
-    } catch (error: any) {
-      console.error("Error getting files:", error.message)
+      return { files, skipped, commitSha }
+    } catch (error) {
+      const { status, message } = error as RequestError
+      console.error("Error getting files:", message)
       // Check if it's an empty repository error
-      if (error.status === 409 && error.message?.includes('Git Repository is empty')) {
+      if (status === 409 && message?.includes('Git Repository is empty')) {
         console.log('Repository is empty, returning empty file list')
-        return []
+        return { files, skipped, commitSha: undefined }
       }
       throw error
     }
   }
   
   /**
-   * Obtener lista de branches
+   * Archivos de un árbol (recursivo) indexados por path, sin submodules
    */
-  private async getBranches(owner: string, repo: string) {
+  private async getTreeEntries(octokit: Octokit, owner: string, repo: string, treeSha: string) {
+    const { data: tree } = await octokit.git.getTree({ owner, repo, tree_sha: treeSha, recursive: 'true' })
+    if (tree.truncated) {
+      console.warn(`Tree ${treeSha} of ${owner}/${repo} is truncated; some files will not be merged`)
+    }
+    
+    const entries = new Map<string, TreeEntry>()
+    for (const item of tree.tree) {
+      if (item.type === 'blob' && item.path && item.sha && FILE_MODES.includes(item.mode as GitFileMode)) {
+        entries.set(item.path, { sha: item.sha, mode: item.mode as GitFileMode, source: { octokit, owner, repo } })
+      }
+    }
+    return entries
+  }
+  
+  /**
+   * Leer el contenido de un blob como bytes, del repositorio del que proviene
+   */
+  private async readBlob(entry: TreeEntry) {
+    if (entry.content) return entry.content
+    
+    const { octokit, owner, repo } = entry.source
+    const { data: blob } = await this.withRetry(`reading blob ${entry.sha}`, () =>
+      octokit.git.getBlob({ owner, repo, file_sha: entry.sha })
+    )
+    return blob.encoding === 'base64'
+      ? Buffer.from(blob.content, 'base64')
+      : Buffer.from(blob.content, 'utf-8')
+  }
+  
+  /**
+   * Template commit recorded by the last clone or sync (`template-sha:` trailer)
+   */
+  private async findLastTemplateSha(owner: string, repo: string, branch: string): Promise<string | undefined> {
+    const { data: commits } = await this.octokit.repos.listCommits({ owner, repo, sha: branch, per_page: 100 })
+    for (const commit of commits) {
+      const match = commit.commit.message.match(/template-sha: ([a-f0-9]{40})/i)
+      if (match) return match[1]
+    }
+    return undefined
+  }
+  
+  /**
+   * Archivos renombrados en el template entre dos commits (path nuevo -> path anterior).
+   * Usa la detección de renames de GitHub y completa con los archivos movidos sin
+   * cambios, ya que la comparación lista como máximo 300 archivos.
+   */
+  private async findTemplateRenames(
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    baseSha: string,
+    headSha: string,
+    baseEntries: Map<string, TreeEntry>,
+    headEntries: Map<string, TreeEntry>
+  ) {
+    const isRemoved = (path: string) => baseEntries.has(path) && !headEntries.has(path)
+    const isAdded = (path: string) => headEntries.has(path) && !baseEntries.has(path)
+    const renames = new Map<string, string>()
+
     try {
-      const { data: branches } = await this.sourceOctokit.repos.listBranches({
-        owner,
-        repo,
-        per_page: 100
-      })
-      
-      return branches
+      const { data: comparison } = await octokit.repos.compareCommits({ owner, repo, base: baseSha, head: headSha })
+      for (const file of comparison.files || []) {
+        if (file.status === 'renamed' && file.previous_filename && isRemoved(file.previous_filename) && isAdded(file.filename)) {
+          renames.set(file.filename, file.previous_filename)
+        }
+      }
     } catch (error) {
-      console.error("Error getting branches:", error)
-      return []
+      const { message } = error as RequestError
+      console.warn(`Could not compare template commits ${baseSha}...${headSha}:`, message)
+    }
+
+    // Identical content under a new path
+    const renamedFrom = new Set(renames.values())
+    const removedBySha = new Map<string, string>()
+    for (const [path, entry] of baseEntries) {
+      if (isRemoved(path) && !renamedFrom.has(path) && !removedBySha.has(entry.sha)) {
+        removedBySha.set(entry.sha, path)
+      }
+    }
+    for (const [path, entry] of headEntries) {
+      const previous = removedBySha.get(entry.sha)
+      if (previous && isAdded(path) && !renames.has(path)) {
+        renames.set(path, previous)
+        removedBySha.delete(entry.sha)
+      }
     }
+
+    return renames
   }
   
   /**
-   * Crear un tree con todos los archivos
+   * Resolver un branch, tag o SHA al commit al que apunta. Las refs completas
+   * (refs/tags/v1.2.0) se leen tal cual, así un branch con el mismo nombre no
+   * oculta el tag.
    */
-  private async createTree(owner: string, repo: string, files: Array<{ path: string; content: string }>, baseTree?: string) {
-    // Wait a bit before creating blobs to ensure repository is ready
-    await new Promise(resolve => setTimeout(resolve, 1000))
+  private async resolveCommitSha(owner: string, repo: string, ref: string, octokit: Octokit = this.sourceOctokit): Promise<string | null> {
+    const qualified = ref.startsWith('refs/')
+    const candidates = qualified ? [ref.substring('refs/'.length)] : [`heads/${ref}`, `tags/${ref}`]
     
-    // Helper function to create blob with retry
-    const createBlobWithRetry = async (file: { path: string; content: string }, retries = 3): Promise<string> => {
-      for (let i = 0; i < retries; i++) {
-        try {
-          const { data: blob } = await this.octokit.git.createBlob({
-            owner,
-            repo,
-            content: Buffer.from(file.content).toString('base64'),
-            encoding: 'base64'
-          })
-          return blob.sha
-        } catch (error: any) {
-          if (i === retries - 1) {
-            console.error(`Failed to create blob for ${file.path}:`, error.message)
-            throw error
-          }
-          console.log(`Retry ${i + 1} for creating blob ${file.path} (${error.status || 'unknown error'})`)
-          await new Promise(resolve => setTimeout(resolve, 2000 * (i + 1)))
+    for (const candidate of candidates) {
+      try {
+        const { data: refData } = await octokit.git.getRef({ owner, repo, ref: candidate })
+        if (refData.object.type !== 'tag') {
+          return refData.object.sha
         }
+        // Annotated tags point to a tag object, which points to the commit
+        const { data: tag } = await octokit.git.getTag({ owner, repo, tag_sha: refData.object.sha })
+        return tag.object.sha
+      } catch {
+        // Not a branch or tag
       }
-      throw new Error(`Failed to create blob for ${file.path}`)
     }
+    if (qualified) return null
     
-    // Crear blobs para cada archivo con reintentos
-    // Process in smaller batches to avoid rate limiting
-    const batchSize = 5
-    const tree: Array<{ path: string; mode: '100644'; type: 'blob'; sha: string }> = []
+    try {
+      const { data: commit } = await octokit.git.getCommit({ owner, repo, commit_sha: ref })
+      return commit.sha
+    } catch {
+      return null
+    }
+  }
+  
+  /**
+   * Copiar los archivos de cada add-on sobre los del template base. Cada capa
+   * gana sobre las anteriores y los paths con contenido distinto se reportan.
+   */
+  private async applyAddonLayers(baseFiles: RepoFile[], baseName: string, addons: TemplateLayer[] = []) {
+    const files = new Map(baseFiles.map(file => [file.path, file]))
+    const layerNames = new Map(baseFiles.map(file => [file.path, baseName]))
+    const skipped: SkippedFile[] = []
+    const conflicts: LayerConflict[] = []
+    const addonShas: Record<string, string> = {}
     
-    for (let i = 0; i < files.length; i += batchSize) {
-      const batch = files.slice(i, i + batchSize)
-      const batchResults = await Promise.all(
-        batch.map(async (file) => {
-          const sha = await createBlobWithRetry(file)
-          return {
-            path: file.path,
-            mode: '100644' as const,
-            type: 'blob' as const,
-            sha
-          }
-        })
-      )
-      tree.push(...batchResults)
+    for (const addon of addons) {
+      const octokit = addon.token ? new Octokit({ auth: addon.token }) : this.sourceOctokit
+      const result = await this.getAllFiles(addon.owner, addon.repo, addon.ref, octokit)
+      if (!result.commitSha) {
+        throw new Error(`Add-on ${addon.name}: reference ${addon.ref} not found in ${addon.owner}/${addon.repo}`)
+      }
+      addonShas[addon.id] = result.commitSha
+      skipped.push(...result.skipped.map(file => ({ ...file, reason: `${addon.name}: ${file.reason}` })))
       
-      // Add a small delay between batches
-      if (i + batchSize < files.length) {
-        await new Promise(resolve => setTimeout(resolve, 500))
+      for (const file of this.withoutIgnoredFiles(result.files, addon.pathRules)) {
+        const existing = files.get(file.path)
+        if (existing && (!existing.content.equals(file.content) || existing.mode !== file.mode)) {
+          recordLayerConflict(conflicts, file.path, layerNames.get(file.path)!, addon.name)
+        }
+        files.set(file.path, file)
+        layerNames.set(file.path, addon.name)
+      }
+    }
+    
+    if (conflicts.length > 0) {
+      console.warn(`${conflicts.length} paths are overridden by add-ons:`, conflicts.map(conflict => conflict.path).join(', '))
+    }
+    return { files: [...files.values()], skipped, conflicts, addonShas }
+  }
+  
+  /**
+   * Árbol combinado del template base y sus add-ons, con la misma precedencia
+   * que en el clone. `layers` indica qué commit de cada add-on leer.
+   */
+  private async getLayeredEntries(
+    baseEntries: Map<string, TreeEntry>,
+    baseName: string,
+    layers: { addon: TemplateLayer; commitSha: string }[]
+  ) {
+    const entries = new Map(baseEntries)
+    const layerNames = new Map([...baseEntries.keys()].map(path => [path, baseName]))
+    const conflicts: LayerConflict[] = []
+    
+    for (const { addon, commitSha } of layers) {
+      const octokit = addon.token ? new Octokit({ auth: addon.token }) : this.sourceOctokit
+      const addonEntries = await this.getTreeEntries(octokit, addon.owner, addon.repo, commitSha)
+      for (const [path, entry] of addonEntries) {
+        if (addon.pathRules && matchPathRules(path, addon.pathRules).action === 'ignore') continue
+        
+        const existing = entries.get(path)
+        if (existing && (existing.sha !== entry.sha || existing.mode !== entry.mode)) {
+          recordLayerConflict(conflicts, path, layerNames.get(path)!, addon.name)
+        }
+        entries.set(path, entry)
+        layerNames.set(path, addon.name)
+      }
+    }
+    
+    return { entries, conflicts }
+  }
+  
+  /**
+   * Drop the files matched by the template's ignore rules
+   */
+  private withoutIgnoredFiles(files: RepoFile[], rules?: PathRuleSet) {
+    if (!rules) return files
+    
+    return files.filter(file => {
+      const match = matchPathRules(file.path, rules)
+      if (match.action === 'ignore') {
+        console.log(`Ignoring ${file.path} (rule "${match.rule?.pattern}" from ${match.rule?.source})`)
+        return false
+      }
+      return true
+    })
+  }
+  
+  /**
+   * Replace {{PARAM}} tokens in file contents with the values chosen for the project.
+   * Binary files and symlinks are copied as-is.
+   */
+  private renderFiles(files: RepoFile[], variables?: TemplateParameterValues) {
+    if (!variables || Object.keys(variables).length === 0) {
+      return files
+    }
+    
+    let renderedCount = 0
+    const rendered = files.map(file => {
+      const content = renderContent(file.content, file.mode, variables)
+      if (!content) {
+        return file
       }
+      
+      renderedCount++
+      return { ...file, content }
+    })
+    
+    console.log(`Replaced template variables in ${renderedCount} files`)
+    return rendered
+  }
+  
+  /**
+   * Template entries as renderFiles wrote them into the project: {{PARAM}}
+   * tokens replaced with its values. Rendered entries carry the sha of the
+   * rendered content so they compare with the project blobs. Only `paths`
+   * are read; entries that cannot be read are kept as they are.
+   */
+  private async renderEntries(entries: Map<string, TreeEntry>, paths: string[], variables?: TemplateParameterValues) {
+    if (!variables || Object.keys(variables).length === 0) {
+      return entries
     }
     
+    const rendered = new Map(entries)
+    await mapWithConcurrency([...new Set(paths)].filter(path => entries.has(path)), MAX_CONCURRENT_REQUESTS, async path => {
+      const entry = entries.get(path)!
+      try {
+        const content = renderContent(await this.readBlob(entry), entry.mode, variables)
+        if (content) {
+          rendered.set(path, { ...entry, sha: gitBlobSha(content), content })
+        }
+      } catch (error) {
+        const { message } = error as RequestError
+        console.warn(`Could not render ${path}:`, message)
+      }
+    })
+    return rendered
+  }
+  
+  /**
+   * Obtener lista de branches
+   */
+  private async getBranches(owner: string, repo: string) {
+    try {
+      return await this.sourceOctokit.paginate(this.sourceOctokit.repos.listBranches, {
+        owner,
+        repo,
+        per_page: 100
+      })
+    } catch (error) {
+      console.error("Error getting branches:", error)
+      return []
+    }
+  }
+  
+  /**
+   * Obtener lista de tags
+   */
+  private async getTags(owner: string, repo: string) {
+    try {
+      return await this.sourceOctokit.paginate(this.sourceOctokit.repos.listTags, {
+        owner,
+        repo,
+        per_page: 100
+      })
+    } catch (error) {
+      console.error("Error getting tags:", error)
+      return []
+    }
+  }
+  
+  /**
+   * Crear un tree con todos los archivos, quitando `deletedPaths` del tree base
+   */
+  private async createTree(owner: string, repo: string, files: RepoFile[], baseTree?: string, deletedPaths: string[] = []) {
+    // Crear blobs para cada archivo con paralelismo acotado
+    const tree = await mapWithConcurrency(files, MAX_CONCURRENT_REQUESTS, async (file) => {
+      try {
+        const { data: blob } = await this.withRetry(`creating blob ${file.path}`, () =>
+          this.octokit.git.createBlob({
+            owner,
+            repo,
+            content: file.content.toString('base64'),
+            encoding: 'base64'
+          })
+        )
+        return {
+          path: file.path,
+          mode: file.mode,
+          type: 'blob' as const,
+          sha: blob.sha
+        }
+      } catch (error) {
+        const { message } = error as RequestError
+        console.error(`Failed to create blob for ${file.path}:`, message)
+        throw error
+      }
+    })
+    
+    // A null sha removes the path from the base tree
+    const deletions = deletedPaths.map(path => ({
+      path,
+      mode: '100644' as const,
+      type: 'blob' as const,
+      sha: null
+    }))
+    
     // Create the tree with optional base tree
     const createTreeOptions: any = {
       owner,
       repo,
-      tree
+      tree: [...tree, ...deletions]
     }
     
     if (baseTree) {
@@ -610,9 +1294,10 @@ export class GitHubRepoCloner {
     try {
       const { data: treeData } = await this.octokit.git.createTree(createTreeOptions)
       return treeData
-    } catch (error: any) {
-      console.error('Error creating tree:', error.message)
-      if (error.status === 404 && baseTree) {
+    } catch (error) {
+      const { status, message } = error as RequestError
+      console.error('Error creating tree:', message)
+      if (status === 404 && baseTree) {
         // If the base tree is not found, it might be invalid or deleted
         throw new Error(`Base tree SHA ${baseTree} not found. The repository state may have changed.`)
       }
@@ -634,10 +1319,199 @@ export class GitHubRepoCloner {
     
     return commit
   }
+  
+  /**
+   * Create the target repository in the organization if one was given,
+   * otherwise in the authenticated user's account
+   */
+  private async createRepository(
+    options: RepoCloneOptions,
+    params: { name: string; description: string; private: boolean; auto_init: boolean }
+  ) {
+    if (options.targetOrganization) {
+      const { data } = await this.octokit.repos.createInOrg({ org: options.targetOrganization, ...params })
+      return data
+    }
+    
+    const { data } = await this.octokit.repos.createForAuthenticatedUser(params)
+    return data
+  }
+  
+  /**
+   * Grant organization teams access to the new repository. Failures are
+   * reported per team and do not abort the clone.
+   */
+  private async grantTeamAccess(org: string, repo: string, grants: TeamAccessGrant[] = []) {
+    const results: TeamAccessResult[] = []
+    
+    for (const grant of grants) {
+      try {
+        await this.octokit.teams.addOrUpdateRepoPermissionsInOrg({
+          org,
+          team_slug: grant.teamSlug,
+          owner: org,
+          repo,
+          permission: grant.permission
+        })
+        results.push({ ...grant, granted: true })
+        console.log(`Granted ${grant.permission} on ${org}/${repo} to team ${grant.teamSlug}`)
+      } catch (error) {
+        const { message } = error as RequestError
+        console.error(`Error granting access to team ${grant.teamSlug}:`, message)
+        results.push({ ...grant, granted: false, error: message })
+      }
+    }
+    
+    return results
+  }
+  
+  /**
+   * Copy the source branches and tags selected by the glob patterns (all branches
+   * when empty, but no tags unless a pattern such as * selects them).
+   * Each ref becomes one commit on top of the initial commit; refs that point to
+   * the same source commit share the same new commit.
+   */
+  private async copyRefs(options: {
+    sourceOwner: string
+    sourceRepo: string
+    targetOwner: string
+    targetRepo: string
+    defaultBranch: string
+    templateSha?: string
+    initialCommitSha: string
+    branchPatterns?: string[]
+    tagPatterns?: string[]
+    templateVariables?: TemplateParameterValues
+    pathRules?: PathRuleSet
+  }) {
+    const { sourceOwner, sourceRepo, targetOwner, targetRepo, branchPatterns = [], tagPatterns = [] } = options
+    const copiedBranches: string[] = []
+    const copiedTags: string[] = []
+    const skippedRefs: SkippedRef[] = []
+    
+    // Source commit SHA -> commit created in the new repository
+    const commits = new Map<string, string>()
+    if (options.templateSha) {
+      commits.set(options.templateSha, options.initialCommitSha)
+    }
+    
+    const copyRef = async (ref: string, sourceSha: string, message: string) => {
+      let targetSha = commits.get(sourceSha)
+      if (!targetSha) {
+        const { files } = await this.getAllFiles(sourceOwner, sourceRepo, sourceSha)
+        const tree = await this.createTree(
+          targetOwner,
+          targetRepo,
+          this.renderFiles(this.withoutIgnoredFiles(files, options.pathRules), options.templateVariables)
+        )
+        const commit = await this.createCommit(
+          targetOwner,
+          targetRepo,
+          tree.sha,
+          `${message}
 
+template-sha: ${sourceSha}`,
+          [options.initialCommitSha]
+        )
+        targetSha = commit.sha
+        commits.set(sourceSha, targetSha)
+      }
+      
+      await this.octokit.git.createRef({ owner: targetOwner, repo: targetRepo, ref, sha: targetSha })
+    }
+    
+    const branches = (await this.getBranches(sourceOwner, sourceRepo)).filter(branch =>
+      branch.name !== options.defaultBranch &&
+      (branchPatterns.length === 0 || matchesGlob(branch.name, branchPatterns))
+    )
+    
+    for (const branch of branches) {
+      try {
+        await copyRef(`refs/heads/${branch.name}`, branch.commit.sha, `Branch ${branch.name} from template ${sourceOwner}/${sourceRepo}`)
+        copiedBranches.push(branch.name)
+        console.log(`Created branch: ${branch.name}`)
+      } catch (error) {
+        const { message } = error as RequestError
+        console.error(`Error creating branch ${branch.name}:`, message)
+        skippedRefs.push({ ref: `refs/heads/${branch.name}`, reason: message })
+      }
+    }
+    
+    const tags = tagPatterns.length === 0
+      ? []
+      : (await this.getTags(sourceOwner, sourceRepo)).filter(tag => matchesGlob(tag.name, tagPatterns))
+    
+    for (const tag of tags) {
+      try {
+        await copyRef(`refs/tags/${tag.name}`, tag.commit.sha, `Tag ${tag.name} from template ${sourceOwner}/${sourceRepo}`)
+        copiedTags.push(tag.name)
+        console.log(`Created tag: ${tag.name}`)
+      } catch (error) {
+        const { message } = error as RequestError
+        console.error(`Error creating tag ${tag.name}:`, message)
+        skippedRefs.push({ ref: `refs/tags/${tag.name}`, reason: message })
+      }
+    }
+    
+    return { copiedBranches, copiedTags, skippedRefs }
+  }
+  
   /**
-   * Sync an existing repository with updates from a template
-   * This method reuses the proven logic from cloneAsTemplate but updates an existing repo
+   * Wait until a freshly created repository exposes its initial branch
+   */
+  private async waitForBranch(owner: string, repo: string, branch: string, attempts = 6) {
+    for (let i = 0; i < attempts; i++) {
+      try {
+        await this.octokit.git.getRef({ owner, repo, ref: `heads/${branch}` })
+        console.log('Repository is ready')
+        return
+      } catch (error) {
+        const { status } = error as RequestError
+        if (status !== 404 && status !== 409) throw error
+        console.log(`Repository not ready yet, attempt ${i + 1}/${attempts}`)
+        await sleep(250 * 2 ** i)
+      }
+    }
+    throw new Error('Repository creation timed out. Please try again.')
+  }
+  
+  /**
+   * Point `branch` at `sha`. If the repository was initialized on a different
+   * branch, `branch` is created, made the default and the initial one removed.
+   */
+  private async pointDefaultBranch(owner: string, repo: string, initialBranch: string, branch: string, sha: string) {
+    if (initialBranch === branch) {
+      await this.octokit.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha, force: true })
+      return
+    }
+    
+    await this.octokit.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha })
+    await this.octokit.repos.update({ owner, repo, default_branch: branch })
+    await this.octokit.git.deleteRef({ owner, repo, ref: `heads/${initialBranch}` })
+  }
+  
+  /**
+   * Run a GitHub request, retrying transient failures and waiting out rate limits
+   */
+  private async withRetry<T>(label: string, request: () => Promise<T>, retries = 3): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request()
+      } catch (error) {
+        const { status } = error as RequestError
+        const delay = retryDelay(error, attempt)
+        if (attempt >= retries || delay === null) throw error
+        console.log(`Retry ${attempt + 1} for ${label} in ${delay}ms (${status || 'unknown error'})`)
+        await sleep(delay)
+      }
+    }
+  }
+
+  /**
+   * Sync an existing repository with updates from a template using a three-way
+   * merge. The template commit recorded at the last sync (`template-sha:`) is
+   * the merge base: files only the template changed are applied, files only
+   * the project changed are kept, and files both changed get conflict markers.
    */
   async syncWithTemplate(options: {
     sourceOwner: string
@@ -649,7 +1523,12 @@ export class GitHubRepoCloner {
     sourceToken?: string
     commitMessage?: string
     directToMain?: boolean // If true, syncs directly to the default branch
-  }) {
+    baseTemplateSha?: string // Template commit of the last applied sync; read from the project history if missing
+    sourceRef?: string // Template branch or tag to merge (defaults to the template's default branch)
+    pathRules?: PathRuleSet // Ignored and owned paths (defaults to the built-in sync exclusions)
+    addons?: TemplateLayer[] // Add-ons of the project, re-applied on top of the template
+    templateVariables?: TemplateParameterValues // {{PARAM}} values the project was created with
+  }): Promise<TemplateSyncResult> {
     const {
       sourceOwner,
       sourceRepo,
@@ -677,17 +1556,17 @@ export class GitHubRepoCloner {
       })
       const defaultBranch = targetRepoData.default_branch || 'main'
 
-      // 2. Get source repository information
-      const { data: sourceRepoData } = await sourceOctokit.repos.get({
+      // 2. Template ref to merge: the given one or the template's default branch
+      const sourceRef = options.sourceRef || (await sourceOctokit.repos.get({
         owner: sourceOwner,
         repo: sourceRepo
-      })
+      })).data.default_branch || 'main'
 
       // 3. Get latest template commit SHA
       const { data: templateCommits } = await sourceOctokit.repos.listCommits({
         owner: sourceOwner,
         repo: sourceRepo,
-        sha: sourceRepoData.default_branch || 'main',
+        sha: sourceRef,
         per_page: 1
       })
       
@@ -709,19 +1588,13 @@ export class GitHubRepoCloner {
         syncBranchName = `sync-template-${timestamp}`
       }
 
-      // 5. Get all files from template repository
-      const files = await this.getAllFiles(sourceOwner, sourceRepo, sourceRepoData.default_branch || 'main')
-      
-      if (files.length === 0) {
-        return {
-          success: true,
-          filesCount: 0,
-          message: 'Template repository is empty, nothing to sync'
-        }
+      // 5. Find the merge base: the template commit of the last sync
+      const baseTemplateSha = options.baseTemplateSha
+        || await this.findLastTemplateSha(targetOwner, targetRepo, defaultBranch)
+      if (!baseTemplateSha) {
+        console.warn('No template-sha found in project history; every differing file will be a conflict')
       }
 
-      console.log(`Found ${files.length} files in template repository`)
-
       // 6. Create or checkout the sync branch
       const { data: defaultBranchRef } = await this.octokit.git.getRef({
         owner: targetOwner,
@@ -738,8 +1611,244 @@ export class GitHubRepoCloner {
           ref: `heads/${syncBranchName}`
         })
         branchExists = true
-      } catch (error: any) {
-        if (error.status !== 404) throw error
+      } catch (error) {
+        if ((error as RequestError).status !== 404) throw error
+      }
+
+      // 7. Current commit of the sync branch (the project side of the merge)
+      const headSha = branchExists || syncBranchName === defaultBranch
+        ? (await this.octokit.git.getRef({ owner: targetOwner, repo: targetRepo, ref: `heads/${syncBranchName}` })).data.object.sha
+        : defaultBranchRef.object.sha
+      const { data: currentCommit } = await this.octokit.git.getCommit({
+        owner: targetOwner,
+        repo: targetRepo,
+        commit_sha: headSha
+      })
+
+      // 8. Three-way merge of base, project and latest template trees
+      const [templateBaseEntries, templateEntries, oursEntries] = await Promise.all([
+        baseTemplateSha
+          ? this.getTreeEntries(sourceOctokit, sourceOwner, sourceRepo, baseTemplateSha).catch(error => {
+              console.warn(`Merge base ${baseTemplateSha} not found in template:`, error.message)
+              return null
+            })
+          : Promise.resolve(null),
+        this.getTreeEntries(sourceOctokit, sourceOwner, sourceRepo, latestTemplateCommit.sha),
+        this.getTreeEntries(this.octokit, targetOwner, targetRepo, currentCommit.tree.sha)
+      ])
+
+      // Add-ons are layered over the template on both sides of the merge
+      const addons = options.addons || []
+      const addonShas: Record<string, string> = {}
+      for (const addon of addons) {
+        const octokit = addon.token ? new Octokit({ auth: addon.token }) : this.sourceOctokit
+        const commitSha = await this.resolveCommitSha(addon.owner, addon.repo, addon.ref, octokit)
+        if (!commitSha) {
+          throw new Error(`Add-on ${addon.name}: reference ${addon.ref} not found in ${addon.owner}/${addon.repo}`)
+        }
+        addonShas[addon.id] = commitSha
+      }
+      const templateName = `${sourceOwner}/${sourceRepo}`
+      const { entries: layeredTheirsEntries, conflicts: layerConflicts } = await this.getLayeredEntries(
+        templateEntries,
+        templateName,
+        addons.map(addon => ({ addon, commitSha: addonShas[addon.id] }))
+      )
+      // Add-ons never synced before have no merge base and are compared as new files
+      const layeredBaseEntries = templateBaseEntries && await this.getLayeredEntries(
+        templateBaseEntries,
+        templateName,
+        addons.filter(addon => addon.baseSha).map(addon => ({ addon, commitSha: addon.baseSha! }))
+      ).then(layered => layered.entries).catch(error => {
+        console.warn('Add-on merge base not found:', error.message)
+        return templateBaseEntries
+      })
+
+      const pathRules = options.pathRules || buildPathRules({ includeSyncDefaults: true })
+      const skipped: SkippedFile[] = []
+      const conflicts: MergeConflict[] = []
+      const deletedFiles: string[] = []
+      const renamedFiles: RenamedFile[] = []
+      const reviewFiles: ReviewFile[] = []
+      const labels = {
+        ours: `${targetRepo} (${defaultBranch})`,
+        theirs: `template ${sourceOwner}/${sourceRepo}@${latestTemplateCommit.sha.slice(0, 7)}`
+      }
+
+      const actions = new Map([...layeredTheirsEntries.keys()].map(path => [path, matchPathRules(path, pathRules).action]))
+      const paths = [...actions.keys()].filter(path => actions.get(path) !== 'ignore')
+
+      // Template files renamed since the merge base, when neither path is ignored
+      const renames = layeredBaseEntries && baseTemplateSha
+        ? await this.findTemplateRenames(sourceOctokit, sourceOwner, sourceRepo, baseTemplateSha, latestTemplateCommit.sha, layeredBaseEntries, layeredTheirsEntries)
+        : new Map<string, string>()
+      for (const [path, previous] of renames) {
+        if (actions.get(path) === 'ignore' || matchPathRules(previous, pathRules).action === 'ignore') {
+          renames.delete(path)
+        }
+      }
+
+      // The project files were rendered with its parameter values at clone time, so
+      // both template sides are rendered the same way before comparing. Files the
+      // template did not change are skipped below without reading them.
+      const changedPaths = paths.filter(path => {
+        const base = layeredBaseEntries?.get(renames.get(path) || path)
+        return actions.get(path) === 'owned' || !base || base.sha !== layeredTheirsEntries.get(path)!.sha
+      })
+      const theirsEntries = await this.renderEntries(layeredTheirsEntries, changedPaths, options.templateVariables)
+      const baseEntries = layeredBaseEntries && await this.renderEntries(layeredBaseEntries, [
+        ...changedPaths.map(path => renames.get(path) || path),
+        // Deleted from the template: compared with the project file below
+        ...[...layeredBaseEntries.keys()].filter(path => !layeredTheirsEntries.has(path) && oursEntries.has(path))
+      ], options.templateVariables)
+
+      const mergedFiles = await mapWithConcurrency(paths, MAX_CONCURRENT_REQUESTS, async (path): Promise<RepoFile | null> => {
+        const theirs = theirsEntries.get(path)!
+        const renamedFrom = renames.get(path)
+        const base = baseEntries?.get(renamedFrom || path)
+        const ours = oursEntries.get(path)
+
+        // Renamed in the template: move the project file unless the project modified it
+        const previous = renamedFrom ? oursEntries.get(renamedFrom) : undefined
+        if (renamedFrom && previous && !ours) {
+          try {
+            const content = await this.readBlob(theirs)
+            if (previous.sha === base!.sha || actions.get(path) === 'owned') {
+              renamedFiles.push({ from: renamedFrom, to: path })
+            } else {
+              reviewFiles.push({ path: renamedFrom, reason: `Renamed to \`${path}\` in the template but modified in the project; move your changes and delete the old file` })
+            }
+            return { path, content, mode: theirs.mode }
+          } catch (error) {
+            const { message } = error as RequestError
+            skipped.push({ path, reason: `Could not read template file: ${message}` })
+            return null
+          }
+        }
+
+        // Owned paths always take the template version
+        if (actions.get(path) === 'owned') {
+          if (ours && ours.sha === theirs.sha) return null
+          try {
+            return { path, content: await this.readBlob(theirs), mode: theirs.mode }
+          } catch (error) {
+            const { message } = error as RequestError
+            skipped.push({ path, reason: `Could not read template file: ${message}` })
+            return null
+          }
+        }
+
+        // Template unchanged since the last sync, or project already identical
+        if ((base && base.sha === theirs.sha) || (ours && ours.sha === theirs.sha)) {
+          return null
+        }
+
+        if (!ours && base) {
+          conflicts.push({ path, reason: 'Deleted in the project but changed in the template; the file was not restored' })
+          return null
+        }
+
+        try {
+          const theirsContent = await this.readBlob(theirs)
+
+          // Only the template changed (or the file is new): apply it
+          if (!ours || (base && base.sha === ours.sha)) {
+            return { path, content: theirsContent, mode: theirs.mode }
+          }
+
+          // Both sides changed the file
+          const oursContent = await this.readBlob(ours)
+          if (ours.mode === '120000' || theirs.mode === '120000' || isBinary(oursContent) || isBinary(theirsContent)) {
+            conflicts.push({ path, reason: 'Binary file or symlink changed in both the project and the template; the project version was kept' })
+            return null
+          }
+
+          if (!base && baseEntries) {
+            // Added independently on both sides
+            conflicts.push({ path, reason: 'Added in both the project and the template' })
+            return { path, content: Buffer.from(conflictText(oursContent.toString('utf-8'), theirsContent.toString('utf-8'), labels), 'utf-8'), mode: ours.mode }
+          }
+          if (!base) {
+            conflicts.push({ path, reason: 'No merge base: the file differs from the template' })
+            return { path, content: Buffer.from(conflictText(oursContent.toString('utf-8'), theirsContent.toString('utf-8'), labels), 'utf-8'), mode: ours.mode }
+          }
+
+          const baseContent = await this.readBlob(base)
+          const merged = mergeText(baseContent.toString('utf-8'), oursContent.toString('utf-8'), theirsContent.toString('utf-8'), labels)
+          if (merged.conflicts > 0) {
+            conflicts.push({ path, reason: `${merged.conflicts} conflicting ${merged.conflicts === 1 ? 'change' : 'changes'}` })
+          }
+          return { path, content: Buffer.from(merged.content, 'utf-8'), mode: ours.mode }
+        } catch (error) {
+          const { message } = error as RequestError
+          console.error(`Error merging ${path}:`, message)
+          skipped.push({ path, reason: `Could not merge: ${message}` })
+          return null
+        }
+      })
+
+      // Drop files whose merge result is identical to the project version
+      const filesToSync = mergedFiles.filter((file): file is RepoFile => {
+        if (!file) return false
+        const ours = oursEntries.get(file.path)
+        return !ours || ours.sha !== gitBlobSha(file.content) || ours.mode !== file.mode
+      })
+
+      // Files deleted from the template since the merge base
+      const renamedPaths = new Set(renames.values())
+      for (const [path, base] of baseEntries || []) {
+        const ours = oursEntries.get(path)
+        if (theirsEntries.has(path) || renamedPaths.has(path) || !ours) continue
+
+        const action = matchPathRules(path, pathRules).action
+        if (action === 'ignore') continue
+        if (ours.sha === base.sha || action === 'owned') {
+          deletedFiles.push(path)
+        } else {
+          reviewFiles.push({ path, reason: 'Deleted in the template but modified in the project; the project version was kept' })
+        }
+      }
+
+      // Renamed files are written under the new path and removed from the old one
+      const deletedPaths = [...deletedFiles, ...renamedFiles.map(file => file.from)]
+      const changesCount = filesToSync.length + deletedPaths.length
+      console.log(`Merged template: ${filesToSync.length} files to write, ${deletedPaths.length} to delete, ${conflicts.length} conflicts`)
+
+      if (changesCount === 0) {
+        return {
+          success: true,
+          filesCount: 0,
+          skippedFiles: skipped,
+          conflicts,
+          deletedFiles: [],
+          renamedFiles: [],
+          reviewFiles,
+          layerConflicts,
+          addonShas,
+          baseTemplateSha,
+          templateSha: latestTemplateCommit.sha,
+          projectBaseSha: headSha,
+          message: 'Project is already up to date with the template'
+        }
+      }
+
+      // Conflict markers are never committed straight to the default branch
+      if (conflicts.length > 0 && syncBranchName === defaultBranch) {
+        return {
+          success: false,
+          filesCount: 0,
+          skippedFiles: skipped,
+          conflicts,
+          deletedFiles: [],
+          renamedFiles: [],
+          reviewFiles,
+          layerConflicts,
+          addonShas,
+          baseTemplateSha,
+          templateSha: latestTemplateCommit.sha,
+          projectBaseSha: headSha,
+          message: `${conflicts.length} files conflict with the template. Sync through a pull request to resolve them.`
+        }
       }
 
       if (!branchExists && syncBranchName !== defaultBranch) {
@@ -751,74 +1860,23 @@ export class GitHubRepoCloner {
           sha: defaultBranchRef.object.sha
         })
         console.log(`Created sync branch: ${syncBranchName}`)
-        
-        // Wait a moment for the branch to be fully created
-        await new Promise(resolve => setTimeout(resolve, 1000))
       } else if (syncBranchName === defaultBranch) {
         console.log(`Syncing directly to ${defaultBranch} branch`)
       }
 
-      // 7. Get the current commit of the sync branch
-      let branchRef: any
-      let currentCommit: any
-      
-      try {
-        // Get the branch reference
-        const { data: ref } = await this.octokit.git.getRef({
-          owner: targetOwner,
-          repo: targetRepo,
-          ref: `heads/${syncBranchName}`
-        })
-        branchRef = ref
-
-        // Get the commit details
-        const { data: commit } = await this.octokit.git.getCommit({
-          owner: targetOwner,
-          repo: targetRepo,
-          commit_sha: ref.object.sha
-        })
-        currentCommit = commit
-      } catch (error: any) {
-        console.error(`Error getting branch reference for ${syncBranchName}:`, error.message)
-        throw new Error(`Failed to get current state of branch ${syncBranchName}`)
-      }
-
-      // 8. Filter files to sync (exclude certain files)
-      const filesToSync = files.filter(file => {
-        const skipPatterns = [
-          /^\.git\//,
-          /^node_modules\//,
-          /^\.env/,
-          /^README\.md$/i,
-          /^LICENSE$/i,
-        ]
-        return !skipPatterns.some(pattern => pattern.test(file.path))
-      })
-
-      console.log(`Syncing ${filesToSync.length} files (excluded ${files.length - filesToSync.length} files)`)
-
-      // 9. Create tree with all files from template
+      // 9. Create tree with the merged files on top of the project tree
       console.log(`Creating tree with ${filesToSync.length} files...`)
-      
-      // Try to use the current tree as base, but fall back to creating a new tree if it fails
-      let tree: any
-      try {
-        tree = await this.createTree(targetOwner, targetRepo, filesToSync, currentCommit.tree.sha)
-      } catch (error: any) {
-        console.warn('Failed to create tree with base tree, trying without base tree:', error.message)
-        // If creating with base tree fails, create a new tree without base
-        tree = await this.createTree(targetOwner, targetRepo, filesToSync)
-      }
+      const tree = await this.createTree(targetOwner, targetRepo, filesToSync, currentCommit.tree.sha, deletedPaths)
       
       // 10. Create commit with the new tree
       const commit = await this.createCommit(
         targetOwner,
         targetRepo,
         tree.sha,
-        commitMessage || `Sync with template ${sourceOwner}/${sourceRepo}
+        commitMessage || `Sync with template ${sourceOwner}/${sourceRepo}${conflicts.length > 0 ? ` (${conflicts.length} conflicts)` : ''}
 
 template-sha: ${latestTemplateCommit.sha}`,
-        [branchRef.object.sha]
+        [headSha]
       )
 
       // 11. Update the branch reference
@@ -833,6 +1891,7 @@ template-sha: ${latestTemplateCommit.sha}`,
 
       // 12. Create pull request if requested and not updating default branch
       let pullRequestUrl: string | undefined
+      let pullRequestNumber: number | undefined
       if (createPullRequest && syncBranchName !== defaultBranch) {
         try {
           const { data: pr } = await this.octokit.pulls.create({
@@ -844,8 +1903,27 @@ template-sha: ${latestTemplateCommit.sha}`,
 ## Template Information
 - **Template**: ${sourceOwner}/${sourceRepo}
 - **Template Commit**: ${latestTemplateCommit.sha}
-- **Files Updated**: ${filesToSync.length}
-
+- **Merge Base**: ${baseTemplateSha || 'None (no previous template-sha found)'}
+${addons.length > 0 ? `- **Add-ons**: ${addons.map(addon => `${addon.owner}/${addon.repo}@${addonShas[addon.id].slice(0, 7)}`).join(', ')}
+` : ''}- **Files Updated**: ${filesToSync.length}
+- **Files Deleted**: ${deletedFiles.length}
+- **Files Renamed**: ${renamedFiles.length}
+${renamedFiles.length > 0 ? `
+## Renamed Files
+${renamedFiles.map(file => `- \`${file.from}\` → \`${file.to}\``).join('\n')}
+` : ''}${reviewFiles.length > 0 ? `
+## Manual Review
+The template deleted or renamed these files, but they were modified in the project so they were not removed:
+${reviewFiles.map(file => `- [ ] \`${file.path}\`: ${file.reason}`).join('\n')}
+` : ''}${layerConflicts.length > 0 ? `
+## Add-on Overrides
+These paths come from more than one layer; the layer with the highest precedence was used:
+${layerConflicts.map(conflict => `- \`${conflict.path}\`: ${conflict.layers.join(' → ')} (uses ${conflict.winner})`).join('\n')}
+` : ''}${conflicts.length > 0 ? `
+## Conflicts
+These files were changed in both the project and the template. Resolve the conflict markers (\`<<<<<<<\`, \`=======\`, \`>>>>>>>\`) before merging:
+${conflicts.map(conflict => `- [ ] \`${conflict.path}\`: ${conflict.reason}`).join('\n')}
+` : ''}
 ## Latest Template Commit
 - **Message**: ${latestTemplateCommit.commit.message}
 - **Author**: ${latestTemplateCommit.commit.author?.name || 'Unknown'}
@@ -853,9 +1931,10 @@ template-sha: ${latestTemplateCommit.sha}`,
 
 ## Review Guidelines
 Please review the changes carefully before merging:
-1. Check for any conflicts with your local modifications
-2. Ensure the updates don't break your existing functionality
-3. Test the changes in a development environment if possible
+1. Resolve the conflicts listed above, if any
+2. Delete or move the files listed for manual review
+3. Ensure the updates don't break your existing functionality
+4. Test the changes in a development environment if possible
 
 <!-- template-sha: ${latestTemplateCommit.sha} -->`,
             head: syncBranchName,
@@ -863,6 +1942,7 @@ Please review the changes carefully before merging:
           })
 
           pullRequestUrl = pr.html_url
+          pullRequestNumber = pr.number
           console.log(`Created pull request: ${pullRequestUrl}`)
         } catch (error) {
           console.error('Error creating pull request:', error)
@@ -871,15 +1951,122 @@ Please review the changes carefully before merging:
 
       return {
         success: true,
-        filesCount: filesToSync.length,
+        filesCount: changesCount,
+        skippedFiles: skipped,
+        conflicts,
+        deletedFiles,
+        renamedFiles,
+        reviewFiles,
+        layerConflicts,
+        addonShas,
+        baseTemplateSha,
+        templateSha: latestTemplateCommit.sha,
+        projectBaseSha: headSha,
         syncBranch: syncBranchName,
+        pullRequestNumber,
         pullRequestUrl,
         message: `Successfully synced with template ${sourceOwner}/${sourceRepo}`
       }
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error syncing with template:', error)
-      throw new Error(`Failed to sync with template: ${error.message}`)
+      throw new Error(`Failed to sync with template: ${(error as RequestError).message}`)
     }
   }
-}
\ No newline at end of file
+}
+
+// Reported as a 404 by the clone route
+function sourceRefNotFound(owner: string, repo: string, ref: string) {
+  return new Error(`Not Found: template reference ${ref.replace(/^refs\/(heads|tags)\//, '')} does not exist in ${owner}/${repo}`)
+}
+
+/**
+ * Same heuristic git uses: a NUL byte in the first 8000 bytes means binary
+ */
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0)
+}
+
+/**
+ * SHA git assigns to a blob with this content, to compare without uploading
+ */
+function gitBlobSha(content: Buffer): string {
+  return createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex')
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  })
+  
+  await Promise.all(workers)
+  return results
+}
+
+/**
+ * Content with {{PARAM}} tokens replaced, or null when nothing changes.
+ * Binary files and symlinks are never rendered.
+ */
+function renderContent(content: Buffer, mode: GitFileMode, variables: TemplateParameterValues): Buffer | null {
+  if (mode === '120000' || isBinary(content)) return null
+  
+  const text = content.toString('utf-8')
+  const rendered = replaceTemplateVariables(text, variables)
+  return rendered === text ? null : Buffer.from(rendered, 'utf-8')
+}
+
+/**
+ * How long to wait before retrying a failed request, or null if it should not be retried.
+ * Honors retry-after and x-ratelimit-reset for primary and secondary rate limits.
+ */
+function retryDelay(error: unknown, attempt: number): number | null {
+  const { status = 0, response } = error as RequestError
+  const headers = response?.headers || {}
+  
+  if (status === 403 || status === 429) {
+    let wait: number | null = null
+    if (headers['retry-after']) {
+      wait = Number(headers['retry-after']) * 1000
+    } else if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset']) {
+      wait = Number(headers['x-ratelimit-reset']) * 1000 - Date.now()
+    }
+    if (wait === null) return null
+    return wait <= MAX_RATE_LIMIT_WAIT_MS ? Math.max(wait, 1000) : null
+  }
+  
+  // Transient server errors and "repository not ready" conflicts
+  if (status >= 500 || status === 409) {
+    return 1000 * 2 ** attempt
+  }
+  
+  return null
+}
+
+/**
+ * Record that `winner` overrides `previous` at `path`
+ */
+function recordLayerConflict(conflicts: LayerConflict[], path: string, previous: string, winner: string) {
+  const conflict = conflicts.find(existing => existing.path === path)
+  if (conflict) {
+    conflict.layers.push(winner)
+    conflict.winner = winner
+  } else {
+    conflicts.push({ path, layers: [previous, winner], winner })
+  }
+}
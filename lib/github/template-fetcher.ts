@@ -1,5 +1,7 @@
 import { Octokit } from "@octokit/rest"
 import { ProjectTemplate, FileStructure, GitflowConfig } from "@/lib/templates/project-templates"
+import { TemplateParameter, normalizeParameters } from "@/lib/templates/template-parameters"
+import { normalizePathPatterns } from "@/lib/templates/path-rules"
 
 export interface GitHubTemplateConfig {
   owner: string
@@ -8,6 +10,13 @@ export interface GitHubTemplateConfig {
   path?: string // Ruta al archivo de configuración del template
 }
 
+export interface OrganizationTemplateRepo extends GitHubTemplateConfig {
+  branch: string // Branch por defecto del repositorio
+  description: string | null
+  isPrivate: boolean
+  htmlUrl: string
+}
+
 export interface TemplateManifest {
   name: string
   description: string
@@ -17,6 +26,28 @@ export interface TemplateManifest {
   gitflow: GitflowConfig
   excludeFiles?: string[] // Archivos a excluir del template
   replaceVariables?: boolean // Si debe reemplazar {{VARIABLES}}
+  parameters?: TemplateParameter[] // Valores que el usuario completa al crear el proyecto
+  ignore?: string[] // Reglas estilo .templateignore: archivos que clone y sync nunca tocan
+  ownedPaths?: string[] // Archivos del template que el sync siempre sobrescribe
+}
+
+/**
+ * Normalizar las secciones del manifest que el clone y el sync consumen
+ */
+export function normalizeManifest(manifest: Record<string, unknown>): TemplateManifest {
+  return {
+    ...manifest,
+    parameters: normalizeParameters(manifest.parameters),
+    ignore: normalizePathPatterns(manifest.ignore),
+    ownedPaths: normalizePathPatterns(manifest.ownedPaths)
+  } as TemplateManifest
+}
+
+/**
+ * Error de getManifest cuando el .template.json no es JSON válido
+ */
+export function isInvalidManifestError(error: unknown): error is Error {
+  return error instanceof Error && error.message.startsWith('Invalid template manifest')
 }
 
 export class GitHubTemplateFetcher {
@@ -58,13 +89,28 @@ export class GitHubTemplateFetcher {
     }
   }
   
+  /**
+   * Obtener el manifest de un template, o null si el repositorio no tiene uno.
+   * Un manifest que no es JSON válido lanza "Invalid template manifest".
+   */
+  async getManifest(config: GitHubTemplateConfig): Promise<TemplateManifest | null> {
+    try {
+      return await this.fetchManifest(config.owner, config.repo, config.branch, config.path || '.template.json')
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Template manifest not found')) {
+        return null
+      }
+      throw error
+    }
+  }
+  
   /**
    * Obtener el archivo de configuración del template
    */
   private async fetchManifest(
     owner: string, 
     repo: string, 
-    branch: string, 
+    branch: string | undefined, 
     path: string
   ): Promise<TemplateManifest> {
     try {
@@ -77,12 +123,18 @@ export class GitHubTemplateFetcher {
       
       if ('content' in data && data.type === 'file') {
         const content = Buffer.from(data.content, 'base64').toString('utf-8')
-        return JSON.parse(content)
+        let raw: Record<string, unknown>
+        try {
+          raw = JSON.parse(content)
+        } catch (error) {
+          throw new Error(`Invalid template manifest at ${path}: ${error instanceof Error ? error.message : String(error)}`)
+        }
+        return normalizeManifest(raw)
       }
       
       throw new Error('Template manifest not found')
-    } catch (error: any) {
-      if (error.status === 404) {
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
         throw new Error(`Template manifest not found at ${path}. Create a ${path} file in your template repository.`)
       }
       throw error
@@ -176,26 +228,26 @@ export class GitHubTemplateFetcher {
   }
   
   /**
-   * Listar templates disponibles desde una organización
+   * Listar templates disponibles desde una organización. Los errores se
+   * propagan: una búsqueda fallida no significa que no haya templates.
    */
-  async listOrganizationTemplates(org: string, topic: string = 'idp-template'): Promise<GitHubTemplateConfig[]> {
-    try {
-      // Buscar repositorios con un topic específico
-      const { data } = await this.octokit.search.repos({
-        q: `org:${org} topic:${topic}`,
-        sort: 'updated',
-        order: 'desc'
-      })
-      
-      return data.items.map(repo => ({
-        owner: repo.owner.login,
-        repo: repo.name,
-        branch: repo.default_branch
-      }))
-    } catch (error) {
-      console.error(`Error listing templates from ${org}:`, error)
-      return []
-    }
+  async listOrganizationTemplates(org: string, topic: string = 'idp-template'): Promise<OrganizationTemplateRepo[]> {
+    // Buscar repositorios con un topic específico
+    const items = await this.octokit.paginate(this.octokit.search.repos, {
+      q: `org:${org} topic:${topic} archived:false`,
+      sort: 'updated',
+      order: 'desc',
+      per_page: 100
+    })
+    
+    return items.map(repo => ({
+      owner: repo.owner?.login || org,
+      repo: repo.name,
+      branch: repo.default_branch,
+      description: repo.description,
+      isPrivate: repo.private,
+      htmlUrl: repo.html_url
+    }))
   }
   
   /**
@@ -0,0 +1,292 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { Project, WebhookDeliveryStatus } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { createGitHubClient } from "@/lib/github/client"
+import { WorkflowRun, recordWorkflowRun } from "@/lib/deployments/deployments"
+import { refreshPendingSyncs, updateProjectTemplateCommit } from "@/lib/templates/template-syncs"
+
+interface WebhookRepository {
+  name: string
+  full_name: string
+  html_url: string
+  default_branch?: string
+  owner: { login: string }
+}
+
+// Fields of the GitHub event payloads the portal reads
+export interface WebhookPayload {
+  action?: string
+  repository?: WebhookRepository
+  changes?: {
+    repository?: { name?: { from: string } }
+    owner?: { from: { user?: { login: string }; organization?: { login: string } } }
+  }
+  workflow_run?: WorkflowRun
+  workflow_job?: { run_id: number; status: string; started_at: string | null }
+  pull_request?: { number: number; merged_at: string | null }
+  ref?: string
+  deleted?: boolean
+}
+
+export interface WebhookDeliveryInput {
+  deliveryId: string // X-GitHub-Delivery
+  event: string      // X-GitHub-Event
+  payload: WebhookPayload
+}
+
+export type WebhookDeliveryOutcome = WebhookDeliveryStatus | "DUPLICATE"
+
+// Deliveries still RECEIVED after this long were interrupted (e.g. a server restart) and run again on redelivery
+const DELIVERY_LEASE_MS = 5 * 60 * 1000
+
+/**
+ * Check the X-Hub-Signature-256 header: HMAC-SHA256 of the raw body with the
+ * webhook secret
+ */
+export function verifyWebhookSignature(body: string, signature: string | null, secret: string): boolean {
+  if (!signature?.startsWith("sha256=")) return false
+
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(body).digest("hex")}`)
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Apply a delivery once. Redeliveries of processed or ignored deliveries are
+ * acknowledged without changes; failed ones, and ones whose processing was
+ * interrupted, are processed again.
+ */
+export async function processWebhookDelivery({
+  deliveryId,
+  event,
+  payload
+}: WebhookDeliveryInput): Promise<WebhookDeliveryOutcome> {
+  const { count } = await prisma.webhookDelivery.createMany({
+    data: [{
+      deliveryId,
+      event,
+      action: payload.action,
+      repository: payload.repository?.full_name
+    }],
+    skipDuplicates: true
+  })
+
+  if (count === 0) {
+    // Claim a failed or interrupted delivery for a retry, so concurrent redeliveries run it once
+    const { count: retried } = await prisma.webhookDelivery.updateMany({
+      where: {
+        deliveryId,
+        OR: [
+          { status: "FAILED" },
+          { status: "RECEIVED", receivedAt: { lt: new Date(Date.now() - DELIVERY_LEASE_MS) } }
+        ]
+      },
+      data: { status: "RECEIVED", error: null, receivedAt: new Date() }
+    })
+    if (retried === 0) return "DUPLICATE"
+  }
+
+  try {
+    const status: WebhookDeliveryStatus = await handleWebhookEvent(event, payload) ? "PROCESSED" : "IGNORED"
+    await prisma.webhookDelivery.update({
+      where: { deliveryId },
+      data: { status, processedAt: new Date() }
+    })
+    return status
+  } catch (error) {
+    await prisma.webhookDelivery.update({
+      where: { deliveryId },
+      data: {
+        status: "FAILED",
+        error: error instanceof Error ? error.message : String(error),
+        processedAt: new Date()
+      }
+    })
+    throw error
+  }
+}
+
+// Whether the event changed a linked project
+async function handleWebhookEvent(event: string, payload: WebhookPayload): Promise<boolean> {
+  const repository = payload.repository
+  if (!repository) return false
+
+  // Renamed and transferred repositories are still linked by their previous URL
+  if (event === "repository") return handleRepositoryEvent(payload, repository)
+
+  const projects = await linkedProjects(repository.html_url)
+  if (projects.length === 0) return false
+
+  switch (event) {
+    case "workflow_run":
+      return handleWorkflowRun(projects, repository, payload)
+    case "workflow_job":
+      return handleWorkflowJob(projects, payload)
+    case "pull_request":
+      return handlePullRequest(projects, payload)
+    case "push":
+      return handlePush(projects, repository, payload)
+    default:
+      return false
+  }
+}
+
+async function handleWorkflowRun(projects: Project[], repository: WebhookRepository, payload: WebhookPayload) {
+  if (!payload.workflow_run) return false
+
+  let recorded = false
+  for (const project of projects) {
+    // The owner's token reads the plan logs when a plan completes
+    const octokit = await projectOwnerClient(project)
+    const deployment = await recordWorkflowRun(
+      project.id,
+      payload.workflow_run,
+      octokit,
+      repository.owner.login,
+      repository.name,
+      true // Read plans after answering so GitHub does not time out the delivery
+    )
+    recorded = recorded || deployment !== null
+  }
+  return recorded
+}
+
+// A job starting means the run left the queue, before workflow_run reports it
+async function handleWorkflowJob(projects: Project[], payload: WebhookPayload) {
+  const job = payload.workflow_job
+  if (!job || job.status !== "in_progress") return false
+
+  const { count } = await prisma.deployment.updateMany({
+    where: {
+      projectId: { in: projects.map(p => p.id) },
+      runId: BigInt(job.run_id),
+      status: "QUEUED"
+    },
+    data: {
+      status: "IN_PROGRESS",
+      startedAt: job.started_at ? new Date(job.started_at) : undefined
+    }
+  })
+  return count > 0
+}
+
+// Same transitions as refreshPendingSyncs, without asking GitHub
+async function handlePullRequest(projects: Project[], payload: WebhookPayload) {
+  const pr = payload.pull_request
+  if (!pr) return false
+
+  const where = { projectId: { in: projects.map(p => p.id) }, pullRequestNumber: pr.number }
+
+  if (payload.action === "closed") {
+    const { count } = await prisma.templateSync.updateMany({
+      where: { ...where, status: "PENDING" },
+      data: { status: pr.merged_at ? "APPLIED" : "CLOSED" }
+    })
+    if (count > 0 && pr.merged_at) {
+      for (const project of projects) {
+        await updateProjectTemplateCommit(project.id)
+      }
+    }
+    return count > 0
+  }
+
+  if (payload.action === "reopened") {
+    const { count } = await prisma.templateSync.updateMany({
+      where: { ...where, status: "CLOSED" },
+      data: { status: "PENDING" }
+    })
+    return count > 0
+  }
+
+  return false
+}
+
+// Sync branches merged by hand land on the default branch; re-check the open sync pull requests and pushed branches
+async function handlePush(projects: Project[], repository: WebhookRepository, payload: WebhookPayload) {
+  if (payload.deleted || payload.ref !== `refs/heads/${repository.default_branch}`) return false
+
+  let checked = false
+  for (const project of projects) {
+    const pending = await prisma.templateSync.count({
+      where: {
+        projectId: project.id,
+        OR: [
+          { status: "PENDING", pullRequestNumber: { not: null } },
+          { status: "BRANCH_PUSHED" }
+        ]
+      }
+    })
+    if (pending === 0) continue
+
+    await refreshPendingSyncs(project.id, await projectOwnerClient(project), repository.owner.login, repository.name)
+    checked = true
+  }
+  return checked
+}
+
+async function handleRepositoryEvent(payload: WebhookPayload, repository: WebhookRepository) {
+  switch (payload.action) {
+    case "renamed":
+    case "transferred": {
+      const previousOwner = payload.changes?.owner?.from.user?.login ||
+        payload.changes?.owner?.from.organization?.login ||
+        repository.owner.login
+      const previousName = payload.changes?.repository?.name?.from || repository.name
+
+      const projects = await linkedProjects(`https://github.com/${previousOwner}/${previousName}`)
+      if (projects.length === 0) return false
+
+      await prisma.project.updateMany({
+        where: { id: { in: projects.map(p => p.id) } },
+        data: { githubRepo: repository.html_url }
+      })
+      return true
+    }
+    case "deleted":
+      return updateProjectStatus(repository, {}, "DELETED")
+    case "archived":
+      return updateProjectStatus(repository, { status: "ACTIVE" }, "ARCHIVED")
+    case "unarchived":
+      return updateProjectStatus(repository, { status: "ARCHIVED" }, "ACTIVE")
+    default:
+      return false
+  }
+}
+
+async function updateProjectStatus(
+  repository: WebhookRepository,
+  where: { status?: Project["status"] },
+  status: Project["status"]
+) {
+  const projects = await linkedProjects(repository.html_url)
+  if (projects.length === 0) return false
+
+  const { count } = await prisma.project.updateMany({
+    where: { id: { in: projects.map(p => p.id) }, ...where },
+    data: { status }
+  })
+  return count > 0
+}
+
+// Projects whose repository is the given one, as stored on creation (html_url)
+async function linkedProjects(repositoryUrl: string) {
+  return prisma.project.findMany({
+    where: {
+      status: { not: "DELETED" },
+      OR: [
+        { githubRepo: { equals: repositoryUrl, mode: "insensitive" } },
+        { githubRepo: { equals: `${repositoryUrl}.git`, mode: "insensitive" } }
+      ]
+    }
+  })
+}
+
+async function projectOwnerClient(project: Project) {
+  const account = await prisma.account.findFirst({
+    where: {
+      userId: project.userId,
+      provider: 'github'
+    }
+  })
+  return createGitHubClient(account?.access_token || undefined)
+}
@@ -0,0 +1,250 @@
+import { z } from "zod"
+import { GitHubTemplate } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { safeDecrypt } from "@/lib/encryption"
+import { RepoCloneOptions, TeamAccessGrant, TeamPermission } from "@/lib/github/repo-cloner"
+import { GitHubTemplateFetcher, TemplateManifest, isInvalidManifestError } from "@/lib/github/template-fetcher"
+import { TemplateParameterValues, resolveParameterValues } from "@/lib/templates/template-parameters"
+import { buildPathRules } from "@/lib/templates/path-rules"
+import { buildAddonLayers } from "@/lib/templates/template-addons"
+
+// Access levels offered in the UI mapped to GitHub team permissions
+const TEAM_PERMISSIONS: Record<string, TeamPermission> = {
+  read: "pull",
+  write: "push",
+  admin: "admin"
+}
+
+const awsConfigSchema = z.object({
+  awsRole: z.string().optional(),
+  awsRegion: z.string().optional(),
+  awsBackend: z.string().optional(),
+  projectName: z.string().optional(),
+  accessToken: z.string().optional(),
+  usernameGithub: z.string().optional()
+})
+
+// Body of /api/projects/clone and /api/projects/preview
+const cloneRequestSchema = z.object({
+  sourceUrl: z.string(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  isPrivate: z.boolean().optional(),
+  includeBranches: z.boolean().optional(),
+  githubTemplateId: z.string().optional(),
+  githubUsername: z.string().optional(),
+  githubToken: z.string().optional(),
+  awsConfig: awsConfigSchema.optional(),
+  parameters: z.record(z.unknown()).optional(),
+  cloneStrategy: z.string().optional(),
+  organization: z.string().optional(),
+  // Permissions are checked below to name the offending team
+  teamAccess: z.array(z.object({ teamSlug: z.string(), permission: z.string() })).optional(),
+  templateVersionId: z.string().optional(),
+  addonIds: z.array(z.string()).optional()
+})
+
+export type CloneRequestBody = z.infer<typeof cloneRequestSchema>
+
+export type AwsConfig = z.infer<typeof awsConfigSchema>
+
+export interface PreparedClone {
+  body: CloneRequestBody // Validated request body
+  sourceOwner: string
+  sourceRepo: string
+  sourceToken?: string
+  githubTemplateId: string | null // Database id of the template
+  templateVersion: { id: string; tag: string } | null
+  addons: GitHubTemplate[] // In the user's selection order
+  manifest: TemplateManifest | null
+  templateVariables: TemplateParameterValues
+  // Options shared by the clone and its preview
+  cloneOptions: Omit<RepoCloneOptions, "targetName" | "targetDescription" | "isPrivate" | "targetUsername" | "strategy">
+}
+
+export type CloneRequestResult =
+  | { clone: PreparedClone; error?: undefined }
+  | { error: string; status: number; details?: unknown }
+
+/**
+ * Validate a clone request and resolve everything the cloner needs: the
+ * template, pinned version, add-ons, manifest rules and parameter values
+ */
+export async function prepareCloneRequest(rawBody: unknown): Promise<CloneRequestResult> {
+  const parsedBody = cloneRequestSchema.safeParse(rawBody)
+  if (!parsedBody.success) {
+    return { error: "Invalid data", status: 400, details: parsedBody.error.errors }
+  }
+  const body = parsedBody.data
+  const {
+    sourceUrl,
+    includeBranches = true,
+    githubTemplateId,
+    githubUsername,
+    githubToken,
+    parameters = {},
+    organization,
+    teamAccess = [],
+    templateVersionId,
+    addonIds = []
+  } = body
+
+  // Validate custom credentials if provided
+  if (githubUsername && !githubToken) {
+    return { error: "GitHub token is required when providing a username", status: 400 }
+  }
+  if (!githubUsername && githubToken) {
+    return { error: "GitHub username is required when providing a token", status: 400 }
+  }
+
+  // Team access can only be granted on organization repositories
+  if (teamAccess.length > 0 && !organization) {
+    return { error: "Team access requires an organization", status: 400 }
+  }
+  const teamGrants: TeamAccessGrant[] = []
+  for (const grant of teamAccess) {
+    const permission = TEAM_PERMISSIONS[grant.permission]
+    if (!grant.teamSlug || !permission) {
+      return {
+        error: `Invalid team access for ${grant.teamSlug || "unknown team"}. Use read, write or admin.`,
+        status: 400
+      }
+    }
+    teamGrants.push({ teamSlug: grant.teamSlug, permission })
+  }
+
+  // Parsear la URL del repositorio fuente
+  const match = sourceUrl.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
+  if (!match) {
+    return { error: "URL de GitHub inválida", status: 400 }
+  }
+
+  const sourceOwner = match[1]
+  const sourceRepo = match[2].replace('.git', '')
+
+  // Get source token if cloning from a template
+  let sourceToken: string | undefined
+  let template: GitHubTemplate | null = null
+  let templateBranch: string | undefined
+  let templateVersion: { id: string; tag: string } | null = null
+
+  if (githubTemplateId) {
+    // First try to find by database id, then by templateId field
+    template = await prisma.gitHubTemplate.findUnique({ where: { id: githubTemplateId } })
+      || await prisma.gitHubTemplate.findUnique({ where: { templateId: githubTemplateId } })
+
+    if (template) {
+      templateBranch = template.branch
+      if (template.githubToken) {
+        // Use safeDecrypt to handle both encrypted and plain text tokens
+        sourceToken = safeDecrypt(template.githubToken)
+        console.log(`Token decrypted successfully for template: ${template.name}`)
+      }
+    } else {
+      console.warn(`Template not found with id/templateId: ${githubTemplateId}`)
+    }
+  }
+
+  // Pinned template version: clone at its tag instead of the template branch
+  if (templateVersionId) {
+    templateVersion = template
+      ? await prisma.templateVersion.findFirst({
+          where: { id: templateVersionId, githubTemplateId: template.id }
+        })
+      : null
+
+    if (!templateVersion) {
+      return { error: "Template version not found", status: 400 }
+    }
+    // Fully qualified, so a branch with the same name does not shadow the tag
+    templateBranch = `refs/tags/${templateVersion.tag}`
+  }
+
+  // Add-ons layered on top of the template, applied in precedence order
+  const uniqueAddonIds = Array.from(new Set(addonIds))
+  const addons = uniqueAddonIds.length > 0
+    ? await prisma.gitHubTemplate.findMany({
+        where: { id: { in: uniqueAddonIds }, isAddon: true, isActive: true }
+      })
+    : []
+  if (addons.length !== uniqueAddonIds.length || addons.some(addon => addon.id === template?.id)) {
+    return { error: "Invalid add-on selection", status: 400 }
+  }
+  // Keep the user's selection order for add-ons with the same precedence
+  addons.sort((a, b) => uniqueAddonIds.indexOf(a.id) - uniqueAddonIds.indexOf(b.id))
+
+  // Resolve {{PARAM}} values declared in the template manifest
+  const fetcher = new GitHubTemplateFetcher(sourceToken)
+  let manifest: TemplateManifest | null
+  try {
+    manifest = await fetcher.getManifest({
+      owner: sourceOwner,
+      repo: sourceRepo,
+      branch: templateBranch
+    })
+  } catch (error) {
+    if (isInvalidManifestError(error)) {
+      return { error: "Invalid .template.json", status: 400, details: error.message }
+    }
+    throw error
+  }
+
+  const { values: templateVariables, errors: parameterErrors } = resolveParameterValues(
+    manifest?.replaceVariables === false ? [] : manifest?.parameters || [],
+    parameters
+  )
+
+  if (parameterErrors.length > 0) {
+    return { error: "Invalid template parameters", status: 400, details: parameterErrors }
+  }
+
+  return {
+    clone: {
+      body,
+      sourceOwner,
+      sourceRepo,
+      sourceToken,
+      githubTemplateId: template?.id || null,
+      templateVersion,
+      addons,
+      manifest,
+      templateVariables,
+      cloneOptions: {
+        sourceOwner,
+        sourceRepo,
+        sourceRef: templateVersion ? templateBranch : undefined,
+        includeBranches,
+        branchPatterns: template?.branchPatterns || [],
+        tagPatterns: template?.tagPatterns || [],
+        sourceToken,
+        targetOrganization: organization || undefined,
+        teamAccess: teamGrants,
+        templateVariables,
+        pathRules: buildPathRules({
+          manifest,
+          ignorePaths: template?.ignorePaths,
+          ownedPaths: template?.ownedPaths
+        }),
+        addons: buildAddonLayers(addons)
+      }
+    }
+  }
+}
+
+/**
+ * GitHub Actions secrets and variables configured from the AWS settings
+ */
+export function awsSecretsAndVariables(awsConfig: AwsConfig) {
+  return {
+    secrets: {
+      ACCESS_TOKEN: awsConfig.accessToken,
+      USERNAME_GITHUB: awsConfig.usernameGithub
+    },
+    variables: {
+      AWS_ROLE: awsConfig.awsRole,
+      AWS_REGION: awsConfig.awsRegion,
+      AWS_BACKEND: awsConfig.awsBackend,
+      PROJECT_NAME: awsConfig.projectName
+    }
+  }
+}
@@ -1,12 +1,20 @@
 import { prisma } from "@/lib/prisma"
 import { decrypt } from "@/lib/encryption"
+import { GitHubTemplateConfig, GitHubTemplateFetcher, TemplateManifest } from "@/lib/github/template-fetcher"
+import {
+  TemplateCategoryGroup,
+  TemplateCategoryInfo,
+  categorySlug,
+  groupTemplatesByCategory,
+  templateCategorySelect
+} from "@/lib/templates/template-categories"
 
 export interface GitHubTemplate {
   id: string
   templateId: string
   name: string
   description: string
-  category: string
+  category: TemplateCategoryInfo | null
   icon: string
   githubUrl: string
   branch: string
@@ -22,10 +30,21 @@ export interface GitHubTemplateWithToken extends GitHubTemplate {
   githubToken?: string | null
 }
 
+// Fields of a GitHubTemplate row that come from the repository's .template.json.
+// category is the manifest's free text, resolved with resolveTemplateCategoryId.
+export interface ManifestTemplateFields {
+  name: string
+  description: string
+  category: string
+  icon: string
+  features: string[]
+}
+
 // Get all active GitHub templates from database
 export async function getGitHubTemplates(): Promise<GitHubTemplate[]> {
   const templates = await prisma.gitHubTemplate.findMany({
-    where: { isActive: true },
+    where: { isActive: true, isAddon: false },
+    include: { category: { select: templateCategorySelect } },
     orderBy: { createdAt: "desc" }
   })
   
@@ -50,7 +69,8 @@ export async function getGitHubTemplateById(templateId: string): Promise<GitHubT
     where: { 
       templateId,
       isActive: true 
-    }
+    },
+    include: { category: { select: templateCategorySelect } }
   })
   
   if (!template) return null
@@ -70,29 +90,38 @@ export async function getGitHubTemplateById(templateId: string): Promise<GitHubT
   }
 }
 
-// Get templates by category
-export async function getGitHubTemplatesByCategory(category: string): Promise<GitHubTemplate[]> {
-  const templates = await prisma.gitHubTemplate.findMany({
-    where: { 
-      category,
-      isActive: true 
-    },
-    orderBy: { createdAt: "desc" }
+// Get active templates grouped by their managed category, in category order
+export async function getGitHubTemplatesByCategory(): Promise<TemplateCategoryGroup<GitHubTemplate>[]> {
+  return groupTemplatesByCategory(await getGitHubTemplates())
+}
+
+/**
+ * Managed category for a free-text name, e.g. the category of a manifest.
+ * Unknown names create a category only when `create` is set; otherwise the
+ * template stays uncategorized.
+ */
+export async function resolveTemplateCategoryId(
+  name: string | null | undefined,
+  options: { create?: boolean } = {}
+): Promise<string | null> {
+  const slug = name ? categorySlug(name) : ""
+  if (!slug) return null
+
+  const existing = await prisma.templateCategory.findFirst({
+    where: { OR: [{ slug }, { name: { equals: name!.trim(), mode: "insensitive" } }] },
+    select: { id: true }
   })
-  
-  return templates.map(template => ({
-    id: template.templateId,
-    templateId: template.templateId,
-    name: template.name,
-    description: template.description,
-    category: template.category,
-    icon: template.icon,
-    githubUrl: template.githubUrl,
-    branch: template.branch,
-    features: template.features,
-    includeBranches: template.includeBranches,
-    isPrivate: template.isPrivate
-  }))
+  if (existing) return existing.id
+  if (!options.create) return null
+
+  const last = await prisma.templateCategory.aggregate({ _max: { sortOrder: true } })
+  const category = await prisma.templateCategory.upsert({
+    where: { slug },
+    update: {},
+    create: { slug, name: name!.trim(), sortOrder: (last._max.sortOrder ?? -1) + 1 },
+    select: { id: true }
+  })
+  return category.id
 }
 
 // Get a template by templateId with decrypted token (for internal use only)
@@ -101,7 +130,8 @@ export async function getGitHubTemplateWithToken(templateId: string): Promise<Gi
     where: { 
       templateId,
       isActive: true 
-    }
+    },
+    include: { category: { select: templateCategorySelect } }
   })
   
   if (!template) return null
@@ -134,6 +164,31 @@ export async function getGitHubTemplateWithToken(templateId: string): Promise<Gi
   }
 }
 
+// Read the display fields of a template from its manifest (null if the repo has no manifest)
+export async function fetchManifestTemplateFields(
+  config: GitHubTemplateConfig,
+  token?: string
+): Promise<Partial<ManifestTemplateFields> | null> {
+  const fetcher = new GitHubTemplateFetcher(token)
+  const manifest = await fetcher.getManifest(config)
+  
+  return manifest ? manifestTemplateFields(manifest) : null
+}
+
+// Pick the GitHubTemplate fields out of an already fetched manifest
+export function manifestTemplateFields(manifest: TemplateManifest): Partial<ManifestTemplateFields> {
+  const fields: Partial<ManifestTemplateFields> = {}
+  if (typeof manifest.name === "string" && manifest.name.trim()) fields.name = manifest.name.trim()
+  if (typeof manifest.description === "string") fields.description = manifest.description
+  if (typeof manifest.category === "string" && manifest.category.trim()) fields.category = manifest.category.trim()
+  if (typeof manifest.icon === "string" && manifest.icon.trim()) fields.icon = manifest.icon.trim()
+  if (Array.isArray(manifest.features)) {
+    fields.features = manifest.features.filter((f): f is string => typeof f === "string" && f.trim() !== "")
+  }
+  
+  return fields
+}
+
 // Seed initial templates if database is empty
 export async function seedGitHubTemplates() {
   const count = await prisma.gitHubTemplate.count()
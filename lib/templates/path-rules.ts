@@ -0,0 +1,118 @@
+import { globToRegExp } from "@/lib/utils"
+
+// Where a rule was declared
+export type PathRuleSource = "default" | "manifest" | "admin"
+
+export interface PathRule {
+  pattern: string // .templateignore syntax: `!` negates, trailing `/` matches directories
+  source: PathRuleSource
+}
+
+export interface PathRuleSet {
+  ignore: PathRule[] // Files the template never writes to projects
+  owned: PathRule[] // Files the template always overwrites on sync
+}
+
+// "copy": regular clone/merge, "ignore": never touched, "owned": template version wins
+export type PathAction = "copy" | "ignore" | "owned"
+
+export interface PathRuleMatch {
+  action: PathAction
+  rule?: PathRule // Rule that decided the action (a `!` rule for re-included files)
+}
+
+// Paths sync always skipped before rules were configurable, all at the repository root
+export const DEFAULT_SYNC_IGNORE = ["/.git/", "/node_modules/", "/.env*", "/README.md", "/LICENSE"]
+
+/**
+ * Normalize a list of rules from the manifest or the admin form: one
+ * pattern per entry, blank lines and `#` comments dropped
+ */
+export function normalizePathPatterns(raw: unknown): string[] {
+  const lines = typeof raw === "string" ? raw.split("\n") : Array.isArray(raw) ? raw : []
+  return lines
+    .filter((line): line is string => typeof line === "string")
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("#"))
+}
+
+/**
+ * Combine the rules of a template. Later rules take precedence, so admin
+ * rules can override the manifest and both can re-include sync defaults.
+ */
+export function buildPathRules(options: {
+  manifest?: { ignore?: string[]; ownedPaths?: string[] } | null
+  ignorePaths?: string[]
+  ownedPaths?: string[]
+  includeSyncDefaults?: boolean
+}): PathRuleSet {
+  const withSource = (patterns: string[] | undefined, source: PathRuleSource) =>
+    normalizePathPatterns(patterns).map(pattern => ({ pattern, source }))
+
+  return {
+    ignore: [
+      ...(options.includeSyncDefaults ? withSource(DEFAULT_SYNC_IGNORE, "default") : []),
+      ...withSource(options.manifest?.ignore, "manifest"),
+      ...withSource(options.ignorePaths, "admin")
+    ],
+    owned: [
+      ...withSource(options.manifest?.ownedPaths, "manifest"),
+      ...withSource(options.ownedPaths, "admin")
+    ]
+  }
+}
+
+/**
+ * Decide what clone and sync do with `path`. Ignore rules follow
+ * .gitignore semantics (last match wins, `!` re-includes) and take
+ * precedence over owned paths.
+ */
+export function matchPathRules(path: string, rules: PathRuleSet): PathRuleMatch {
+  let ignored: PathRule | undefined
+  let included: PathRule | undefined
+  for (const rule of rules.ignore) {
+    const negated = rule.pattern.startsWith("!")
+    if (!matchesPattern(path, negated ? rule.pattern.slice(1) : rule.pattern)) continue
+    if (negated) {
+      ignored = undefined
+      included = rule
+    } else {
+      ignored = rule
+      included = undefined
+    }
+  }
+  if (ignored) {
+    return { action: "ignore", rule: ignored }
+  }
+
+  const owned = rules.owned.find(rule => matchesPattern(path, rule.pattern))
+  if (owned) {
+    return { action: "owned", rule: owned }
+  }
+
+  return { action: "copy", rule: included }
+}
+
+/**
+ * .gitignore-style match: patterns without a slash match a file or directory
+ * name at any depth, patterns with a slash are anchored to the repository
+ * root, and a matching directory matches everything below it
+ */
+function matchesPattern(path: string, pattern: string): boolean {
+  const directoryOnly = pattern.endsWith("/")
+  let glob = directoryOnly ? pattern.slice(0, -1) : pattern
+  const anchored = glob.includes("/")
+  if (glob.startsWith("/")) glob = glob.slice(1)
+  if (!glob) return false
+
+  const regex = globToRegExp(glob)
+  const segments = path.split("/")
+  // Directories are every segment but the last
+  const candidates = directoryOnly ? segments.length - 1 : segments.length
+
+  for (let i = 0; i < candidates; i++) {
+    const candidate = anchored ? segments.slice(0, i + 1).join("/") : segments[i]
+    if (regex.test(candidate)) return true
+  }
+  return false
+}
@@ -0,0 +1,38 @@
+// Tipos compartidos para templates de proyecto construidos desde repositorios de GitHub
+
+// Mapa de ruta de archivo -> contenido
+export type FileStructure = Record<string, string>
+
+// Reglas de protección que se aplican a un branch (o patrón como release/*)
+export interface BranchProtectionProfile {
+  requiredReviews?: number
+  dismissStaleReviews?: boolean
+  requireCodeOwnerReviews?: boolean
+  requiredStatusChecks?: string[]
+  strictStatusChecks?: boolean // El branch debe estar al día antes de hacer merge
+  enforceAdmins?: boolean
+  allowForcePushes?: boolean
+  allowDeletions?: boolean
+}
+
+export interface GitflowConfig {
+  defaultBranch: string
+  branches: {
+    develop?: boolean
+    feature?: boolean
+    release?: boolean
+    hotfix?: boolean
+  }
+  protection?: Record<string, BranchProtectionProfile> // Clave: nombre de branch o patrón
+}
+
+export interface ProjectTemplate {
+  id: string
+  name: string
+  description: string
+  category: string
+  icon: string
+  features: string[]
+  gitflow: GitflowConfig
+  structure: FileStructure
+}
@@ -0,0 +1,84 @@
+import { GitHubTemplate, Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { safeDecrypt } from "@/lib/encryption"
+import { TemplateLayer } from "@/lib/github/repo-cloner"
+import { buildPathRules } from "@/lib/templates/path-rules"
+
+/**
+ * Order add-ons the way they are layered: lowest precedence first, so the
+ * add-on with the highest precedence wins conflicting paths. Ties keep the
+ * order the user selected them in.
+ */
+export function sortAddons<T extends Pick<GitHubTemplate, "addonPrecedence">>(addons: T[]): T[] {
+  return [...addons].sort((a, b) => a.addonPrecedence - b.addonPrecedence)
+}
+
+/**
+ * Layers for the cloner, in precedence order. `baseShas` are the add-on
+ * commits of the last applied sync, used as merge base.
+ */
+export function buildAddonLayers(addons: GitHubTemplate[], baseShas: Record<string, string> = {}): TemplateLayer[] {
+  return sortAddons(addons).map(addon => {
+    const match = addon.githubUrl.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
+    if (!match) {
+      throw new Error(`Invalid GitHub URL for add-on ${addon.name}`)
+    }
+
+    return {
+      id: addon.id,
+      name: addon.name,
+      owner: match[1],
+      repo: match[2].replace('.git', ''),
+      ref: addon.branch,
+      token: addon.githubToken ? safeDecrypt(addon.githubToken) || undefined : undefined,
+      pathRules: buildPathRules({ ignorePaths: addon.ignorePaths }),
+      baseSha: baseShas[addon.id]
+    }
+  })
+}
+
+/**
+ * Add-on commits the project currently contains: the ones recorded by the
+ * last applied sync that included each add-on, or the ones it was created with
+ */
+export async function lastAppliedAddonShas(
+  projectId: string,
+  projectAddons: { githubTemplateId: string; templateSha: string | null }[]
+): Promise<Record<string, string>> {
+  const syncs = await prisma.templateSync.findMany({
+    where: {
+      projectId,
+      status: { in: ["APPLIED", "UP_TO_DATE"] },
+      addonShas: { not: Prisma.AnyNull }
+    },
+    select: { addonShas: true },
+    orderBy: { createdAt: "desc" }
+  })
+
+  const shas: Record<string, string> = {}
+  for (const addon of projectAddons) {
+    const synced = syncs
+      .map(sync => (sync.addonShas as Record<string, string>)[addon.githubTemplateId])
+      .find(Boolean)
+    const sha = synced || addon.templateSha
+    if (sha) {
+      shas[addon.githubTemplateId] = sha
+    }
+  }
+  return shas
+}
+
+/**
+ * Layers of a project's add-ons, ready to be re-applied by a sync
+ */
+export async function getProjectAddonLayers(projectId: string): Promise<TemplateLayer[]> {
+  const projectAddons = await prisma.projectAddon.findMany({
+    where: { projectId },
+    include: { githubTemplate: true },
+    orderBy: { createdAt: "asc" }
+  })
+  if (projectAddons.length === 0) return []
+
+  const baseShas = await lastAppliedAddonShas(projectId, projectAddons)
+  return buildAddonLayers(projectAddons.map(addon => addon.githubTemplate), baseShas)
+}
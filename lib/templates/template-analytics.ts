@@ -0,0 +1,199 @@
+import { TemplateSyncStatus } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { safeDecrypt } from "@/lib/encryption"
+import { createGitHubClient } from "@/lib/github/client"
+
+// Template commits inspected to measure how far behind a project is
+const COMMIT_HISTORY_LIMIT = 100
+// Months shown in the creation trend
+const TREND_MONTHS = 12
+
+export interface SyncPullRequestStats {
+  merged: number
+  closed: number
+  pending: number
+  mergeRate: number | null // merged / (merged + closed), null without decided pull requests
+}
+
+export interface TemplateUsageSummary {
+  id: string
+  name: string
+  icon: string
+  activeProjects: number
+  totalProjects: number
+  createdLast30Days: number
+  pullRequests: SyncPullRequestStats
+}
+
+export interface ProjectFreshness {
+  id: string
+  name: string
+  owner: string | null
+  templateSha: string | null
+  behindBy: number | null // Commits behind the template branch, null when unknown
+  lastSyncAt: string | null
+}
+
+export interface TemplateAnalytics extends TemplateUsageSummary {
+  branch: string
+  latestSha: string | null
+  latestError?: string
+  freshness: {
+    upToDate: number
+    behind: number
+    unknown: number // Commit not found in the recent template history
+    averageBehind: number | null
+  }
+  projects: ProjectFreshness[]
+  trend: { month: string; count: number }[] // YYYY-MM, oldest first
+}
+
+/**
+ * Usage of every base template, from the database only
+ */
+export async function getTemplateUsageSummaries(): Promise<TemplateUsageSummary[]> {
+  const templates = await prisma.gitHubTemplate.findMany({
+    where: { isActive: true, isAddon: false },
+    select: { id: true, name: true, icon: true },
+    orderBy: { name: "asc" }
+  })
+  const projects = await prisma.project.findMany({
+    where: { githubTemplateId: { in: templates.map(t => t.id) } },
+    select: { githubTemplateId: true, status: true, createdAt: true }
+  })
+  const syncs = await prisma.templateSync.findMany({
+    where: { pullRequestNumber: { not: null }, project: { githubTemplateId: { in: templates.map(t => t.id) } } },
+    select: { status: true, project: { select: { githubTemplateId: true } } }
+  })
+
+  const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+  return templates.map(template => {
+    const templateProjects = projects.filter(p => p.githubTemplateId === template.id)
+    return {
+      ...template,
+      activeProjects: templateProjects.filter(p => p.status === "ACTIVE").length,
+      totalProjects: templateProjects.length,
+      createdLast30Days: templateProjects.filter(p => p.createdAt >= since).length,
+      pullRequests: pullRequestStats(
+        syncs.filter(s => s.project.githubTemplateId === template.id).map(s => s.status)
+      )
+    }
+  })
+}
+
+/**
+ * Adoption of one template: how current its active projects are, how sync
+ * pull requests are received and how many projects are created each month
+ */
+export async function getTemplateAnalytics(githubTemplateId: string): Promise<TemplateAnalytics | null> {
+  const template = await prisma.gitHubTemplate.findUnique({ where: { id: githubTemplateId } })
+  if (!template) return null
+
+  const projects = await prisma.project.findMany({
+    where: { githubTemplateId },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      templateSha: true,
+      createdAt: true,
+      user: { select: { name: true, email: true } }
+    },
+    orderBy: { createdAt: "asc" }
+  })
+  const activeProjects = projects.filter(p => p.status === "ACTIVE")
+
+  const syncs = await prisma.templateSync.findMany({
+    where: { project: { githubTemplateId } },
+    select: { projectId: true, status: true, templateSha: true, pullRequestNumber: true, createdAt: true },
+    orderBy: { createdAt: "desc" }
+  })
+
+  // Newest template commits first; the index of a commit is how far behind it is
+  let history: string[] = []
+  let latestError: string | undefined
+  try {
+    const match = template.githubUrl.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
+    if (!match) throw new Error("Invalid GitHub URL")
+
+    const octokit = createGitHubClient(template.githubToken ? safeDecrypt(template.githubToken) || undefined : undefined)
+    const { data: commits } = await octokit.repos.listCommits({
+      owner: match[1],
+      repo: match[2].replace('.git', ''),
+      sha: template.branch,
+      per_page: COMMIT_HISTORY_LIMIT
+    })
+    history = commits.map(commit => commit.sha)
+  } catch (error) {
+    console.error(`Error reading commits of template ${template.name}:`, error)
+    latestError = error instanceof Error ? error.message : String(error)
+  }
+
+  const projectFreshness: ProjectFreshness[] = activeProjects.map(project => {
+    // Same rule as lastAppliedTemplateSha, from the syncs already loaded
+    const projectSyncs = syncs.filter(s => s.projectId === project.id)
+    const applied = projectSyncs.find(s => (s.status === "APPLIED" || s.status === "UP_TO_DATE") && s.templateSha)
+    const templateSha = applied?.templateSha || project.templateSha
+    const index = templateSha ? history.indexOf(templateSha) : -1
+
+    return {
+      id: project.id,
+      name: project.name,
+      owner: project.user.name || project.user.email,
+      templateSha,
+      behindBy: index === -1 ? null : index,
+      lastSyncAt: projectSyncs[0]?.createdAt.toISOString() || null
+    }
+  })
+
+  const known = projectFreshness.filter(p => p.behindBy !== null)
+  const behind = known.filter(p => p.behindBy! > 0)
+  const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+
+  return {
+    id: template.id,
+    name: template.name,
+    icon: template.icon,
+    branch: template.branch,
+    latestSha: history[0] || null,
+    latestError,
+    activeProjects: activeProjects.length,
+    totalProjects: projects.length,
+    createdLast30Days: projects.filter(p => p.createdAt >= since).length,
+    pullRequests: pullRequestStats(syncs.filter(s => s.pullRequestNumber !== null).map(s => s.status)),
+    freshness: {
+      upToDate: known.length - behind.length,
+      behind: behind.length,
+      unknown: projectFreshness.length - known.length,
+      averageBehind: behind.length > 0
+        ? Math.round(behind.reduce((sum, p) => sum + p.behindBy!, 0) / behind.length * 10) / 10
+        : null
+    },
+    projects: projectFreshness.sort((a, b) => (b.behindBy ?? Infinity) - (a.behindBy ?? Infinity)),
+    trend: monthlyTrend(projects.map(p => p.createdAt))
+  }
+}
+
+function pullRequestStats(statuses: TemplateSyncStatus[]): SyncPullRequestStats {
+  const merged = statuses.filter(s => s === "APPLIED").length
+  const closed = statuses.filter(s => s === "CLOSED").length
+  return {
+    merged,
+    closed,
+    pending: statuses.filter(s => s === "PENDING").length,
+    mergeRate: merged + closed > 0 ? merged / (merged + closed) : null
+  }
+}
+
+function monthlyTrend(dates: Date[]) {
+  const now = new Date()
+  const months = Array.from({ length: TREND_MONTHS }, (_, i) => {
+    const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (TREND_MONTHS - 1 - i), 1))
+    return date.toISOString().slice(0, 7)
+  })
+
+  return months.map(month => ({
+    month,
+    count: dates.filter(date => date.toISOString().slice(0, 7) === month).length
+  }))
+}
@@ -0,0 +1,67 @@
+// Shared by the API routes and the gallery pages, so no server-only imports here
+
+export interface TemplateCategoryInfo {
+  id: string
+  slug: string
+  name: string
+  icon: string | null
+  description: string | null
+  sortOrder: number
+}
+
+export interface TemplateCategoryGroup<T> {
+  category: TemplateCategoryInfo | null // null groups the uncategorized templates
+  templates: T[]
+}
+
+// Prisma select for the category shown next to a template
+export const templateCategorySelect = {
+  id: true,
+  slug: true,
+  name: true,
+  icon: true,
+  description: true,
+  sortOrder: true
+} as const
+
+/**
+ * Normalized form of a category name; names with the same slug are the same
+ * category. Names without ASCII letters or numbers ("データ") fall back to the
+ * hex of their UTF-8 bytes. Must match the normalization of the
+ * add_template_categories migration.
+ */
+export function categorySlug(name: string): string {
+  const normalized = name.trim().toLowerCase()
+  if (!normalized) return ""
+
+  const slug = normalized
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+  if (slug) return slug
+
+  const bytes = Array.from(new TextEncoder().encode(normalized))
+  return `category-${bytes.map(byte => byte.toString(16).padStart(2, "0")).join("")}`
+}
+
+/**
+ * Group templates by their managed category, in category order. Uncategorized
+ * templates come last; categories without templates are left out.
+ */
+export function groupTemplatesByCategory<T extends { category: TemplateCategoryInfo | null }>(
+  templates: T[]
+): TemplateCategoryGroup<T>[] {
+  const groups = new Map<string | null, TemplateCategoryGroup<T>>()
+  for (const template of templates) {
+    const key = template.category?.id ?? null
+    if (!groups.has(key)) {
+      groups.set(key, { category: template.category, templates: [] })
+    }
+    groups.get(key)!.templates.push(template)
+  }
+
+  return Array.from(groups.values()).sort((a, b) => {
+    if (!a.category) return 1
+    if (!b.category) return -1
+    return a.category.sortOrder - b.category.sortOrder || a.category.name.localeCompare(b.category.name)
+  })
+}
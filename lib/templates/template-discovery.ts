@@ -0,0 +1,277 @@
+import { DiscoveredTemplate, Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { safeDecrypt } from "@/lib/encryption"
+import { createGitHubClient } from "@/lib/github/client"
+import { GitHubTemplateFetcher } from "@/lib/github/template-fetcher"
+import { manifestTemplateFields, resolveTemplateCategoryId } from "@/lib/templates/github-templates"
+import { TemplateValidationResult, validateTemplateRepository } from "@/lib/templates/template-validation"
+
+// Hours between periodic re-scans; 0 disables them
+const DEFAULT_SCAN_INTERVAL_HOURS = 24
+
+export interface TemplateScanSummary {
+  sourceId: string
+  found: number
+  added: number // Repositories seen for the first time
+  removed: number // Repositories that lost the topic since the last scan
+  error?: string
+}
+
+export interface ImportedTemplate {
+  discoveredId: string
+  githubTemplateId: string
+  templateId: string
+  name: string
+}
+
+export interface SkippedImport {
+  discoveredId: string
+  reason: string
+}
+
+/**
+ * Search the organization of a source for repositories with its topic,
+ * validate each one and flag the repositories that appeared or disappeared
+ */
+export async function scanTemplateSource(sourceId: string): Promise<TemplateScanSummary> {
+  const source = await prisma.templateSource.findUniqueOrThrow({ where: { id: sourceId } })
+  const token = source.githubToken ? safeDecrypt(source.githubToken) || undefined : undefined
+  const fetcher = new GitHubTemplateFetcher(token)
+  const octokit = createGitHubClient(token)
+
+  let repositories
+  try {
+    repositories = await fetcher.listOrganizationTemplates(source.organization, source.topic)
+  } catch (error) {
+    // Keep the previous results: a failed search says nothing about removals
+    const message = error instanceof Error ? error.message : String(error)
+    await prisma.templateSource.update({
+      where: { id: sourceId },
+      data: { lastScannedAt: new Date(), lastScanError: message }
+    })
+    return { sourceId, found: 0, added: 0, removed: 0, error: message }
+  }
+
+  const existing = await prisma.discoveredTemplate.findMany({ where: { sourceId } })
+  const scannedAt = new Date()
+  let added = 0
+
+  for (const repository of repositories) {
+    const previous = existing.find(d => d.owner === repository.owner && d.repo === repository.repo)
+    const validation = await validateRepository(octokit, repository.owner, repository.repo, repository.branch)
+
+    // Active template imported from this repository, by a scan or by hand
+    const template = await prisma.gitHubTemplate.findFirst({
+      where: {
+        isActive: true,
+        OR: [
+          ...(previous?.githubTemplateId ? [{ id: previous.githubTemplateId }] : []),
+          { owner: repository.owner, repoName: repository.repo }
+        ]
+      },
+      select: { id: true }
+    })
+    const githubTemplateId = template?.id || null
+
+    const data = {
+      githubUrl: repository.htmlUrl,
+      defaultBranch: repository.branch,
+      description: repository.description,
+      isPrivate: repository.isPrivate,
+      validation: validation as unknown as Prisma.InputJsonValue,
+      githubTemplateId,
+      status: discoveredStatus(previous, githubTemplateId),
+      lastSeenAt: scannedAt,
+      removedAt: null
+    }
+
+    if (previous) {
+      await prisma.discoveredTemplate.update({ where: { id: previous.id }, data })
+    } else {
+      await prisma.discoveredTemplate.create({
+        data: { ...data, sourceId, owner: repository.owner, repo: repository.repo }
+      })
+      added++
+    }
+  }
+
+  const { count: removed } = await prisma.discoveredTemplate.updateMany({
+    where: { sourceId, status: { not: "REMOVED" }, lastSeenAt: { lt: scannedAt } },
+    data: { status: "REMOVED", removedAt: scannedAt }
+  })
+
+  await prisma.templateSource.update({
+    where: { id: sourceId },
+    data: { lastScannedAt: scannedAt, lastScanError: null }
+  })
+
+  return { sourceId, found: repositories.length, added, removed }
+}
+
+/**
+ * Re-scan every active source one after the other
+ */
+export async function scanAllTemplateSources(): Promise<TemplateScanSummary[]> {
+  const sources = await prisma.templateSource.findMany({
+    where: { isActive: true },
+    select: { id: true, organization: true, topic: true }
+  })
+
+  const summaries: TemplateScanSummary[] = []
+  for (const source of sources) {
+    try {
+      const summary = await scanTemplateSource(source.id)
+      summaries.push(summary)
+      if (summary.added > 0 || summary.removed > 0) {
+        console.log(`Template discovery ${source.organization} (${source.topic}): ${summary.added} new, ${summary.removed} removed`)
+      }
+    } catch (error) {
+      console.error(`Error scanning template source ${source.organization}:`, error)
+    }
+  }
+  return summaries
+}
+
+/**
+ * Create a GitHubTemplate for each selected repository. Repositories that are
+ * already imported, removed or fail validation are skipped.
+ */
+export async function importDiscoveredTemplates(ids: string[], createdBy: string) {
+  const discovered = await prisma.discoveredTemplate.findMany({
+    where: { id: { in: ids } },
+    include: { source: true }
+  })
+
+  const imported: ImportedTemplate[] = []
+  const skipped: SkippedImport[] = []
+
+  for (const id of ids) {
+    const repository = discovered.find(d => d.id === id)
+    if (!repository) {
+      skipped.push({ discoveredId: id, reason: "Repository not found" })
+      continue
+    }
+    if (repository.status === "IMPORTED" || repository.status === "REMOVED") {
+      skipped.push({ discoveredId: id, reason: `Repository is ${repository.status.toLowerCase()}` })
+      continue
+    }
+    if (!(repository.validation as TemplateValidationResult | null)?.valid) {
+      skipped.push({ discoveredId: id, reason: "Repository failed validation" })
+      continue
+    }
+
+    try {
+      const template = await createTemplateFromRepository(repository, repository.source.githubToken, createdBy)
+      if (!template) {
+        skipped.push({ discoveredId: id, reason: `Template ID ${repository.repo} is already in use` })
+        continue
+      }
+
+      await prisma.discoveredTemplate.update({
+        where: { id },
+        data: { status: "IMPORTED", githubTemplateId: template.id }
+      })
+      imported.push({ discoveredId: id, githubTemplateId: template.id, templateId: template.templateId, name: template.name })
+    } catch (error) {
+      console.error(`Error importing template ${repository.owner}/${repository.repo}:`, error)
+      skipped.push({ discoveredId: id, reason: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return { imported, skipped }
+}
+
+/**
+ * Re-scan active sources every TEMPLATE_DISCOVERY_INTERVAL_HOURS while the
+ * server runs. Started once from instrumentation.ts.
+ */
+export function startTemplateDiscoverySchedule() {
+  const hours = Number(process.env.TEMPLATE_DISCOVERY_INTERVAL_HOURS ?? DEFAULT_SCAN_INTERVAL_HOURS)
+  if (!hours || hours <= 0) return
+
+  // Dev server reloads would otherwise stack intervals
+  const globalForDiscovery = globalThis as unknown as { templateDiscoveryTimer?: NodeJS.Timeout }
+  if (globalForDiscovery.templateDiscoveryTimer) return
+
+  let scanning = false
+  globalForDiscovery.templateDiscoveryTimer = setInterval(async () => {
+    if (scanning) return
+    scanning = true
+    try {
+      await scanAllTemplateSources()
+    } finally {
+      scanning = false
+    }
+  }, hours * 60 * 60 * 1000)
+}
+
+async function validateRepository(
+  octokit: ReturnType<typeof createGitHubClient>,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<Omit<TemplateValidationResult, "manifest"> & { name?: string }> {
+  try {
+    const { manifest, ...result } = await validateTemplateRepository({ octokit, owner, repo, ref })
+    return { ...result, name: manifest?.name }
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [{
+        severity: "error",
+        code: "repository/unreadable",
+        message: error instanceof Error ? error.message : String(error)
+      }],
+      warnings: []
+    }
+  }
+}
+
+function discoveredStatus(previous: DiscoveredTemplate | undefined, githubTemplateId: string | null) {
+  if (githubTemplateId) return "IMPORTED" as const
+  // Dismissed repositories stay hidden unless they disappear and come back
+  if (previous?.status === "DISMISSED") return "DISMISSED" as const
+  return "NEW" as const
+}
+
+async function createTemplateFromRepository(
+  repository: DiscoveredTemplate,
+  encryptedToken: string | null,
+  createdBy: string
+) {
+  // The repository name is the template ID; fall back to owner-repo on clashes
+  const candidates = [repository.repo, `${repository.owner}-${repository.repo}`]
+  const taken = await prisma.gitHubTemplate.findMany({
+    where: { templateId: { in: candidates } },
+    select: { templateId: true }
+  })
+  const templateId = candidates.find(candidate => !taken.some(t => t.templateId === candidate))
+  if (!templateId) return null
+
+  const token = encryptedToken ? safeDecrypt(encryptedToken) || undefined : undefined
+  const manifest = await new GitHubTemplateFetcher(token).getManifest({
+    owner: repository.owner,
+    repo: repository.repo,
+    branch: repository.defaultBranch
+  })
+  const fields = manifest ? manifestTemplateFields(manifest) : null
+
+  return prisma.gitHubTemplate.create({
+    data: {
+      templateId,
+      name: fields?.name || repository.repo,
+      description: fields?.description ?? repository.description ?? "",
+      categoryId: await resolveTemplateCategoryId(fields?.category, { create: true }),
+      icon: fields?.icon || "📦",
+      githubUrl: repository.githubUrl,
+      branch: repository.defaultBranch,
+      features: fields?.features ?? [],
+      isPrivate: repository.isPrivate,
+      owner: repository.owner,
+      repoName: repository.repo,
+      githubOrganization: repository.owner,
+      githubToken: encryptedToken, // Same token the source scans with
+      createdBy
+    }
+  })
+}
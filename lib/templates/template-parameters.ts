@@ -0,0 +1,165 @@
+export type TemplateParameterType = "string" | "number" | "boolean"
+
+export interface TemplateParameter {
+  name: string // Token used in template files as {{NAME}}
+  type: TemplateParameterType
+  label?: string
+  description?: string
+  default?: string | number | boolean
+  required?: boolean
+  pattern?: string // Regex the rendered value must match
+}
+
+export type TemplateParameterValues = Record<string, string>
+
+export interface ParameterValidationError {
+  name: string
+  message: string
+}
+
+const PARAMETER_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+const PARAMETER_TYPES: TemplateParameterType[] = ["string", "number", "boolean"]
+
+/**
+ * Normalize the `parameters` section of a template manifest, dropping
+ * entries that cannot be used as {{TOKENS}}
+ */
+export function normalizeParameters(raw: unknown): TemplateParameter[] {
+  if (!Array.isArray(raw)) return []
+
+  const parameters: TemplateParameter[] = []
+  const seen = new Set<string>()
+
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") continue
+    const { name, type, label, description, required, pattern } = entry as Record<string, unknown>
+
+    if (typeof name !== "string" || !PARAMETER_NAME_PATTERN.test(name) || seen.has(name)) {
+      console.warn(`Ignoring invalid template parameter: ${JSON.stringify(entry)}`)
+      continue
+    }
+    seen.add(name)
+
+    const parameterType = PARAMETER_TYPES.includes(type as TemplateParameterType)
+      ? (type as TemplateParameterType)
+      : "string"
+    const defaultValue = (entry as Record<string, unknown>).default
+
+    parameters.push({
+      name,
+      type: parameterType,
+      label: typeof label === "string" ? label : undefined,
+      description: typeof description === "string" ? description : undefined,
+      default: ["string", "number", "boolean"].includes(typeof defaultValue)
+        ? (defaultValue as string | number | boolean)
+        : undefined,
+      required: required === true,
+      pattern: typeof pattern === "string" ? pattern : undefined
+    })
+  }
+
+  return parameters
+}
+
+/**
+ * Validate user-provided values against the declared parameters and apply defaults.
+ * Returns the values as strings, ready to be substituted into file contents.
+ */
+export function resolveParameterValues(
+  parameters: TemplateParameter[],
+  input: Record<string, unknown> = {}
+): { values: TemplateParameterValues; errors: ParameterValidationError[] } {
+  const values: TemplateParameterValues = {}
+  const errors: ParameterValidationError[] = []
+
+  for (const parameter of parameters) {
+    const provided = input[parameter.name]
+    const raw = provided === undefined || provided === null || provided === ""
+      ? parameter.default
+      : provided
+
+    if (raw === undefined || raw === "") {
+      if (parameter.required) {
+        errors.push({ name: parameter.name, message: `${parameter.label || parameter.name} is required` })
+      }
+      continue
+    }
+
+    let value: string
+    switch (parameter.type) {
+      case "number": {
+        const parsed = typeof raw === "number" ? raw : Number(String(raw).trim())
+        if (!Number.isFinite(parsed)) {
+          errors.push({ name: parameter.name, message: `${parameter.label || parameter.name} must be a number` })
+          continue
+        }
+        value = String(parsed)
+        break
+      }
+      case "boolean": {
+        const normalized = String(raw).trim().toLowerCase()
+        if (!["true", "false"].includes(normalized)) {
+          errors.push({ name: parameter.name, message: `${parameter.label || parameter.name} must be true or false` })
+          continue
+        }
+        value = normalized
+        break
+      }
+      default:
+        value = String(raw)
+    }
+
+    if (parameter.pattern) {
+      let regex: RegExp
+      try {
+        regex = new RegExp(`^(?:${parameter.pattern})$`)
+      } catch {
+        errors.push({ name: parameter.name, message: `Template declares an invalid pattern for ${parameter.name}` })
+        continue
+      }
+      if (!regex.test(value)) {
+        errors.push({
+          name: parameter.name,
+          message: `${parameter.label || parameter.name} must match ${parameter.pattern}`
+        })
+        continue
+      }
+    }
+
+    values[parameter.name] = value
+  }
+
+  return { values, errors }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Parameter values stored with a project (Project.templateParameters),
+ * dropping anything that is not a string value
+ */
+export function storedParameterValues(raw: unknown): TemplateParameterValues {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {}
+
+  return Object.fromEntries(
+    Object.entries(raw).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  )
+}
+
+/**
+ * Replace {{NAME}} tokens for the given values. Only declared parameters are
+ * replaced, and GitHub Actions expressions (${{ ... }}) are left untouched.
+ */
+export function replaceTemplateVariables(content: string, values: TemplateParameterValues): string {
+  const names = Object.keys(values)
+  if (names.length === 0 || !content.includes("{{")) return content
+
+  const tokenPattern = new RegExp(
+    `(?<!\\$)\\{\\{\\s*(${names.map(escapeRegExp).join("|")})\\s*\\}\\}`,
+    "g"
+  )
+
+  return content.replace(tokenPattern, (_, name: string) => values[name])
+}
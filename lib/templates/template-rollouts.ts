@@ -0,0 +1,222 @@
+import { Prisma, TemplateRolloutStatus, TemplateSync } from "@prisma/client"
+import { Octokit } from "@octokit/rest"
+import { prisma } from "@/lib/prisma"
+import { parseSyncRepositories, refreshPendingSyncs, runTemplateSync } from "@/lib/templates/template-syncs"
+
+// Pause between projects so a rollout does not exhaust GitHub rate limits
+const ROLLOUT_DELAY_MS = 2000
+
+// Running rollouts without progress for this long lost their runner (e.g. a server restart)
+const ROLLOUT_STALE_MS = 30 * 60 * 1000
+
+/**
+ * Queue a sync for every non-deleted project created from the template
+ */
+export async function startTemplateRollout(githubTemplateId: string, triggeredById: string) {
+  const projects = await prisma.project.findMany({
+    where: {
+      githubTemplateId,
+      status: { not: "DELETED" },
+      githubRepo: { not: null }
+    },
+    select: { id: true },
+    orderBy: { createdAt: "asc" }
+  })
+
+  return prisma.templateRollout.create({
+    data: {
+      githubTemplateId,
+      triggeredById,
+      status: projects.length > 0 ? "RUNNING" : "COMPLETED",
+      completedAt: projects.length > 0 ? null : new Date(),
+      syncs: {
+        create: projects.map(project => ({
+          projectId: project.id,
+          status: "QUEUED" as const,
+          triggeredById
+        }))
+      }
+    }
+  })
+}
+
+/**
+ * Run the queued syncs of a rollout one project at a time, each with the
+ * GitHub credentials of the project owner
+ */
+export async function runTemplateRollout(rolloutId: string) {
+  // Re-read before each project and before saving its sync
+  const isCancelled = async () => (await prisma.templateRollout.findUnique({
+    where: { id: rolloutId },
+    select: { status: true }
+  }))?.status === "CANCELLED"
+
+  while (true) {
+    if (await isCancelled()) return
+
+    const next = await prisma.templateSync.findFirst({
+      where: { rolloutId, status: "QUEUED" },
+      orderBy: { createdAt: "asc" }
+    })
+    if (!next) break
+
+    // Claim the sync so a runner started by a retry does not run it twice
+    const { count } = await prisma.templateSync.updateMany({
+      where: { id: next.id, status: "QUEUED" },
+      data: { status: "RUNNING" }
+    })
+    if (count === 0) continue
+
+    // Heartbeat: updatedAt tells a live rollout from an interrupted one
+    await prisma.templateRollout.update({ where: { id: rolloutId }, data: { updatedAt: new Date() } })
+
+    await syncRolloutProject(next, isCancelled)
+    await new Promise(resolve => setTimeout(resolve, ROLLOUT_DELAY_MS))
+  }
+
+  // Another runner finishes the rollout if a retry queued more syncs meanwhile
+  const remaining = await prisma.templateSync.count({
+    where: { rolloutId, status: { in: ["QUEUED", "RUNNING"] } }
+  })
+  if (remaining === 0) {
+    await prisma.templateRollout.updateMany({
+      where: { id: rolloutId, status: "RUNNING" },
+      data: { status: "COMPLETED", completedAt: new Date() }
+    })
+  }
+}
+
+/**
+ * Stop running rollouts of a template whose runner stopped reporting
+ * progress. Their unfinished syncs are marked FAILED so they can be retried.
+ */
+export async function failStaleRollouts(githubTemplateId: string) {
+  const stale = await prisma.templateRollout.findMany({
+    where: {
+      githubTemplateId,
+      status: "RUNNING",
+      updatedAt: { lt: new Date(Date.now() - ROLLOUT_STALE_MS) }
+    },
+    select: { id: true }
+  })
+
+  for (const rollout of stale) {
+    await stopRollout(rollout.id, "COMPLETED", "Rollout was interrupted before this project was synced")
+  }
+}
+
+/**
+ * Cancel a running rollout: its queued and running syncs are marked FAILED,
+ * and the runner neither starts another project nor saves the one in flight
+ */
+export function cancelRollout(rolloutId: string) {
+  return stopRollout(rolloutId, "CANCELLED", "Rollout was cancelled")
+}
+
+async function stopRollout(rolloutId: string, status: TemplateRolloutStatus, error: string) {
+  await prisma.$transaction([
+    prisma.templateSync.updateMany({
+      where: { rolloutId, status: { in: ["QUEUED", "RUNNING"] } },
+      data: { status: "FAILED", error }
+    }),
+    prisma.templateRollout.update({
+      where: { id: rolloutId },
+      data: { status, completedAt: new Date() }
+    })
+  ])
+}
+
+/**
+ * Queue failed syncs of a rollout again (all of them, or only `syncId`).
+ * Returns how many were queued; the caller runs the rollout afterwards.
+ */
+export async function retryRolloutSyncs(rolloutId: string, syncId?: string) {
+  const { count } = await prisma.templateSync.updateMany({
+    where: {
+      rolloutId,
+      status: "FAILED",
+      ...(syncId ? { id: syncId } : {})
+    },
+    data: {
+      status: "QUEUED",
+      templateSha: null,
+      baseTemplateSha: null,
+      projectBaseSha: null,
+      branch: null,
+      pullRequestNumber: null,
+      pullRequestUrl: null,
+      filesCount: 0,
+      conflictsCount: 0,
+      addonShas: Prisma.DbNull,
+      error: null
+    }
+  })
+
+  if (count > 0) {
+    await prisma.templateRollout.update({
+      where: { id: rolloutId },
+      data: { status: "RUNNING", completedAt: null }
+    })
+  }
+  return count
+}
+
+/**
+ * Update the rollout's open pull requests (merged or closed) with each
+ * project owner's credentials
+ */
+export async function refreshRolloutPullRequests(rolloutId: string) {
+  const pending = await prisma.templateSync.findMany({
+    where: { rolloutId, status: { in: ["PENDING", "BRANCH_PUSHED"] } },
+    include: { project: { include: { githubTemplate: true } } }
+  })
+
+  for (const sync of pending) {
+    const repositories = parseSyncRepositories(sync.project)
+    const ownerAccount = await prisma.account.findFirst({
+      where: { userId: sync.project.userId, provider: "github" }
+    })
+    if (!repositories || !ownerAccount?.access_token) continue
+
+    await refreshPendingSyncs(
+      sync.projectId,
+      new Octokit({ auth: ownerAccount.access_token }),
+      repositories.projectOwner,
+      repositories.projectRepo
+    )
+  }
+}
+
+async function syncRolloutProject(sync: TemplateSync, isCancelled: () => Promise<boolean>) {
+  const fail = (error: string) => prisma.templateSync.update({
+    where: { id: sync.id },
+    data: { status: "FAILED", error }
+  })
+
+  const project = await prisma.project.findUnique({
+    where: { id: sync.projectId },
+    include: { githubTemplate: true }
+  })
+  if (!project || project.status === "DELETED") {
+    return fail("Project was deleted")
+  }
+
+  const ownerAccount = await prisma.account.findFirst({
+    where: { userId: project.userId, provider: "github" }
+  })
+  if (!ownerAccount?.access_token) {
+    return fail("Project owner has no GitHub credentials")
+  }
+
+  try {
+    await runTemplateSync(project, {
+      accessToken: ownerAccount.access_token,
+      createPullRequest: true,
+      triggeredById: sync.triggeredById || undefined,
+      syncId: sync.id,
+      isCancelled
+    })
+  } catch {
+    // Already recorded as FAILED by runTemplateSync
+  }
+}
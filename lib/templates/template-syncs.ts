@@ -0,0 +1,368 @@
+import { Octokit } from "@octokit/rest"
+import { GitHubTemplate, Prisma, Project, TemplateSync } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { safeDecrypt } from "@/lib/encryption"
+import { GitHubRepoCloner, TemplateChangelog, TemplateSyncResult } from "@/lib/github/repo-cloner"
+import { GitHubTemplateFetcher } from "@/lib/github/template-fetcher"
+import { PathRuleSet, buildPathRules } from "@/lib/templates/path-rules"
+import { getProjectAddonLayers } from "@/lib/templates/template-addons"
+import { storedParameterValues } from "@/lib/templates/template-parameters"
+import { latestVersion } from "@/lib/templates/template-versions"
+
+/**
+ * Update PENDING syncs from the state of their pull requests: merged pull
+ * requests become APPLIED and closed ones CLOSED. Branches pushed without a
+ * pull request become APPLIED once merged into the default branch and
+ * CLOSED when deleted.
+ */
+export async function refreshPendingSyncs(projectId: string, octokit: Octokit, owner: string, repo: string) {
+  const pending = await prisma.templateSync.findMany({
+    where: {
+      projectId,
+      OR: [
+        { status: "PENDING", pullRequestNumber: { not: null } },
+        { status: "BRANCH_PUSHED", branch: { not: null } }
+      ]
+    }
+  })
+
+  let defaultBranch: string | undefined
+  let applied = false
+  for (const sync of pending) {
+    try {
+      if (sync.status === "BRANCH_PUSHED") {
+        defaultBranch ??= (await octokit.repos.get({ owner, repo })).data.default_branch
+        const status = await pushedBranchStatus(octokit, owner, repo, defaultBranch, sync.branch!)
+        if (status) {
+          await prisma.templateSync.update({ where: { id: sync.id }, data: { status } })
+          applied ||= status === "APPLIED"
+        }
+        continue
+      }
+
+      const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: sync.pullRequestNumber! })
+      if (pr.state !== "closed") continue
+
+      await prisma.templateSync.update({
+        where: { id: sync.id },
+        data: { status: pr.merged_at ? "APPLIED" : "CLOSED" }
+      })
+      applied ||= Boolean(pr.merged_at)
+    } catch (error) {
+      console.error(`Error checking sync ${sync.id} of project ${projectId}:`, error)
+    }
+  }
+
+  if (applied) {
+    await updateProjectTemplateCommit(projectId)
+  }
+}
+
+// APPLIED when the default branch contains the sync branch, CLOSED when it was deleted
+async function pushedBranchStatus(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  defaultBranch: string,
+  branch: string
+): Promise<"APPLIED" | "CLOSED" | null> {
+  try {
+    const { data: comparison } = await octokit.repos.compareCommits({ owner, repo, base: defaultBranch, head: branch })
+    return comparison.status === "identical" || comparison.status === "behind" ? "APPLIED" : null
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) return "CLOSED"
+    throw error
+  }
+}
+
+/**
+ * Template commit the project currently contains: the last applied (or
+ * already up to date) sync, or the commit it was cloned from
+ */
+export async function lastAppliedTemplateSha(project: Pick<Project, "id" | "templateSha">): Promise<string | null> {
+  const lastApplied = await prisma.templateSync.findFirst({
+    where: {
+      projectId: project.id,
+      status: { in: ["APPLIED", "UP_TO_DATE"] },
+      templateSha: { not: null }
+    },
+    orderBy: { createdAt: "desc" }
+  })
+
+  return lastApplied?.templateSha || project.templateSha
+}
+
+// Project with the template it was created from
+type TemplateProject = Project & { githubTemplate: GitHubTemplate | null }
+
+export interface RunTemplateSyncOptions {
+  accessToken: string // GitHub token of the user the sync runs as
+  createPullRequest?: boolean
+  directToMain?: boolean
+  triggeredById?: string
+  syncId?: string // Queued sync record to update instead of creating a new one
+  isCancelled?: () => Promise<boolean> // Checked before updating syncId; a cancelled record is left as is
+}
+
+/**
+ * Owner and name of the project repository and of its template repository
+ */
+export function parseSyncRepositories(project: TemplateProject) {
+  const projectRepoMatch = project.githubRepo?.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
+  const templateRepoMatch = project.githubTemplate?.githubUrl.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
+  if (!projectRepoMatch || !templateRepoMatch) return null
+
+  return {
+    projectOwner: projectRepoMatch[1],
+    projectRepo: projectRepoMatch[2].replace('.git', ''),
+    templateOwner: templateRepoMatch[1],
+    templateRepo: templateRepoMatch[2].replace('.git', '')
+  }
+}
+
+/**
+ * Template ref syncs merge, compare and baseline against: the latest stored
+ * version tag for projects pinned to a version, the branch configured for
+ * the template otherwise
+ */
+export async function templateSyncRef(
+  project: Pick<Project, "templateVersionId">,
+  template: GitHubTemplate
+): Promise<string> {
+  if (project.templateVersionId) {
+    const versions = await prisma.templateVersion.findMany({ where: { githubTemplateId: template.id } })
+    const latest = latestVersion(versions)
+    if (latest) return `refs/tags/${latest.tag}`
+  }
+  return template.branch || "main"
+}
+
+/**
+ * Keep the project's template commit on its last applied sync. Pinned
+ * projects move to the version tagged at that commit; the pin is cleared
+ * when no version matches it.
+ */
+export async function updateProjectTemplateCommit(projectId: string) {
+  const project = await prisma.project.findUnique({ where: { id: projectId } })
+  if (!project) return
+
+  const templateSha = await lastAppliedTemplateSha(project)
+  if (!templateSha || templateSha === project.templateSha) return
+
+  const version = project.templateVersionId && project.githubTemplateId
+    ? await prisma.templateVersion.findFirst({
+        where: { githubTemplateId: project.githubTemplateId, commitSha: templateSha }
+      })
+    : null
+
+  await prisma.project.update({
+    where: { id: projectId },
+    data: { templateSha, templateVersionId: version?.id ?? null }
+  })
+}
+
+/**
+ * Latest commit of a template ref, or null when the ref has no commits
+ */
+export async function latestTemplateCommit(octokit: Octokit, owner: string, repo: string, ref: string) {
+  const { data: commits } = await octokit.repos.listCommits({ owner, repo, sha: ref, per_page: 1 })
+  return commits[0] || null
+}
+
+/**
+ * Sync a project with the latest commit of its template and record the
+ * outcome in its sync history. Failures are recorded as FAILED and rethrown.
+ */
+export async function runTemplateSync(
+  project: TemplateProject,
+  options: RunTemplateSyncOptions
+): Promise<{ sync: TemplateSync; result: TemplateSyncResult }> {
+  const { accessToken, createPullRequest = true, directToMain = false, triggeredById, syncId, isCancelled } = options
+
+  const saveSync = async (data: Prisma.TemplateSyncUncheckedCreateInput) => {
+    if (!syncId) return prisma.templateSync.create({ data })
+    if (await isCancelled?.()) return prisma.templateSync.findUniqueOrThrow({ where: { id: syncId } })
+    return prisma.templateSync.update({ where: { id: syncId }, data })
+  }
+
+  let baseTemplateSha: string | null = null
+  try {
+    const template = project.githubTemplate
+    const repositories = parseSyncRepositories(project)
+    if (!template || !repositories) {
+      throw new Error("Project does not have a valid repository or template")
+    }
+    const { projectOwner, projectRepo, templateOwner, templateRepo } = repositories
+
+    const templateToken = template.githubToken ? safeDecrypt(template.githubToken) || undefined : undefined
+    const repoCloner = new GitHubRepoCloner(accessToken, templateToken)
+
+    // Merge base: the template commit of the last applied sync
+    await refreshPendingSyncs(project.id, new Octokit({ auth: accessToken }), projectOwner, projectRepo)
+    baseTemplateSha = await lastAppliedTemplateSha(project)
+
+    const pathRules = await templateSyncPathRules(template, templateOwner, templateRepo, templateToken)
+
+    // Every add-on is re-applied on top of the template, from its own merge base
+    const addons = await getProjectAddonLayers(project.id)
+
+    const result = await repoCloner.syncWithTemplate({
+      sourceOwner: templateOwner,
+      sourceRepo: templateRepo,
+      targetOwner: projectOwner,
+      targetRepo: projectRepo,
+      createPullRequest: createPullRequest && !directToMain,
+      sourceToken: templateToken,
+      directToMain,
+      baseTemplateSha: baseTemplateSha || undefined,
+      sourceRef: await templateSyncRef(project, template),
+      pathRules,
+      addons,
+      templateVariables: storedParameterValues(project.templateParameters)
+    })
+
+    const sync = await saveSync({
+      projectId: project.id,
+      templateSha: result.templateSha,
+      baseTemplateSha: result.baseTemplateSha,
+      projectBaseSha: result.projectBaseSha,
+      branch: result.syncBranch,
+      pullRequestNumber: result.pullRequestNumber,
+      pullRequestUrl: result.pullRequestUrl,
+      status: !result.success
+        ? "FAILED"
+        : result.filesCount === 0
+          ? "UP_TO_DATE"
+          : directToMain
+            ? "APPLIED"
+            : result.pullRequestNumber ? "PENDING" : "BRANCH_PUSHED",
+      filesCount: result.filesCount,
+      conflictsCount: result.conflicts.length,
+      addonShas: addons.length > 0 ? result.addonShas : undefined,
+      error: result.success ? null : result.message,
+      triggeredById
+    })
+    if (sync.status === "APPLIED" || sync.status === "UP_TO_DATE") {
+      await updateProjectTemplateCommit(project.id)
+    }
+
+    return { sync, result }
+  } catch (error) {
+    console.error(`Error syncing project ${project.id} with template:`, error)
+
+    await saveSync({
+      projectId: project.id,
+      baseTemplateSha,
+      status: "FAILED",
+      error: (error instanceof Error && error.message) || "Failed to sync with template",
+      triggeredById
+    })
+
+    throw error
+  }
+}
+
+/**
+ * Record the latest template commit as the merge base of a project whose
+ * base is unknown (created before syncs were tracked), without changing its
+ * files. Later syncs only bring template changes made after that commit.
+ */
+export async function recordBaselineSync(
+  project: TemplateProject,
+  accessToken: string,
+  triggeredById?: string
+): Promise<TemplateSync> {
+  const template = project.githubTemplate
+  const repositories = parseSyncRepositories(project)
+  if (!template || !repositories) {
+    throw new Error("Project does not have a valid repository or template")
+  }
+  const { templateOwner, templateRepo } = repositories
+
+  const templateToken = template.githubToken ? safeDecrypt(template.githubToken) || undefined : undefined
+  const latest = await latestTemplateCommit(
+    new Octokit({ auth: templateToken || accessToken }),
+    templateOwner,
+    templateRepo,
+    await templateSyncRef(project, template)
+  )
+  if (!latest) {
+    throw new Error("No commits found in template repository")
+  }
+
+  const sync = await prisma.templateSync.create({
+    data: {
+      projectId: project.id,
+      templateSha: latest.sha,
+      status: "UP_TO_DATE",
+      triggeredById
+    }
+  })
+  await updateProjectTemplateCommit(project.id)
+  return sync
+}
+
+/**
+ * Template changes since the project's last sync: commits, per-file diffs and
+ * the files whose project edits would conflict. Null when the project has no
+ * merge base or is already on the latest template commit.
+ */
+export async function getTemplateChangelog(
+  project: TemplateProject,
+  accessToken: string
+): Promise<TemplateChangelog | null> {
+  const template = project.githubTemplate
+  const repositories = parseSyncRepositories(project)
+  if (!template || !repositories) {
+    throw new Error("Project does not have a valid repository or template")
+  }
+  const { projectOwner, projectRepo, templateOwner, templateRepo } = repositories
+
+  const templateToken = template.githubToken ? safeDecrypt(template.githubToken) || undefined : undefined
+  const templateOctokit = new Octokit({ auth: templateToken || accessToken })
+
+  await refreshPendingSyncs(project.id, new Octokit({ auth: accessToken }), projectOwner, projectRepo)
+  const baseTemplateSha = await lastAppliedTemplateSha(project)
+  if (!baseTemplateSha) return null
+
+  const latest = await latestTemplateCommit(
+    templateOctokit,
+    templateOwner,
+    templateRepo,
+    await templateSyncRef(project, template)
+  )
+  if (!latest || latest.sha === baseTemplateSha) return null
+
+  return new GitHubRepoCloner(accessToken, templateToken).compareWithTemplate({
+    sourceOwner: templateOwner,
+    sourceRepo: templateRepo,
+    targetOwner: projectOwner,
+    targetRepo: projectRepo,
+    baseTemplateSha,
+    headTemplateSha: latest.sha,
+    pathRules: await templateSyncPathRules(template, templateOwner, templateRepo, templateToken),
+    templateVariables: storedParameterValues(project.templateParameters)
+  })
+}
+
+// Ignored and owned paths from the manifest and the admin settings
+async function templateSyncPathRules(
+  template: GitHubTemplate,
+  owner: string,
+  repo: string,
+  templateToken?: string
+): Promise<PathRuleSet> {
+  const manifest = await new GitHubTemplateFetcher(templateToken)
+    .getManifest({ owner, repo, branch: template.branch })
+    .catch(error => {
+      console.error("Error reading template manifest:", error)
+      return null
+    })
+
+  return buildPathRules({
+    manifest,
+    ignorePaths: template.ignorePaths,
+    ownedPaths: template.ownedPaths,
+    includeSyncDefaults: true
+  })
+}
@@ -0,0 +1,382 @@
+import { Octokit } from "@octokit/rest"
+import { z } from "zod"
+import { TemplateManifest, normalizeManifest } from "@/lib/github/template-fetcher"
+
+export type ValidationSeverity = "error" | "warning"
+
+export interface TemplateValidationIssue {
+  severity: ValidationSeverity
+  code: string // Stable identifier, e.g. "workflow/missing"
+  message: string
+  file?: string // Repository path the issue refers to
+  field?: string // Manifest field, dot separated
+}
+
+export interface TemplateValidationResult {
+  valid: boolean // No errors; warnings do not block the import
+  errors: TemplateValidationIssue[]
+  warnings: TemplateValidationIssue[]
+  manifest: TemplateManifest | null
+}
+
+export interface WorkflowDispatchInput {
+  name: string
+  required: boolean
+  hasDefault: boolean
+}
+
+const MANIFEST_PATH = ".template.json"
+
+// Workflows dispatched by the deploy routes and the inputs they send
+export const DEPLOY_WORKFLOWS = ["tfplan.yml", "tfapply.yml"]
+export const DEPLOY_WORKFLOW_INPUTS = ["branch"]
+// Optional input identifying each dispatch; the workflow shows it in its run-name
+export const DEPLOY_CORRELATION_INPUT = "correlation_id"
+
+// Terraform files read when looking for a backend block
+const MAX_TERRAFORM_FILES_READ = 20
+
+const branchProtectionSchema = z.object({
+  requiredReviews: z.number().int().min(0).max(6).optional(),
+  dismissStaleReviews: z.boolean().optional(),
+  requireCodeOwnerReviews: z.boolean().optional(),
+  requiredStatusChecks: z.array(z.string()).optional(),
+  strictStatusChecks: z.boolean().optional(),
+  enforceAdmins: z.boolean().optional(),
+  allowForcePushes: z.boolean().optional(),
+  allowDeletions: z.boolean().optional()
+})
+
+const parameterSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Must be a valid {{TOKEN}} name"),
+  type: z.enum(["string", "number", "boolean"]).optional(),
+  label: z.string().optional(),
+  description: z.string().optional(),
+  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  required: z.boolean().optional(),
+  pattern: z.string().refine(pattern => {
+    try {
+      new RegExp(pattern)
+      return true
+    } catch {
+      return false
+    }
+  }, "Must be a valid regular expression").optional()
+})
+
+const pathPatternsSchema = z.union([z.array(z.string()), z.string()])
+
+// Schema of .template.json; unknown keys are allowed for forward compatibility
+export const templateManifestSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  icon: z.string().optional(),
+  features: z.array(z.string()).optional(),
+  gitflow: z.object({
+    defaultBranch: z.string().min(1).optional(),
+    branches: z.object({
+      develop: z.boolean().optional(),
+      feature: z.boolean().optional(),
+      release: z.boolean().optional(),
+      hotfix: z.boolean().optional()
+    }).optional(),
+    protection: z.record(branchProtectionSchema).optional()
+  }).optional(),
+  excludeFiles: z.array(z.string()).optional(),
+  replaceVariables: z.boolean().optional(),
+  parameters: z.array(parameterSchema).superRefine((parameters, ctx) => {
+    const seen = new Set<string>()
+    parameters.forEach((parameter, index) => {
+      if (seen.has(parameter.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "name"],
+          message: `Duplicate parameter ${parameter.name}`
+        })
+      }
+      seen.add(parameter.name)
+    })
+  }).optional(),
+  ignore: pathPatternsSchema.optional(),
+  ownedPaths: pathPatternsSchema.optional()
+}).passthrough()
+
+/**
+ * Validate a template repository: the manifest against its schema, the
+ * deploy workflows and their dispatch inputs, and the Terraform layout.
+ * Add-ons are partial layers, so only their manifest is checked.
+ */
+export async function validateTemplateRepository(options: {
+  octokit: Octokit
+  owner: string
+  repo: string
+  ref: string
+  isAddon?: boolean
+}): Promise<TemplateValidationResult> {
+  const { octokit, owner, repo, ref, isAddon = false } = options
+  const issues: TemplateValidationIssue[] = []
+
+  const { data: tree } = await octokit.git.getTree({
+    owner,
+    repo,
+    tree_sha: ref,
+    recursive: "true"
+  })
+  if (tree.truncated) {
+    issues.push({
+      severity: "warning",
+      code: "repository/truncated",
+      message: "The repository is too large to be fully inspected; some checks may be incomplete"
+    })
+  }
+
+  const blobs = new Map<string, string>()
+  for (const item of tree.tree) {
+    if (item.type === "blob" && item.path && item.sha) {
+      blobs.set(item.path, item.sha)
+    }
+  }
+
+  const readFile = async (path: string) => {
+    const { data } = await octokit.git.getBlob({ owner, repo, file_sha: blobs.get(path)! })
+    return Buffer.from(data.content, "base64").toString("utf-8")
+  }
+
+  const manifest = validateManifest(blobs.has(MANIFEST_PATH) ? await readFile(MANIFEST_PATH) : null, issues)
+
+  if (!isAddon) {
+    for (const workflow of DEPLOY_WORKFLOWS) {
+      const path = `.github/workflows/${workflow}`
+      validateWorkflow(path, blobs.has(path) ? await readFile(path) : null, issues)
+    }
+    await validateTerraform(Array.from(blobs.keys()), readFile, issues)
+  }
+
+  const errors = issues.filter(issue => issue.severity === "error")
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === "warning"),
+    manifest
+  }
+}
+
+function validateManifest(content: string | null, issues: TemplateValidationIssue[]): TemplateManifest | null {
+  if (content === null) {
+    issues.push({
+      severity: "warning",
+      code: "manifest/missing",
+      file: MANIFEST_PATH,
+      message: "No .template.json found; the repository name and description will be used"
+    })
+    return null
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(content)
+  } catch (error) {
+    issues.push({
+      severity: "error",
+      code: "manifest/invalid-json",
+      file: MANIFEST_PATH,
+      message: `.template.json is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    })
+    return null
+  }
+
+  const parsed = templateManifestSchema.safeParse(raw)
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      issues.push({
+        severity: "error",
+        code: "manifest/schema",
+        file: MANIFEST_PATH,
+        field: issue.path.join(".") || undefined,
+        message: issue.message
+      })
+    }
+    return null
+  }
+
+  if (!parsed.data.gitflow) {
+    issues.push({
+      severity: "warning",
+      code: "manifest/no-gitflow",
+      file: MANIFEST_PATH,
+      field: "gitflow",
+      message: "No gitflow section; branches and protection will not be provisioned"
+    })
+  }
+
+  return normalizeManifest(parsed.data)
+}
+
+function validateWorkflow(path: string, content: string | null, issues: TemplateValidationIssue[]) {
+  if (content === null) {
+    issues.push({
+      severity: "error",
+      code: "workflow/missing",
+      file: path,
+      message: `${path} is missing; deployments dispatch this workflow`
+    })
+    return
+  }
+
+  const inputs = parseWorkflowDispatchInputs(content)
+  if (!inputs) {
+    issues.push({
+      severity: "error",
+      code: "workflow/no-dispatch",
+      file: path,
+      message: "The workflow has no workflow_dispatch trigger, so it cannot be run from the platform"
+    })
+    return
+  }
+
+  for (const expected of DEPLOY_WORKFLOW_INPUTS) {
+    if (!inputs.some(input => input.name === expected)) {
+      issues.push({
+        severity: "error",
+        code: "workflow/missing-input",
+        file: path,
+        message: `workflow_dispatch must declare the "${expected}" input sent by the platform`
+      })
+    }
+  }
+
+  const runName = content.match(/^run-name:(.*)$/m)?.[1] || ""
+  if (
+    !inputs.some(input => input.name === DEPLOY_CORRELATION_INPUT) ||
+    !runName.includes(`inputs.${DEPLOY_CORRELATION_INPUT}`)
+  ) {
+    issues.push({
+      severity: "warning",
+      code: "workflow/no-correlation-id",
+      file: path,
+      message: `Declare a "${DEPLOY_CORRELATION_INPUT}" input and show it in run-name ` +
+        `(e.g. run-name: Terraform \${{ inputs.${DEPLOY_CORRELATION_INPUT} }}); otherwise runs are matched to deployments by time`
+    })
+  }
+
+  if (
+    path.endsWith("/tfplan.yml") &&
+    !(/terraform\s+show\s+-json/.test(content) && /actions\/upload-artifact/.test(content))
+  ) {
+    issues.push({
+      severity: "warning",
+      code: "workflow/no-plan-artifact",
+      file: path,
+      message: "Upload the output of terraform show -json as an artifact with \"plan\" in its name; " +
+        "otherwise the plan is scraped from the job logs"
+    })
+  }
+
+  const sent = [...DEPLOY_WORKFLOW_INPUTS, DEPLOY_CORRELATION_INPUT]
+  for (const input of inputs) {
+    if (input.required && !input.hasDefault && !sent.includes(input.name)) {
+      issues.push({
+        severity: "error",
+        code: "workflow/unsupported-input",
+        file: path,
+        message: `Required input "${input.name}" is not sent by the platform; give it a default or make it optional`
+      })
+    }
+  }
+}
+
+async function validateTerraform(
+  paths: string[],
+  readFile: (path: string) => Promise<string>,
+  issues: TemplateValidationIssue[]
+) {
+  const terraformFiles = paths.filter(path => path.endsWith(".tf"))
+  if (terraformFiles.length === 0) {
+    issues.push({
+      severity: "error",
+      code: "terraform/missing",
+      message: "No Terraform (.tf) files found"
+    })
+    return
+  }
+
+  for (const path of paths) {
+    if (/(^|\/)\.terraform\//.test(path) || /\.tfstate(\.backup)?$/.test(path)) {
+      issues.push({
+        severity: "warning",
+        code: "terraform/committed-state",
+        file: path,
+        message: "Terraform state and .terraform directories should not be committed"
+      })
+    }
+  }
+
+  // The backend lives in the root module: the shallowest directory with .tf files
+  const depth = (path: string) => path.split("/").length
+  const rootDepth = Math.min(...terraformFiles.map(depth))
+  const rootFiles = terraformFiles
+    .filter(path => depth(path) === rootDepth)
+    .slice(0, MAX_TERRAFORM_FILES_READ)
+
+  const contents = await Promise.all(rootFiles.map(readFile))
+  if (!contents.some(content => /^\s*backend\s+"[^"]+"/m.test(content))) {
+    issues.push({
+      severity: "warning",
+      code: "terraform/no-backend",
+      file: rootFiles[0],
+      message: "No backend block found in the root module; state would be stored in the runner and lost"
+    })
+  }
+}
+
+/**
+ * Inputs of the workflow_dispatch trigger, or null when the workflow cannot
+ * be dispatched. Only the subset of YAML used by `on:` sections is understood.
+ */
+export function parseWorkflowDispatchInputs(content: string): WorkflowDispatchInput[] | null {
+  const lines = content
+    .split("\n")
+    .map(line => line.replace(/\s+#.*$/, "").replace(/\s+$/, ""))
+    .filter(line => line.trim() && !line.trim().startsWith("#"))
+  const indent = (line: string) => line.length - line.trimStart().length
+  const keyOf = (index: number) => lines[index].trim().match(/^["']?([\w-]+)["']?\s*:(.*)$/)
+
+  // Indexes of the direct children of the block opened at `start`
+  const childrenOf = (start: number) => {
+    const children: number[] = []
+    const childIndent = start + 1 < lines.length ? indent(lines[start + 1]) : 0
+    for (let i = start + 1; i < lines.length && indent(lines[i]) > indent(lines[start]); i++) {
+      if (indent(lines[i]) === childIndent) children.push(i)
+    }
+    return children
+  }
+
+  const onIndex = lines.findIndex((line, i) => indent(line) === 0 && keyOf(i)?.[1] === "on")
+  if (onIndex === -1) return null
+
+  // on: workflow_dispatch / on: [push, workflow_dispatch]
+  const inlineTriggers = keyOf(onIndex)![2].trim()
+  if (inlineTriggers) {
+    return /\bworkflow_dispatch\b/.test(inlineTriggers) ? [] : null
+  }
+
+  const triggers = childrenOf(onIndex)
+  if (triggers.some(i => lines[i].trim() === "- workflow_dispatch")) return []
+  const dispatchIndex = triggers.find(i => keyOf(i)?.[1] === "workflow_dispatch")
+  if (dispatchIndex === undefined) return null
+
+  const inputsIndex = childrenOf(dispatchIndex).find(i => keyOf(i)?.[1] === "inputs")
+  if (inputsIndex === undefined) return []
+
+  return childrenOf(inputsIndex)
+    .filter(i => keyOf(i))
+    .map(i => {
+      const properties = childrenOf(i).map(keyOf)
+      return {
+        name: keyOf(i)![1],
+        required: properties.some(property => property?.[1] === "required" && property[2].trim() === "true"),
+        hasDefault: properties.some(property => property?.[1] === "default")
+      }
+    })
+}
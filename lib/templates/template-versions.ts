@@ -0,0 +1,173 @@
+import { after } from "next/server"
+import { GitHubTemplate, TemplateVersion } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { safeDecrypt } from "@/lib/encryption"
+import { createGitHubClient } from "@/lib/github/client"
+
+// Tags treated as template versions: v1, v1.4, 1.4.2, v2.0.0-rc.1
+const VERSION_TAG_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?$/
+// Stored versions older than this are refreshed from GitHub in the background
+const VERSIONS_TTL_MS = 10 * 60 * 1000
+
+export interface ParsedVersion {
+  major: number
+  minor: number
+  patch: number
+  prerelease?: string
+}
+
+export function parseVersionTag(tag: string): ParsedVersion | null {
+  const match = tag.match(VERSION_TAG_PATTERN)
+  if (!match) return null
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] || 0),
+    patch: Number(match[3] || 0),
+    prerelease: match[4]
+  }
+}
+
+/**
+ * Compare two version tags: negative if `a` is older than `b`.
+ * A prerelease sorts before the release with the same number.
+ */
+export function compareVersionTags(a: string, b: string): number {
+  const va = parseVersionTag(a)
+  const vb = parseVersionTag(b)
+  if (!va || !vb) return a.localeCompare(b)
+
+  const diff = va.major - vb.major || va.minor - vb.minor || va.patch - vb.patch
+  if (diff !== 0) return diff
+
+  if (va.prerelease === vb.prerelease) return 0
+  if (!va.prerelease) return 1
+  if (!vb.prerelease) return -1
+  return va.prerelease.localeCompare(vb.prerelease, undefined, { numeric: true })
+}
+
+// Newest first
+export function sortVersions<T extends Pick<TemplateVersion, "tag">>(versions: T[]): T[] {
+  return [...versions].sort((a, b) => compareVersionTags(b.tag, a.tag))
+}
+
+// Latest non-prerelease version, or the newest one if all are prereleases
+export function latestVersion<T extends Pick<TemplateVersion, "tag" | "isPrerelease">>(versions: T[]): T | null {
+  const sorted = sortVersions(versions)
+  return sorted.find(v => !v.isPrerelease) || sorted[0] || null
+}
+
+/**
+ * Versions newer than `current` up to and including `latest`, oldest first,
+ * so their release notes read in order
+ */
+export function versionsBetween<T extends Pick<TemplateVersion, "tag">>(
+  versions: T[],
+  current: string,
+  latest: string
+): T[] {
+  return sortVersions(versions)
+    .filter(v => compareVersionTags(v.tag, current) > 0 && compareVersionTags(v.tag, latest) <= 0)
+    .reverse()
+}
+
+/**
+ * Stored versions of a template. They are read from GitHub on first use and
+ * refreshed after the response once older than VERSIONS_TTL_MS, so page loads
+ * do not wait on the tags and releases listing.
+ */
+export async function getTemplateVersions(template: GitHubTemplate): Promise<TemplateVersion[]> {
+  const syncedAt = template.versionsSyncedAt
+  if (!syncedAt) {
+    try {
+      return await syncTemplateVersions(template)
+    } catch (error) {
+      console.error("Error syncing template versions:", error)
+    }
+  } else if (Date.now() - syncedAt.getTime() > VERSIONS_TTL_MS) {
+    // Claim the refresh so concurrent requests do not start it again
+    const { count } = await prisma.gitHubTemplate.updateMany({
+      where: { id: template.id, versionsSyncedAt: syncedAt },
+      data: { versionsSyncedAt: new Date() }
+    })
+    if (count > 0) {
+      after(() => syncTemplateVersions(template).catch(error => {
+        console.error("Error syncing template versions:", error)
+      }))
+    }
+  }
+
+  return sortVersions(await prisma.templateVersion.findMany({
+    where: { githubTemplateId: template.id }
+  }))
+}
+
+/**
+ * Read the template repository tags and releases and store them as
+ * TemplateVersion rows. Tags that no longer exist are removed unless a
+ * project is pinned to them.
+ */
+export async function syncTemplateVersions(template: GitHubTemplate): Promise<TemplateVersion[]> {
+  const match = template.githubUrl.match(/github\.com\/([^\/]+)\/([^\/\?.]+)/)
+  if (!match) {
+    throw new Error("Invalid template repository URL")
+  }
+  const owner = match[1]
+  const repo = match[2].replace('.git', '')
+
+  const octokit = createGitHubClient(template.githubToken ? safeDecrypt(template.githubToken) : undefined)
+  const [tags, releases] = await Promise.all([
+    octokit.paginate(octokit.repos.listTags, { owner, repo, per_page: 100 }),
+    octokit.paginate(octokit.repos.listReleases, { owner, repo, per_page: 100 })
+  ])
+
+  const releasesByTag = new Map(
+    releases.filter(release => !release.draft).map(release => [release.tag_name, release])
+  )
+  const versionTags = tags.filter(tag => parseVersionTag(tag.name))
+
+  for (const tag of versionTags) {
+    const release = releasesByTag.get(tag.name)
+    const data = {
+      commitSha: tag.commit.sha,
+      name: release?.name || null,
+      releaseNotes: release?.body || null,
+      releaseUrl: release?.html_url || null,
+      isPrerelease: release?.prerelease ?? !!parseVersionTag(tag.name)?.prerelease,
+      publishedAt: release?.published_at ? new Date(release.published_at) : null
+    }
+
+    await prisma.templateVersion.upsert({
+      where: {
+        githubTemplateId_tag: {
+          githubTemplateId: template.id,
+          tag: tag.name
+        }
+      },
+      create: {
+        githubTemplateId: template.id,
+        tag: tag.name,
+        ...data
+      },
+      update: data
+    })
+  }
+
+  await prisma.templateVersion.deleteMany({
+    where: {
+      githubTemplateId: template.id,
+      tag: { notIn: versionTags.map(tag => tag.name) },
+      projects: { none: {} }
+    }
+  })
+
+  await prisma.gitHubTemplate.update({
+    where: { id: template.id },
+    data: { versionsSyncedAt: new Date() }
+  })
+
+  const versions = await prisma.templateVersion.findMany({
+    where: { githubTemplateId: template.id }
+  })
+  return sortVersions(versions)
+}
@@ -0,0 +1,173 @@
+export interface MergeLabels {
+  ours: string
+  theirs: string
+}
+
+export interface TextMergeResult {
+  content: string
+  conflicts: number // Conflicting hunks written with markers
+}
+
+// A range of base lines replaced by a range of lines of one side
+interface Hunk {
+  baseStart: number
+  baseEnd: number
+  sideStart: number
+  sideEnd: number
+}
+
+// Largest LCS table computed; bigger changes are treated as a single hunk
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Three-way line merge of `ours` and `theirs` against their common `base`.
+ * Changes made by only one side are applied; overlapping changes that
+ * differ are written between git-style conflict markers.
+ */
+export function mergeText(base: string, ours: string, theirs: string, labels: MergeLabels): TextMergeResult {
+  const baseLines = base.split("\n")
+  const oursLines = ours.split("\n")
+  const theirsLines = theirs.split("\n")
+
+  const changes = [
+    ...diffHunks(baseLines, oursLines).map(hunk => ({ ...hunk, side: "ours" as const })),
+    ...diffHunks(baseLines, theirsLines).map(hunk => ({ ...hunk, side: "theirs" as const }))
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd)
+
+  const output: string[] = []
+  let conflicts = 0
+  let position = 0
+  let index = 0
+
+  while (index < changes.length) {
+    // Group hunks that overlap or touch in the base into one region
+    const region = [changes[index]]
+    const lo = changes[index].baseStart
+    let hi = changes[index].baseEnd
+    index++
+    while (index < changes.length && changes[index].baseStart <= hi) {
+      hi = Math.max(hi, changes[index].baseEnd)
+      region.push(changes[index])
+      index++
+    }
+
+    output.push(...baseLines.slice(position, lo))
+    position = hi
+
+    const oursHunks = region.filter(hunk => hunk.side === "ours")
+    const theirsHunks = region.filter(hunk => hunk.side === "theirs")
+    const oursText = sideLines(baseLines, oursLines, oursHunks, lo, hi)
+    const theirsText = sideLines(baseLines, theirsLines, theirsHunks, lo, hi)
+
+    if (theirsHunks.length === 0 || sameLines(oursText, theirsText)) {
+      output.push(...oursText)
+    } else if (oursHunks.length === 0) {
+      output.push(...theirsText)
+    } else {
+      conflicts++
+      output.push(`<<<<<<< ${labels.ours}`, ...oursText, "=======", ...theirsText, `>>>>>>> ${labels.theirs}`)
+    }
+  }
+
+  output.push(...baseLines.slice(position))
+  return { content: output.join("\n"), conflicts }
+}
+
+/**
+ * Whole-file conflict, used when there is no common base
+ */
+export function conflictText(ours: string, theirs: string, labels: MergeLabels): string {
+  const trailingNewline = ours.endsWith("\n") && theirs.endsWith("\n")
+  const strip = (text: string) => trailingNewline ? text.slice(0, -1) : text
+  return [
+    `<<<<<<< ${labels.ours}`,
+    strip(ours),
+    "=======",
+    strip(theirs),
+    `>>>>>>> ${labels.theirs}`
+  ].join("\n") + (trailingNewline ? "\n" : "")
+}
+
+/**
+ * Lines of one side covering base[lo, hi), or the base lines themselves
+ * when that side did not change the region
+ */
+function sideLines(baseLines: string[], lines: string[], hunks: Hunk[], lo: number, hi: number): string[] {
+  if (hunks.length === 0) {
+    return baseLines.slice(lo, hi)
+  }
+  const first = hunks[0]
+  const last = hunks[hunks.length - 1]
+  return lines.slice(first.sideStart - (first.baseStart - lo), last.sideEnd + (hi - last.baseEnd))
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i])
+}
+
+/**
+ * Changed regions between `base` and `side`, from their longest common subsequence
+ */
+function diffHunks(base: string[], side: string[]): Hunk[] {
+  // Common prefix and suffix never belong to a hunk
+  let start = 0
+  while (start < base.length && start < side.length && base[start] === side[start]) start++
+  let baseEnd = base.length
+  let sideEnd = side.length
+  while (baseEnd > start && sideEnd > start && base[baseEnd - 1] === side[sideEnd - 1]) {
+    baseEnd--
+    sideEnd--
+  }
+
+  const n = baseEnd - start
+  const m = sideEnd - start
+  if (n === 0 && m === 0) return []
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return [{ baseStart: start, baseEnd, sideStart: start, sideEnd }]
+  }
+
+  // lcs[i][j] = LCS length of base[start + i..] and side[start + j..]
+  const width = m + 1
+  const lcs = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = base[start + i] === side[start + j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+    }
+  }
+
+  const hunks: Hunk[] = []
+  let open: Hunk | null = null
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && base[start + i] === side[start + j]) {
+      if (open) {
+        open.baseEnd = start + i
+        open.sideEnd = start + j
+        hunks.push(open)
+        open = null
+      }
+      i++
+      j++
+      continue
+    }
+
+    if (!open) {
+      open = { baseStart: start + i, baseEnd: start + i, sideStart: start + j, sideEnd: start + j }
+    }
+    if (j < m && (i === n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      j++
+    } else {
+      i++
+    }
+  }
+  if (open) {
+    open.baseEnd = start + n
+    open.sideEnd = start + m
+    hunks.push(open)
+  }
+
+  return hunks
+}
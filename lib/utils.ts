@@ -3,4 +3,36 @@ import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+
+/**
+ * Convert a glob pattern to a RegExp: `*` matches within a path segment,
+ * `**` across segments and `?` a single character
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ""
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === "*" && pattern[i + 1] === "*") {
+      i++
+      if (pattern[i + 1] === "/") {
+        source += "(?:.*/)?" // "**/" also matches zero segments
+        i++
+      } else {
+        source += ".*"
+      }
+    } else if (char === "*") {
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+// True if `value` matches any of the glob patterns
+export function matchesGlob(value: string, patterns: string[]): boolean {
+  return patterns.some(pattern => globToRegExp(pattern).test(value))
+}
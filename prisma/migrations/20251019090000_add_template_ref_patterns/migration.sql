@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "GitHubTemplate" ADD COLUMN     "branchPatterns" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "tagPatterns" TEXT[] DEFAULT ARRAY[]::TEXT[];
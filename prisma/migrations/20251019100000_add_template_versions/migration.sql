@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "templateSha" TEXT,
+ADD COLUMN     "templateVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TemplateVersion" (
+    "id" TEXT NOT NULL,
+    "githubTemplateId" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "name" TEXT,
+    "commitSha" TEXT NOT NULL,
+    "releaseNotes" TEXT,
+    "releaseUrl" TEXT,
+    "isPrerelease" BOOLEAN NOT NULL DEFAULT false,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TemplateVersion_githubTemplateId_tag_key" ON "TemplateVersion"("githubTemplateId", "tag");
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_templateVersionId_fkey" FOREIGN KEY ("templateVersionId") REFERENCES "TemplateVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplateVersion" ADD CONSTRAINT "TemplateVersion_githubTemplateId_fkey" FOREIGN KEY ("githubTemplateId") REFERENCES "GitHubTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
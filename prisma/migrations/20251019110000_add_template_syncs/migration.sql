@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "TemplateSyncStatus" AS ENUM ('PENDING', 'APPLIED', 'CLOSED', 'UP_TO_DATE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "TemplateSync" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "templateSha" TEXT,
+    "baseTemplateSha" TEXT,
+    "projectBaseSha" TEXT,
+    "branch" TEXT,
+    "pullRequestNumber" INTEGER,
+    "pullRequestUrl" TEXT,
+    "status" "TemplateSyncStatus" NOT NULL DEFAULT 'PENDING',
+    "filesCount" INTEGER NOT NULL DEFAULT 0,
+    "conflictsCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "triggeredById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TemplateSync_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TemplateSync_projectId_createdAt_idx" ON "TemplateSync"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TemplateSync" ADD CONSTRAINT "TemplateSync_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplateSync" ADD CONSTRAINT "TemplateSync_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "GitHubTemplate" ADD COLUMN     "ignorePaths" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "ownedPaths" TEXT[] DEFAULT ARRAY[]::TEXT[];
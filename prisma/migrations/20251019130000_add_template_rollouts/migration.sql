@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "TemplateRolloutStatus" AS ENUM ('RUNNING', 'COMPLETED');
+
+-- AlterEnum
+ALTER TYPE "TemplateSyncStatus" ADD VALUE 'QUEUED';
+ALTER TYPE "TemplateSyncStatus" ADD VALUE 'RUNNING';
+
+-- AlterTable
+ALTER TABLE "TemplateSync" ADD COLUMN "rolloutId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TemplateRollout" (
+    "id" TEXT NOT NULL,
+    "githubTemplateId" TEXT NOT NULL,
+    "status" "TemplateRolloutStatus" NOT NULL DEFAULT 'RUNNING',
+    "triggeredById" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TemplateRollout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TemplateSync_rolloutId_idx" ON "TemplateSync"("rolloutId");
+
+-- CreateIndex
+CREATE INDEX "TemplateRollout_githubTemplateId_createdAt_idx" ON "TemplateRollout"("githubTemplateId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TemplateSync" ADD CONSTRAINT "TemplateSync_rolloutId_fkey" FOREIGN KEY ("rolloutId") REFERENCES "TemplateRollout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplateRollout" ADD CONSTRAINT "TemplateRollout_githubTemplateId_fkey" FOREIGN KEY ("githubTemplateId") REFERENCES "GitHubTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplateRollout" ADD CONSTRAINT "TemplateRollout_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
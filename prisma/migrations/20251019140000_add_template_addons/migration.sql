@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "GitHubTemplate" ADD COLUMN "isAddon" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "addonPrecedence" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "TemplateSync" ADD COLUMN "addonShas" JSONB;
+
+-- CreateTable
+CREATE TABLE "ProjectAddon" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "githubTemplateId" TEXT NOT NULL,
+    "templateSha" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectAddon_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectAddon_projectId_githubTemplateId_key" ON "ProjectAddon"("projectId", "githubTemplateId");
+
+-- AddForeignKey
+ALTER TABLE "ProjectAddon" ADD CONSTRAINT "ProjectAddon_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectAddon" ADD CONSTRAINT "ProjectAddon_githubTemplateId_fkey" FOREIGN KEY ("githubTemplateId") REFERENCES "GitHubTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
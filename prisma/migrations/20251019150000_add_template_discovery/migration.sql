@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "DiscoveredTemplateStatus" AS ENUM ('NEW', 'IMPORTED', 'DISMISSED', 'REMOVED');
+
+-- CreateTable
+CREATE TABLE "TemplateSource" (
+    "id" TEXT NOT NULL,
+    "organization" TEXT NOT NULL,
+    "topic" TEXT NOT NULL DEFAULT 'idp-template',
+    "githubToken" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastScannedAt" TIMESTAMP(3),
+    "lastScanError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TemplateSource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DiscoveredTemplate" (
+    "id" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "repo" TEXT NOT NULL,
+    "githubUrl" TEXT NOT NULL,
+    "defaultBranch" TEXT NOT NULL,
+    "description" TEXT,
+    "isPrivate" BOOLEAN NOT NULL DEFAULT false,
+    "status" "DiscoveredTemplateStatus" NOT NULL DEFAULT 'NEW',
+    "validation" JSONB,
+    "githubTemplateId" TEXT,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "removedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DiscoveredTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TemplateSource_organization_topic_key" ON "TemplateSource"("organization", "topic");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiscoveredTemplate_sourceId_owner_repo_key" ON "DiscoveredTemplate"("sourceId", "owner", "repo");
+
+-- AddForeignKey
+ALTER TABLE "DiscoveredTemplate" ADD CONSTRAINT "DiscoveredTemplate_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "TemplateSource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiscoveredTemplate" ADD CONSTRAINT "DiscoveredTemplate_githubTemplateId_fkey" FOREIGN KEY ("githubTemplateId") REFERENCES "GitHubTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "TemplateCategory" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "icon" TEXT,
+    "description" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TemplateCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TemplateCategory_slug_key" ON "TemplateCategory"("slug");
+
+-- AlterTable
+ALTER TABLE "GitHubTemplate" ADD COLUMN "categoryId" TEXT;
+
+-- Merge the free-text categories: spellings that only differ in case, spacing or
+-- punctuation ("Backend", "backend ", "back-end") share a slug and become one
+-- category named after their most common spelling. Names without ASCII letters
+-- or numbers fall back to the hex of their UTF-8 bytes, as categorySlug does
+WITH "categories" AS (
+    SELECT
+        coalesce(
+            nullif(trim(both '-' from regexp_replace(lower(trim("category")), '[^a-z0-9]+', '-', 'g')), ''),
+            'category-' || encode(convert_to(lower(trim("category")), 'UTF8'), 'hex')
+        ) AS "slug",
+        trim("category") AS "name"
+    FROM "GitHubTemplate"
+    WHERE trim("category") <> ''
+)
+INSERT INTO "TemplateCategory" ("id", "slug", "name", "sortOrder", "updatedAt")
+SELECT
+    'cat' || substr(md5("slug"), 1, 22),
+    "slug",
+    mode() WITHIN GROUP (ORDER BY "name"),
+    (row_number() OVER (ORDER BY "slug") - 1)::INTEGER,
+    CURRENT_TIMESTAMP
+FROM "categories"
+GROUP BY "slug";
+
+UPDATE "GitHubTemplate" AS "template"
+SET "categoryId" = "category"."id"
+FROM "TemplateCategory" AS "category"
+WHERE "category"."slug" = coalesce(
+    nullif(trim(both '-' from regexp_replace(lower(trim("template"."category")), '[^a-z0-9]+', '-', 'g')), ''),
+    'category-' || encode(convert_to(lower(trim("template"."category")), 'UTF8'), 'hex')
+);
+
+-- AlterTable
+ALTER TABLE "GitHubTemplate" DROP COLUMN "category";
+
+-- CreateIndex
+CREATE INDEX "GitHubTemplate_categoryId_idx" ON "GitHubTemplate"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "GitHubTemplate" ADD CONSTRAINT "GitHubTemplate_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "TemplateCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
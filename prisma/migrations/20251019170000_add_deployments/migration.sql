@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "DeploymentKind" AS ENUM ('PLAN', 'APPLY');
+
+-- CreateEnum
+CREATE TYPE "DeploymentStatus" AS ENUM ('QUEUED', 'IN_PROGRESS', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "Deployment" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "runId" BIGINT,
+    "runNumber" INTEGER,
+    "kind" "DeploymentKind" NOT NULL,
+    "workflowFile" TEXT NOT NULL,
+    "branch" TEXT NOT NULL,
+    "commitSha" TEXT,
+    "htmlUrl" TEXT,
+    "status" "DeploymentStatus" NOT NULL DEFAULT 'QUEUED',
+    "conclusion" TEXT,
+    "triggeredById" TEXT,
+    "planSummary" JSONB,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Deployment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Deployment_runId_key" ON "Deployment"("runId");
+
+-- CreateIndex
+CREATE INDEX "Deployment_projectId_createdAt_idx" ON "Deployment"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Deployment" ADD CONSTRAINT "Deployment_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Deployment" ADD CONSTRAINT "Deployment_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Deployment" ADD COLUMN "correlationId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Deployment_correlationId_key" ON "Deployment"("correlationId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "GitHubTemplate" ADD COLUMN "versionsSyncedAt" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "TemplateSyncStatus" ADD VALUE 'BRANCH_PUSHED';
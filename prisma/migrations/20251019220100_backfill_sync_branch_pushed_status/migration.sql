@@ -0,0 +1,2 @@
+-- Syncs saved as PENDING without a pull request
+UPDATE "TemplateSync" SET "status" = 'BRANCH_PUSHED' WHERE "status" = 'PENDING' AND "pullRequestNumber" IS NULL;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "WebhookDelivery" ADD COLUMN "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing deliveries started processing when they were received
+UPDATE "WebhookDelivery" SET "receivedAt" = "createdAt";
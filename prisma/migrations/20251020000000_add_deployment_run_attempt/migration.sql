@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "Deployment_runId_key";
+
+-- AlterTable
+ALTER TABLE "Deployment" ADD COLUMN "runAttempt" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Deployment_projectId_runId_key" ON "Deployment"("projectId", "runId");
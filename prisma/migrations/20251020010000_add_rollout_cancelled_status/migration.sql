@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "TemplateRolloutStatus" ADD VALUE 'CANCELLED';